@@ -1,7 +1,9 @@
 import { remote } from "webdriverio";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { AppConfig } from "../../../config/app-config";
+import { AppConfig, type AppConfiguration } from "../../../config/app-config";
+import { Platform } from "../../../core/platform";
+import { type CapabilityOverride, reportCapabilities, resolveCapabilities } from "./capabilities";
 
 function urlToWdio(appiumUrl: URL) {
   return {
@@ -20,7 +22,16 @@ function urlToWdio(appiumUrl: URL) {
  * Инкапсулирует инициализацию Android-драйвера (WDIO).
  */
 export class AndroidDriver {
-  constructor(private readonly autoLaunch: boolean) {
+  /**
+   * @param autoLaunch appium:autoLaunch
+   * @param config     конфигурация; по умолчанию — действующая (с учётом withConfig/overrideConfig)
+   * @param options    имя теста (для функций overrideCapabilities) и capabilities поверх всех остальных
+   */
+  constructor(
+    private readonly autoLaunch: boolean,
+    private readonly config: AppConfiguration = AppConfig,
+    private readonly options: { testName?: string; capabilities?: CapabilityOverride } = {}
+  ) {
   }
 
   /**
@@ -30,7 +41,7 @@ export class AndroidDriver {
     try {
       console.info(`[AndroidDriver] Инициализация драйвера (осталось попыток: ${retryCount})`);
       const caps = this.getCapabilities();
-      const appiumUrl = AppConfig.getAppiumUrl();
+      const appiumUrl = this.config.getAppiumUrl();
 
       const driver = await remote({
         ...urlToWdio(appiumUrl),
@@ -57,36 +68,45 @@ export class AndroidDriver {
    * Формирование возможностей для Android (W3C + appium: префиксы).
    */
   private getCapabilities(): WebdriverIO.Capabilities {
-    const appPath = path.resolve(AppConfig.getAppName());
-    if (!fs.existsSync(appPath)) {
-      throw new Error(
-        [
-          `APK-файл приложения '${AppConfig.getAppName()}' не найден.`,
-          `Ожидалось наличие файла по пути: ${appPath}.`,
-          `Скомпилируйте Android-приложение и скопируйте APK в корень проекта.`,
-        ].join("\n")
-      );
-    }
+    const appPath = path.resolve(this.config.getAppName());
 
     console.info("[AndroidDriver] Формирование capabilities");
     const caps: WebdriverIO.Capabilities = {
       platformName: "Android",
       "appium:automationName": "UiAutomator2",
       "appium:app": appPath,
-      "appium:platformVersion": AppConfig.getAndroidVersion(),
-      "appium:deviceName": AppConfig.getAndroidDeviceName(),
+      "appium:platformVersion": this.config.getAndroidVersion(),
+      "appium:deviceName": this.config.getAndroidDeviceName(),
       "appium:noReset": false,
       "appium:newCommandTimeout": 100,
       "appium:dontStopAppOnReset": false,
       "appium:unicodeKeyboard": true,
       "appium:adbExecTimeout": 40_000,
-      "appium:autoGrantPermissions": true,
+      "appium:autoGrantPermissions": this.config.getAndroidAutoGrantPermissions(),
       "appium:autoLaunch": this.autoLaunch,
-      "appium:appActivity": AppConfig.getAppActivity(),
-      "appium:appPackage": AppConfig.getAppPackage(),
+      "appium:appActivity": this.config.getAppActivity(),
+      "appium:appPackage": this.config.getAppPackage(),
     };
 
+    const effective = resolveCapabilities(
+      caps,
+      this.config,
+      { platform: Platform.ANDROID, testName: this.options.testName },
+      this.options.capabilities
+    );
+    // файл проверяем, только если приложение не подменили через caps.*/overrideCapabilities
+    if (effective["appium:app"] === appPath && !fs.existsSync(appPath)) {
+      throw new Error(
+        [
+          `APK-файл приложения '${this.config.getAppName()}' не найден.`,
+          `Ожидалось наличие файла по пути: ${appPath}.`,
+          `Скомпилируйте Android-приложение и скопируйте APK в корень проекта.`,
+        ].join("\n")
+      );
+    }
+
     console.info("[AndroidDriver] Capabilities сформированы");
-    return caps;
+    reportCapabilities("AndroidDriver", effective);
+    return effective as WebdriverIO.Capabilities;
   }
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { AppConfiguration } from "../../../config/app-config";
+import type { Platform } from "../../../core/platform";
+
+export type Capabilities = Record<string, unknown>;
+
+/** Для кого формируются capabilities — доступно функциям-переопределениям. */
+export interface CapabilityContext {
+  platform: Platform;
+  /** Имя теста, для которого создаётся сессия (если сессию поднимает MobileActions.setUp). */
+  testName?: string;
+}
+
+/** Переопределение: объект или функция от контекста (undefined — ничего не менять). */
+export type CapabilityOverride = Capabilities | ((ctx: CapabilityContext) => Capabilities | undefined);
+
+const scope = new AsyncLocalStorage<CapabilityOverride[]>();
+const overrideStack: CapabilityOverride[] = [];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Глубокое слияние capabilities: вложенные объекты сливаются, массивы и скаляры заменяются,
+ * null удаляет capability (например, "appium:app": null для запуска уже установленного приложения).
+ */
+export function mergeCapabilities(base: Capabilities, ...overrides: Array<Capabilities | undefined>): Capabilities {
+  const out: Capabilities = { ...base };
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const [key, value] of Object.entries(override)) {
+      if (value === null) {
+        delete out[key];
+      } else if (isPlainObject(value) && isPlainObject(out[key])) {
+        out[key] = mergeCapabilities(out[key] as Capabilities, value);
+      } else {
+        out[key] = value;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Переопределение capabilities до вызова возвращённой функции. Действует на сессии,
+ * создаваемые после вызова, поэтому регистрируйте его до registerMobileHooks()
+ * или в beforeAll сьюта:
+ *
+ *   let restore: () => void;
+ *   beforeAll(() => {
+ *     restore = overrideCapabilities(({ testName }) =>
+ *       testName?.includes("без сброса") ? { "appium:noReset": true } : undefined
+ *     );
+ *   });
+ *   afterAll(() => restore());
+ */
+export function overrideCapabilities(override: CapabilityOverride): () => void {
+  overrideStack.push(override);
+  return () => {
+    const i = overrideStack.lastIndexOf(override);
+    if (i >= 0) overrideStack.splice(i, 1);
+  };
+}
+
+/** Выполнить fn с дополнительными capabilities для всех сессий, создаваемых внутри fn. */
+export function withCapabilities<T>(override: CapabilityOverride, fn: () => T): T {
+  return scope.run([...(scope.getStore() ?? []), override], fn);
+}
+
+/**
+ * Итоговые capabilities сессии:
+ * сгенерированные драйвером → ключи caps.<platform>.* из конфигурации →
+ * overrideCapabilities(...) → withCapabilities(...) → явно переданные в App.launch.
+ */
+export function resolveCapabilities(
+  generated: WebdriverIO.Capabilities | Capabilities,
+  config: AppConfiguration,
+  ctx: CapabilityContext,
+  explicit?: CapabilityOverride
+): Capabilities {
+  const apply = (o: CapabilityOverride | undefined) => (typeof o === "function" ? o(ctx) : o);
+  return mergeCapabilities(
+    generated as Capabilities,
+    config.getCapabilityOverrides(ctx.platform),
+    ...overrideStack.map(apply),
+    ...(scope.getStore() ?? []).map(apply),
+    apply(explicit)
+  );
+}
+
+/** Лог итогового набора capabilities и attachment в Allure (если адаптер подключён). */
+export function reportCapabilities(tag: string, caps: Capabilities): void {
+  const json = JSON.stringify(caps, null, 2);
+  console.info(`[${tag}] Итоговые capabilities:\n${json}`);
+
+  const g = globalThis as any;
+  if (g.allure?.attachment) {
+    try {
+      g.allure.attachment("Capabilities", Buffer.from(json, "utf8"), "application/json");
+    } catch (e: any) {
+      console.warn(`[${tag}] Не удалось приложить capabilities к отчёту: ${e?.message}`);
+    }
+  }
+}
@@ -1,7 +1,9 @@
 import { remote } from "webdriverio";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { AppConfig } from "../../../config/app-config";
+import { AppConfig, type AppConfiguration } from "../../../config/app-config";
+import { Platform } from "../../../core/platform";
+import { type CapabilityOverride, reportCapabilities, resolveCapabilities } from "./capabilities";
 
 function urlToWdio(appiumUrl: URL) {
   return {
@@ -20,7 +22,16 @@ function urlToWdio(appiumUrl: URL) {
  * Обёртка для инициализации iOS-драйвера (WDIO).
  */
 export class IosDriver {
-  constructor(private readonly autoLaunch: boolean) {
+  /**
+   * @param autoLaunch appium:autoLaunch
+   * @param config     конфигурация; по умолчанию — действующая (с учётом withConfig/overrideConfig)
+   * @param options    имя теста (для функций overrideCapabilities) и capabilities поверх всех остальных
+   */
+  constructor(
+    private readonly autoLaunch: boolean,
+    private readonly config: AppConfiguration = AppConfig,
+    private readonly options: { testName?: string; capabilities?: CapabilityOverride } = {}
+  ) {
   }
 
   /**
@@ -30,7 +41,7 @@ export class IosDriver {
     try {
       console.info(`[IosDriver] Инициализация iOS-драйвера (попыток осталось: ${retryCount})`);
       const caps = this.getCapabilities();
-      const appiumUrl = AppConfig.getAppiumUrl();
+      const appiumUrl = this.config.getAppiumUrl();
 
       const driver = await remote({
         ...urlToWdio(appiumUrl),
@@ -63,27 +74,18 @@ export class IosDriver {
    * Формирование возможностей для iOS (W3C + appium: префиксы).
    */
   private getCapabilities(): WebdriverIO.Capabilities {
-    const appPath = path.resolve(AppConfig.getAppName());
-    if (!fs.existsSync(appPath)) {
-      throw new Error(
-        [
-          `Не найден файл приложения: ${AppConfig.getAppName()}.`,
-          `Ожидалось наличие файла по пути: ${appPath}.`,
-          `Скомпилируйте iOS-приложение и скопируйте .app файл в корень проекта.`,
-        ].join("\n")
-      );
-    }
+    const appPath = path.resolve(this.config.getAppName());
 
     console.info("[IosDriver] Формирование capabilities");
     const caps: WebdriverIO.Capabilities = {
       platformName: "iOS",
       "appium:automationName": "XCUITest",
       "appium:app": appPath,
-      "appium:platformVersion": AppConfig.getIosVersion(),
-      "appium:deviceName": AppConfig.getIosDeviceName(),
+      "appium:platformVersion": this.config.getIosVersion(),
+      "appium:deviceName": this.config.getIosDeviceName(),
       "appium:connectHardwareKeyboard": false,
-      "appium:autoAcceptAlerts": AppConfig.getIosAutoAcceptAlerts(),
-      "appium:autoDismissAlerts": AppConfig.getIosAutoDismissAlerts(),
+      "appium:autoAcceptAlerts": this.config.getIosAutoAcceptAlerts(),
+      "appium:autoDismissAlerts": this.config.getIosAutoDismissAlerts(),
       "appium:showIOSLog": false,
       "appium:autoLaunch": this.autoLaunch,
       // XCUITest processArguments формат: { args: string[], env: Record<string,string> }
@@ -92,7 +94,25 @@ export class IosDriver {
       // "appium:settings[customSnapshotTimeout]": 3  // не все серверы понимают, потому настройка опциональна
     };
 
+    const effective = resolveCapabilities(
+      caps,
+      this.config,
+      { platform: Platform.IOS, testName: this.options.testName },
+      this.options.capabilities
+    );
+    // файл проверяем, только если приложение не подменили через caps.*/overrideCapabilities
+    if (effective["appium:app"] === appPath && !fs.existsSync(appPath)) {
+      throw new Error(
+        [
+          `Не найден файл приложения: ${this.config.getAppName()}.`,
+          `Ожидалось наличие файла по пути: ${appPath}.`,
+          `Скомпилируйте iOS-приложение и скопируйте .app файл в корень проекта.`,
+        ].join("\n")
+      );
+    }
+
     console.info("[IosDriver] Capabilities сформированы");
-    return caps;
+    reportCapabilities("IosDriver", effective);
+    return effective as WebdriverIO.Capabilities;
   }
 }
\ No newline at end of file
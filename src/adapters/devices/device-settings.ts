@@ -0,0 +1,187 @@
+import { AppConfig } from "../../config/app-config";
+import { Platform } from "../../core/platform";
+import { DriverRegistry } from "../appium/drivers/driver-registry";
+import { adbShell, currentDeviceId, RestoreJournal, simctl } from "./device-shell";
+
+export type Orientation = "PORTRAIT" | "LANDSCAPE";
+export type Appearance = "dark" | "light";
+
+/**
+ * Размеры шрифта iOS (simctl ui content_size) и примерный font_scale Android для каждого.
+ * Число в setFontScale на iOS округляется до ближайшей категории.
+ */
+const IOS_CONTENT_SIZES: ReadonlyArray<[string, number]> = [
+  ["extra-small", 0.8],
+  ["small", 0.85],
+  ["medium", 0.9],
+  ["large", 1],
+  ["extra-large", 1.1],
+  ["extra-extra-large", 1.2],
+  ["extra-extra-extra-large", 1.3],
+  ["accessibility-medium", 1.5],
+  ["accessibility-large", 1.8],
+  ["accessibility-extra-large", 2.1],
+  ["accessibility-extra-extra-large", 2.4],
+  ["accessibility-extra-extra-extra-large", 2.7],
+];
+
+/** Категория content_size iOS, ближайшая к масштабу шрифта. */
+export function iosContentSize(scale: number): string {
+  if (!(scale > 0)) throw new Error(`setFontScale(): scale=${scale}, ожидалось число > 0`);
+  return IOS_CONTENT_SIZES.reduce((best, cur) => (Math.abs(cur[1] - scale) < Math.abs(best[1] - scale) ? cur : best))[0];
+}
+
+/** "ar-EG", "ar_EG" или "ar" → язык и страна. */
+export function parseLocale(locale: string): { language: string; country?: string } {
+  const m = /^([a-zA-Z]{2,3})(?:[-_]([a-zA-Z]{2}|\d{3}))?$/.exec(locale.trim());
+  if (!m) throw new Error(`setLocale(): '${locale}' — ожидалась локаль вида "ru-RU" или "ar"`);
+  return { language: m[1].toLowerCase(), country: m[2]?.toUpperCase() };
+}
+
+/**
+ * Системные настройки устройства на время теста: ориентация, язык, тёмная тема,
+ * размер шрифта, плотность экрана.
+ * Android — adb shell (settings put, cmd uimode, wm density; локаль — через Appium Settings),
+ * iOS — xcrun simctl ui / defaults симулятора.
+ *
+ * Перед первым изменением каждой настройки запоминается исходное значение;
+ * MobileActions.tearDown вызывает restore() и возвращает устройство как было.
+ *
+ *   await DeviceSettings.setAppearance("dark");
+ *   await DeviceSettings.setFontScale(1.3);
+ */
+class _DeviceSettings {
+  private readonly journal = new RestoreJournal("Device");
+
+  async setOrientation(orientation: Orientation) {
+    const drv = DriverRegistry.get();
+    const current = String(await drv.getOrientation()).toUpperCase() as Orientation;
+    this.journal.remember("orientation", `ориентация ${current}`, () => drv.setOrientation(current));
+    console.info(`[Device] Ориентация: ${orientation}`);
+    await drv.setOrientation(orientation);
+  }
+
+  async setAppearance(appearance: Appearance) {
+    if (this.platform() === Platform.ANDROID) {
+      const night = (out: string) => (/night mode:\s*yes/i.test(out) ? "yes" : "no");
+      const current = night(adbShell(["cmd", "uimode", "night"]));
+      this.journal.remember("appearance", `night mode ${current}`, async () =>
+        adbShell(["cmd", "uimode", "night", current], true)
+      );
+      console.info(`[Device] Тема: ${appearance}`);
+      adbShell(["cmd", "uimode", "night", appearance === "dark" ? "yes" : "no"], true);
+      return;
+    }
+    const current = this.simctlUi(["appearance"]).trim() || "light";
+    this.journal.remember("appearance", `appearance ${current}`, async () => this.simctlUi(["appearance", current], true));
+    console.info(`[Device] Тема: ${appearance}`);
+    this.simctlUi(["appearance", appearance], true);
+  }
+
+  /** Масштаб шрифта: 1 — системный по умолчанию, 1.3 — крупный. На iOS — ближайшая категория content_size. */
+  async setFontScale(scale: number) {
+    if (this.platform() === Platform.ANDROID) {
+      if (!(scale > 0)) throw new Error(`setFontScale(): scale=${scale}, ожидалось число > 0`);
+      const raw = adbShell(["settings", "get", "system", "font_scale"]).trim();
+      const current = raw && raw !== "null" ? raw : "1.0";
+      this.journal.remember("fontScale", `font_scale ${current}`, async () =>
+        adbShell(["settings", "put", "system", "font_scale", current], true)
+      );
+      console.info(`[Device] Масштаб шрифта: ${scale}`);
+      adbShell(["settings", "put", "system", "font_scale", String(scale)], true);
+      return;
+    }
+    const size = iosContentSize(scale);
+    const current = this.simctlUi(["content_size"]).trim() || "large";
+    this.journal.remember("fontScale", `content_size ${current}`, async () => this.simctlUi(["content_size", current], true));
+    console.info(`[Device] Размер шрифта: ${size} (scale ${scale})`);
+    this.simctlUi(["content_size", size], true);
+  }
+
+  /** Плотность экрана, dpi (только Android); null — вернуть физическую. */
+  async setDensity(dpi: number | null) {
+    if (this.platform() !== Platform.ANDROID) throw new Error("setDensity(): плотность экрана меняется только на Android");
+    if (dpi !== null && !(Number.isInteger(dpi) && dpi > 0)) throw new Error(`setDensity(): dpi=${dpi}, ожидалось целое число > 0`);
+    const override = /Override density:\s*(\d+)/.exec(adbShell(["wm", "density"]))?.[1];
+    this.journal.remember("density", `density ${override ?? "по умолчанию"}`, async () =>
+      adbShell(["wm", "density", override ?? "reset"], true)
+    );
+    console.info(`[Device] Плотность экрана: ${dpi ?? "по умолчанию"}`);
+    adbShell(["wm", "density", dpi === null ? "reset" : String(dpi)], true);
+  }
+
+  /**
+   * Язык и регион системы ("ar-EG" — проверка RTL).
+   * Android — сразу, через Appium Settings (ставится вместе с UiAutomator2);
+   * iOS — настройки симулятора, действуют после перезапуска приложения: mobileTest.relaunchApp().
+   */
+  async setLocale(locale: string) {
+    const { language, country } = parseLocale(locale);
+    if (this.platform() === Platform.ANDROID) {
+      const current =
+        adbShell(["getprop", "persist.sys.locale"]).trim() || adbShell(["getprop", "ro.product.locale"]).trim();
+      // "en-US" или "sr-Latn-RS": язык — первая часть, страна — последняя
+      const [prevLanguage, ...rest] = current.split(/[-_]/);
+      const prevCountry = rest.length ? rest[rest.length - 1] : undefined;
+      if (prevLanguage) {
+        this.journal.remember("locale", `locale ${current}`, async () => this.androidLocale(prevLanguage, prevCountry));
+      }
+      console.info(`[Device] Локаль: ${locale}`);
+      this.androidLocale(language, country);
+      return;
+    }
+
+    const languages = this.simctlDefaults(["read", "Apple Global Domain", "AppleLanguages"]);
+    const appleLocale = this.simctlDefaults(["read", "Apple Global Domain", "AppleLocale"]).trim();
+    const previous = /"?([\w-]+)"?/.exec(languages.replace(/^\s*\(/, ""))?.[1];
+    this.journal.remember("locale", `locale ${appleLocale || "по умолчанию"}`, async () => {
+      if (previous && appleLocale) return this.iosLocale(previous, appleLocale);
+      // до теста язык не задавался явно — убираем свои ключи
+      this.simctlDefaults(["delete", "Apple Global Domain", "AppleLanguages"], true);
+      this.simctlDefaults(["delete", "Apple Global Domain", "AppleLocale"], true);
+    });
+    console.info(`[Device] Локаль: ${locale} (применится после перезапуска приложения)`);
+    this.iosLocale(country ? `${language}-${country}` : language, country ? `${language}_${country}` : language);
+  }
+
+  /** Изменённые настройки, которые вернёт restore(). */
+  get changed(): string[] {
+    return this.journal.keys;
+  }
+
+  /** Вернуть исходные значения в обратном порядке. Ошибки не прерывают восстановление остальных настроек. */
+  async restore() {
+    await this.journal.restore();
+  }
+
+  private platform(): Platform {
+    return AppConfig.getPlatform();
+  }
+
+  private simctlUi(args: string[]): string;
+  private simctlUi(args: string[], check: true): void;
+  private simctlUi(args: string[], check?: true): string | void {
+    return check ? simctl(["ui", currentDeviceId(), ...args], check) : simctl(["ui", currentDeviceId(), ...args]);
+  }
+
+  private simctlDefaults(args: string[]): string;
+  private simctlDefaults(args: string[], check: true): void;
+  private simctlDefaults(args: string[], check?: true): string | void {
+    const command = ["spawn", currentDeviceId(), "defaults", ...args];
+    return check ? simctl(command, check) : simctl(command);
+  }
+
+  private androidLocale(language: string, country?: string) {
+    const args = ["am", "broadcast", "-a", "io.appium.settings.locale", "-n", "io.appium.settings/.receivers.LocaleSettingReceiver"];
+    args.push("--es", "lang", language);
+    if (country) args.push("--es", "country", country);
+    adbShell(args, true);
+  }
+
+  private iosLocale(language: string, appleLocale: string) {
+    this.simctlDefaults(["write", "Apple Global Domain", "AppleLanguages", "-array", language], true);
+    this.simctlDefaults(["write", "Apple Global Domain", "AppleLocale", "-string", appleLocale], true);
+  }
+}
+
+export const DeviceSettings = new _DeviceSettings();
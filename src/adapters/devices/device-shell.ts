@@ -0,0 +1,71 @@
+import { AppConfig } from "../../config/app-config";
+import { Platform } from "../../core/platform";
+import { DriverRegistry } from "../appium/drivers/driver-registry";
+import { Terminal } from "../system/terminal";
+
+/** UDID/serial устройства текущей сессии; если драйвер его не сообщил — поиск по имени. */
+export function currentDeviceId(): string {
+  const caps = (DriverRegistry.peek()?.capabilities ?? {}) as Record<string, unknown>;
+  const fromSession = caps["appium:udid"] ?? caps.udid ?? caps["appium:deviceUDID"] ?? caps.deviceUDID;
+  if (typeof fromSession === "string" && fromSession) return fromSession;
+
+  const found =
+    AppConfig.getPlatform() === Platform.ANDROID
+      ? Terminal.getEmulatorId()
+      : Terminal.getSimulatorId(AppConfig.getIosDeviceName());
+  if (!found) throw new Error("[Device] Не удалось определить устройство: нет udid в сессии и устройство не найдено");
+  return found;
+}
+
+function run(command: string[], check?: true): string | void {
+  if (!check) return Terminal.runCommand(command);
+  if (!Terminal.runCommand(command, "[Device] Команда завершилась с ошибкой")) {
+    throw new Error(`[Device] Не удалось выполнить: ${command.join(" ")}`);
+  }
+}
+
+/** adb shell на устройстве сессии: без check — вывод команды, с check — исключение при ошибке. */
+export function adbShell(args: string[]): string;
+export function adbShell(args: string[], check: true): void;
+export function adbShell(args: string[], check?: true): string | void {
+  return run(["adb", "-s", currentDeviceId(), "shell", ...args], check);
+}
+
+/** xcrun simctl; UDID симулятора — currentDeviceId(), его место в аргументах зависит от подкоманды. */
+export function simctl(args: string[]): string;
+export function simctl(args: string[], check: true): void;
+export function simctl(args: string[], check?: true): string | void {
+  return run(["xcrun", "simctl", ...args], check);
+}
+
+/**
+ * Журнал изменений устройства за тест: исходное значение запоминается при первом изменении
+ * настройки, restore() откатывает всё в обратном порядке.
+ */
+export class RestoreJournal {
+  private changes = new Map<string, { what: string; restore: () => Promise<unknown> }>();
+
+  constructor(private readonly tag: string) {}
+
+  remember(key: string, what: string, restore: () => Promise<unknown>) {
+    if (!this.changes.has(key)) this.changes.set(key, { what, restore });
+  }
+
+  get keys(): string[] {
+    return [...this.changes.keys()];
+  }
+
+  /** Ошибки не прерывают восстановление остальных настроек. */
+  async restore() {
+    const changes = [...this.changes.values()].reverse();
+    this.changes.clear();
+    for (const change of changes) {
+      try {
+        console.info(`[${this.tag}] Восстановление: ${change.what}`);
+        await change.restore();
+      } catch (e: any) {
+        console.error(`[${this.tag}] Не удалось восстановить ${change.what}: ${e?.message ?? e}`);
+      }
+    }
+  }
+}
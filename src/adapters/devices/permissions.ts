@@ -0,0 +1,136 @@
+import { AppConfig } from "../../config/app-config";
+import { Platform } from "../../core/platform";
+import { adbShell, currentDeviceId, RestoreJournal, simctl } from "./device-shell";
+
+/** Общие имена разрешений; любое другое значение передаётся платформе как есть. */
+export type CommonPermission = "camera" | "microphone" | "location" | "contacts" | "calendar" | "photos" | "notifications";
+
+const ANDROID_PERMISSIONS: Record<CommonPermission, string[]> = {
+  camera: ["CAMERA"],
+  microphone: ["RECORD_AUDIO"],
+  location: ["ACCESS_FINE_LOCATION", "ACCESS_COARSE_LOCATION"],
+  contacts: ["READ_CONTACTS"],
+  calendar: ["READ_CALENDAR"],
+  photos: ["READ_MEDIA_IMAGES"],
+  notifications: ["POST_NOTIFICATIONS"],
+};
+
+/** Сервисы simctl privacy; камеру и уведомления simctl не поддерживает. */
+const IOS_SERVICES: Record<CommonPermission, string | null> = {
+  camera: null,
+  microphone: "microphone",
+  location: "location",
+  contacts: "contacts",
+  calendar: "calendar",
+  photos: "photos",
+  notifications: null,
+};
+
+/** Режим appops: allow, ignore (тихий отказ), deny (отказ с ошибкой), default, foreground. */
+export type AppOpMode = "allow" | "ignore" | "deny" | "default" | "foreground";
+
+/** "camera" → android.permission.CAMERA; "CAMERA" → android.permission.CAMERA; полное имя — как есть. */
+export function androidPermissions(permission: string): string[] {
+  const names = ANDROID_PERMISSIONS[permission as CommonPermission] ?? [permission];
+  return names.map((name) => (name.includes(".") ? name : `android.permission.${name}`));
+}
+
+/** Сервис simctl privacy для разрешения ("all" — все сразу). */
+export function iosPrivacyService(permission: string): string {
+  if (!Object.prototype.hasOwnProperty.call(IOS_SERVICES, permission)) return permission;
+  const service = IOS_SERVICES[permission as CommonPermission];
+  if (!service) throw new Error(`Разрешение '${permission}' нельзя изменить через simctl privacy на iOS`);
+  return service;
+}
+
+/** Выдано ли разрешение по выводу dumpsys package: "android.permission.CAMERA: granted=true, flags=[…]". */
+export function isGrantedInDumpsys(dumpsys: string, permission: string): boolean {
+  const escaped = permission.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`${escaped}: granted=true`).test(dumpsys);
+}
+
+/**
+ * Разрешения приложения на время теста.
+ * Android — pm grant/revoke и appops, iOS — xcrun simctl privacy (только симулятор).
+ * Изменения откатываются в MobileActions.tearDown: на Android возвращается исходное состояние,
+ * на iOS исходное прочитать нельзя — разрешение сбрасывается (приложение спросит снова).
+ *
+ * Сессия без заранее выданных разрешений — android.auto_grant_permissions=false
+ * в конфигурации или для отдельных тестов:
+ *
+ *   overrideCapabilities(({ testName }) =>
+ *     testName?.includes("без разрешений") ? { "appium:autoGrantPermissions": false } : undefined
+ *   );
+ *
+ * Отзыв разрешения на Android завершает процесс приложения — после revoke запустите его снова.
+ */
+class _Permissions {
+  private readonly journal = new RestoreJournal("Permissions");
+
+  async grant(permission: CommonPermission | string) {
+    await this.change(permission, "grant");
+  }
+
+  async revoke(permission: CommonPermission | string) {
+    await this.change(permission, "revoke");
+  }
+
+  /** Вернуть разрешение в состояние «ещё не спрашивали»: на Android снимаются и флаги «больше не спрашивать». */
+  async reset(permission: CommonPermission | string) {
+    await this.change(permission, "reset");
+  }
+
+  /** Android: режим операции appops (SYSTEM_ALERT_WINDOW, MANAGE_EXTERNAL_STORAGE, …). */
+  async setAppOp(op: string, mode: AppOpMode) {
+    if (AppConfig.getPlatform() !== Platform.ANDROID) throw new Error("setAppOp(): appops есть только на Android");
+    const pkg = AppConfig.getAppPackage();
+    // "CAMERA: allow; time=+1m2s" или "No operations." — режим по умолчанию
+    const output = adbShell(["appops", "get", pkg, op]);
+    if (!output.trim()) throw new Error(`[Permissions] Не удалось прочитать appops ${op} для ${pkg}`);
+    const current = /:\s*(allow|ignore|deny|default|foreground)\b/.exec(output)?.[1] ?? "default";
+    this.journal.remember(`appop:${op}`, `appops ${op} ${current}`, async () => adbShell(["appops", "set", pkg, op, current], true));
+    console.info(`[Permissions] appops ${op}: ${mode}`);
+    adbShell(["appops", "set", pkg, op, mode], true);
+  }
+
+  /** Изменённые разрешения, которые вернёт restore(). */
+  get changed(): string[] {
+    return this.journal.keys;
+  }
+
+  async restore() {
+    await this.journal.restore();
+  }
+
+  private async change(permission: string, action: "grant" | "revoke" | "reset") {
+    if (AppConfig.getPlatform() === Platform.ANDROID) {
+      const pkg = AppConfig.getAppPackage();
+      const names = androidPermissions(permission);
+      const dumpsys = adbShell(["dumpsys", "package", pkg]);
+      // пустой вывод — сбой adb: «не выдано» откатило бы в tearDown и выданные разрешения
+      if (!dumpsys.includes(`Package [${pkg}]`)) {
+        throw new Error(`[Permissions] Не удалось прочитать разрешения ${pkg}: в dumpsys package нет этого пакета`);
+      }
+      for (const name of names) {
+        const granted = isGrantedInDumpsys(dumpsys, name);
+        this.journal.remember(name, `${name} ${granted ? "выдано" : "не выдано"}`, async () =>
+          adbShell(["pm", granted ? "grant" : "revoke", pkg, name], true)
+        );
+        console.info(`[Permissions] ${action} ${name}`);
+        adbShell(["pm", action === "grant" ? "grant" : "revoke", pkg, name], true);
+        if (action === "reset") adbShell(["pm", "clear-permission-flags", pkg, name, "user-set", "user-fixed"], true);
+      }
+      return;
+    }
+
+    const bundleId = AppConfig.getBundleId();
+    const service = iosPrivacyService(permission);
+    this.journal.remember(service, `${service} (сброс)`, async () =>
+      simctl(["privacy", currentDeviceId(), "reset", service, bundleId], true)
+    );
+    console.info(`[Permissions] ${action} ${service}`);
+    simctl(["privacy", currentDeviceId(), action, service, bundleId], true);
+  }
+}
+
+export const Permissions = new _Permissions();
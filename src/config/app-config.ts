@@ -1,305 +1,307 @@
-import { Platform } from "../core/platform";
-import * as fs from "node:fs";
+import { AsyncLocalStorage } from "node:async_hooks";
 import * as path from "node:path";
+import { Platform } from "../core/platform";
+import { detectFormat, unflattenConfig } from "./config-formats";
+import {
+  type ConfigFile,
+  type ConfigLayer,
+  type ConfigOrigin,
+  formatOrigin,
+  type LoadConfigOptions,
+  loadLayeredConfig,
+  lookupEnv,
+  type Props,
+  readConfigFile,
+} from "./config-loader";
+import {
+  CAPABILITY_KEY_PREFIXES,
+  CONFIG_SCHEMA,
+  type ConfigKey,
+  ConfigValidationError,
+  type ConfigValues,
+  parseCapabilityValue,
+  platformKey,
+  type PlatformSpecificKey,
+  platformVariants,
+  validateConfig,
+} from "./config-schema";
+import { interpolateProperties } from "./properties-parser";
+
+/** Значения, задаваемые из кода: приводятся к строке и проходят ту же валидацию, что и файлы. */
+export type ConfigOverrides = Record<string, string | number | boolean>;
+
+/** Исходные данные для построения конфигурации. */
+export interface ConfigSource {
+  properties: Props;
+  provenance?: Record<string, ConfigOrigin>;
+  files?: ConfigFile[];
+  /** Окружение для слоя env. По умолчанию — process.env. */
+  env?: NodeJS.ProcessEnv;
+  /** false — не повторять предупреждения о неизвестных ключах (для производных конфигураций). */
+  reportWarnings?: boolean;
+}
 
-type Props = Record<string, string>;
+const LAYER_ORDER: ConfigLayer[] = ["default", "base", "profile", "runner", "local", "env", "override"];
 
-/**
- * Простой .properties парсер:
- * - поддержка комментариев (# или ;) и пустых строк
- * - пары key=value / key: value / key value
- * - значения и ключи триммируются
- */
-function parseProperties(text: string): Props {
-  const out: Props = {};
-  const lines = text.split(/\r?\n/);
-  for (const raw of lines) {
-    const line = raw.trim();
-    if (!line || line.startsWith("#") || line.startsWith(";")) continue;
-
-    // разделители: =, :, пробел(ы)
-    const m = line.match(/^([^=:\s]+)\s*(?:=|:|\s)\s*(.*)$/);
-    if (m) {
-      const key = m[1].trim();
-      const val = m[2].trim();
-      out[key] = val;
-    }
-  }
-  return out;
+function toProps(overrides: ConfigOverrides): Props {
+  return Object.fromEntries(Object.entries(overrides).map(([k, v]) => [k, String(v)]));
 }
 
 /**
- * Поиск tests.properties в ожидаемых местах.
- * Приоритет:
- * 1) process.env.CONFIG_PATH (если задан)
- * 2) ./tests/config/tests.properties
+ * Конфигурация тестов: значения из файлов/env/кода, провалидированные по схеме.
+ * Экземпляры неизменяемы — переопределение создаёт новый экземпляр через {@link AppConfiguration.with}.
  */
-function resolveConfigPath(): string {
-  const cwd = process.cwd();
-
-  // Переменные окружения
-  const envPath = process.env.CONFIG_PATH?.trim();
-  const profile =
-    process.env.TEST_PROFILE?.trim() || (process.env.CI ? "ci" : "");
-  const runner = process.env.TEST_RUNNER?.trim(); // appium|playwright и т.п.
-
-  // Хелпер проверки
-  const isFile = (p: string | undefined) => {
-    if (!p) return false;
-    try {
-      return fs.existsSync(p) && fs.statSync(p).isFile();
-    } catch {
-      return false;
+export class AppConfiguration {
+  private readonly files: ConfigFile[];
+
+  private readonly env: NodeJS.ProcessEnv;
+
+  /** Значение каждого ключа до интерполяции ${...}, после неё и его происхождение. */
+  private readonly raw: Props = {};
+  private readonly resolved: Props;
+  private readonly provenance: Record<string, ConfigOrigin>;
+  /** Вспомогательные ключи вне схемы, на которые ссылаются через ${...}. */
+  private readonly helperKeys: Set<string>;
+
+  // Провалидированные по схеме значения — кешируем как в Kotlin object
+  private readonly values: ConfigValues;
+  private readonly platformValues: Record<Platform, Partial<ConfigValues>>;
+
+  constructor(source: ConfigSource) {
+    this.provenance = { ...source.provenance };
+    this.files = [...(source.files ?? [])];
+    this.env = source.env ?? process.env;
+
+    // env перекрывает файлы (но не значения из кода), иначе — значение из схемы (слой default).
+    // Поддерживаются и ключи в файле (appium.autostart=...), и ENV (APPIUM_AUTOSTART=0/1)
+    Object.assign(this.raw, source.properties);
+    for (const [variant] of platformVariants()) {
+      const fromEnv = this.provenance[variant]?.layer === "override" ? undefined : lookupEnv(variant, this.env);
+      if (fromEnv) {
+        this.provenance[variant] = { layer: "env", source: fromEnv.name };
+        this.raw[variant] = fromEnv.value;
+      }
+    }
+    for (const [key, spec] of Object.entries(CONFIG_SCHEMA)) {
+      const fromEnv = this.provenance[key]?.layer === "override" ? undefined : lookupEnv(key, this.env);
+      if (fromEnv) {
+        this.provenance[key] = { layer: "env", source: fromEnv.name };
+        this.raw[key] = fromEnv.value;
+      } else if (this.raw[key] === undefined) {
+        this.provenance[key] = { layer: "default", source: "default" };
+        this.raw[key] = spec.default;
+      }
     }
-  };
-
-  // Кандидаты в порядке убывания специфичности
-  const candidates = [
-    // 1) Абсолютный приоритет: явный путь из ENV
-    envPath,
-
-    // 2) tests/config — «островок» конфигов для тестов
-    path.resolve(cwd, "tests", "config", "tests.local.properties"),
-    profile && path.resolve(cwd, "tests", "config", `tests.${profile}.properties`),
-    runner && path.resolve(cwd, "tests", "config", `runner.${runner}.properties`),
-    path.resolve(cwd, "tests", "config", "tests.properties"),
-
-    // 3) tests/ (если кто-то хранит без подкаталога config)
-    path.resolve(cwd, "tests", "tests.local.properties"),
-    profile && path.resolve(cwd, "tests", `tests.${profile}.properties`),
-    path.resolve(cwd, "tests", "tests.properties"),
-
-    // 4) Корень репо — легаси-варианты
-    path.resolve(cwd, "tests.local.properties"),
-    profile && path.resolve(cwd, `tests.${profile}.properties`),
-    path.resolve(cwd, "tests.properties"),
-    path.resolve(cwd, "config.properties"), // совсем легаси
-
-    // 5) Kotlin/Java-совместимость
-    path.resolve(cwd, "test", "resources", "tests.properties"),
-    path.resolve(cwd, "src", "test", "resources", "tests.properties"),
-  ].filter(Boolean) as string[];
-
-  for (const p of candidates) {
-    if (isFile(p)) return p;
-  }
-
-  // Полезная ошибка с перечислением, где искали
-  const tried = candidates.map((p) => ` - ${p}`).join("\n");
-  throw new Error(
-    `Не удалось найти файл конфигурации тестов.\nИскал в:\n${tried}\n` +
-    `Подсказки:\n` +
-    ` • Укажи явный путь через переменную CONFIG_PATH\n` +
-    ` • Либо создай tests/config/tests.properties (или tests.<profile>.properties)\n`
-  );
-}
-
-/** Достаём строку из env (включая ВАРИАНТЫ имени) */
-function envProp(name: string): string | undefined {
-  // точное имя
-  if (process.env[name] !== undefined) return process.env[name];
-
-  // canonical UPPER_SNAKE
-  const upperSnake = name.replace(/[.\s-]+/g, "_").toUpperCase();
-  if (process.env[upperSnake] !== undefined) return process.env[upperSnake];
-
-  // lower snake
-  const lowerSnake = name.replace(/[.\s-]+/g, "_").toLowerCase();
-  if (process.env[lowerSnake] !== undefined) return process.env[lowerSnake];
-
-  return undefined;
-}
-
-/** Универсальный парсер boolean: true/1/yes/on → true; false/0/no/off → false */
-function parseBool(v: unknown, def: boolean): boolean {
-  if (v === undefined || v === null) return def;
-  const s = String(v).trim().toLowerCase();
-  if (["true", "1", "yes", "y", "on"].includes(s)) return true;
-  if (["false", "0", "no", "n", "off"].includes(s)) return false;
-  return def;
-}
-
-class _AppConfig {
-  private readonly properties: Props;
-  private readonly appiumUrl: URL;
-
-  // Платформа и все остальные значения кешируем как в Kotlin object
-  private readonly platform: Platform;
-
-  private readonly androidVersion: string;
-  private readonly iosVersion: string;
-
-  private readonly androidDeviceName: string;
-  private readonly iosDeviceName: string;
-
-  private readonly androidAppName: string;
-  private readonly iosAppName: string;
-
-  private readonly appActivity: string;
-  private readonly appPackage: string;
-  private readonly bundleId: string;
-
-  private readonly iosAutoAcceptAlerts: boolean;
-  private readonly iosAutoDismissAlerts: boolean;
-
-  private readonly androidHeadlessMode: boolean;
 
-  private readonly androidVideoRecordingEnabled: boolean;
-  private readonly iosVideoRecordingEnabled: boolean;
-  private readonly videoRecordingSize: string;
-  private readonly videoRecordingQuality: number;
-  private readonly videoRecordingBitrate: number;
-  private readonly videoRecordingOutputDir: string;
+    // ссылки ${...} раскрываем после слияния всех слоёв — local может ссылаться на ключи base
+    const interpolated = interpolateProperties(this.raw, this.env);
+    this.resolved = interpolated.values;
+    this.helperKeys = interpolated.referenced;
+
+    const validated = validateConfig(
+      this.resolved,
+      (key) => {
+        const origin = this.provenance[key];
+        return origin ? formatOrigin(origin) : "";
+      },
+      (key) => this.isHelperKey(key)
+    );
+    if (source.reportWarnings !== false) {
+      for (const w of validated.warnings) console.warn(`[AppConfig] ${w}`);
+    }
+    const errors = [...interpolated.errors, ...validated.errors];
+    if (errors.length) {
+      const err = new ConfigValidationError(errors);
+      console.error(`[AppConfig] ${err.message}`);
+      throw err;
+    }
+    this.values = validated.values;
+    this.platformValues = validated.platformValues;
+  }
 
-  private readonly emulatorAutoStart: boolean;
-  private readonly emulatorAutoShutdown: boolean;
+  /** Ключ вне схемы, о котором не нужно предупреждать: на него ссылаются через ${...}. */
+  private isHelperKey(key: string): boolean {
+    return this.helperKeys.has(key);
+  }
 
-  // ---- Новые опции управления Appium-сервером ----
-  private readonly appiumAutoStart: boolean;
-  private readonly appiumAutoShutdown: boolean;
-  private readonly appiumStartTimeoutMs: number;
-  private readonly appiumKillGraceMs: number;
+  // -------- Фабрики --------
 
-  constructor() {
-    // грузим properties из файла (как Kotlin — если не вышло, бросаем ошибку)
-    const cfgPath = resolveConfigPath();
+  /** Загрузка из слоёв файлов base → profile → runner → local и env (поведение по умолчанию). */
+  static load(opts: LoadConfigOptions = {}): AppConfiguration {
+    // как Kotlin — если не вышло, бросаем ошибку
+    let loaded: ReturnType<typeof loadLayeredConfig>;
     try {
-      const text = fs.readFileSync(cfgPath, "utf8");
-      this.properties = parseProperties(text);
-      console.info(`[AppConfig] Конфигурация загружена из ${cfgPath}`);
+      loaded = loadLayeredConfig(opts);
+      console.info(
+        `[AppConfig] Конфигурация загружена из слоёв: ${loaded.files.map((f) => `${f.layer}=${f.path}`).join(", ")}`
+      );
     } catch (e: any) {
       console.error(`[AppConfig] Ошибка загрузки test.properties: ${e?.message}`);
       throw e;
     }
 
-    // helpers
-    const prop = (name: string, def: string): string =>
-      envProp(name) ?? this.properties[name] ?? def;
-
-    const propBoolean = (name: string, def: boolean): boolean =>
-      parseBool(envProp(name) ?? this.properties[name], def);
-
-    const propInt = (name: string, def: number): number => {
-      const raw = envProp(name) ?? this.properties[name];
-      if (raw === undefined) return def;
-      const num = parseInt(String(raw), 10);
-      return Number.isFinite(num) ? num : def;
-    };
-
-    // URL Appium
-    this.appiumUrl = new URL(prop("appium.url", "http://localhost:4723/"));
-
-    // Платформа
-    const pf = (prop("platform", "ANDROID") || "ANDROID").toUpperCase();
-    this.platform = (Platform as any)[pf] ?? Platform.ANDROID;
+    const cfg = new AppConfiguration({ ...loaded, env: opts.env });
+    console.info(`[AppConfig] Источники ключевых параметров:\n${cfg.describeProvenance(["platform", "appium.url"])}`);
+    return cfg;
+  }
 
-    // Версии ОС
-    this.androidVersion = prop("android.version", "16");
-    this.iosVersion = prop("ios.version", "18.4");
+  /** Только указанный файл (без поиска profile/local), поверх — env. */
+  static fromFile(filePath: string, opts: { env?: NodeJS.ProcessEnv } = {}): AppConfiguration {
+    const resolvedPath = path.resolve(filePath);
+    const properties = readConfigFile(resolvedPath);
+    const format = detectFormat(resolvedPath);
+    const provenance = Object.fromEntries(
+      Object.keys(properties).map((k): [string, ConfigOrigin] => [k, { layer: "base", source: resolvedPath, format }])
+    );
+    return new AppConfiguration({
+      properties,
+      provenance,
+      files: [{ layer: "base", path: resolvedPath }],
+      env: opts.env,
+    });
+  }
 
-    // Имена устройств
-    this.androidDeviceName = prop("android.device.name", "WBA16");
-    this.iosDeviceName = prop("ios.device.name", "iPhone 16 Plus");
+  /**
+   * Из объекта — без файлов. Переменные окружения по умолчанию НЕ учитываются,
+   * чтобы юнит-тесты не зависели от машины; передайте `env: process.env`, если нужно.
+   */
+  static fromObject(values: ConfigOverrides = {}, opts: { env?: NodeJS.ProcessEnv } = {}): AppConfiguration {
+    const properties = toProps(values);
+    const provenance = Object.fromEntries(
+      Object.keys(properties).map((k): [string, ConfigOrigin] => [k, { layer: "override", source: "fromObject" }])
+    );
+    return new AppConfiguration({ properties, provenance, env: opts.env ?? {} });
+  }
 
-    // Пути к приложениям
-    this.androidAppName = prop("android.app.name", "android.apk");
-    this.iosAppName = prop("ios.app.name", "ios.app");
+  /** Новая конфигурация: текущие значения + overrides (слой override). */
+  with(overrides: ConfigOverrides, source = "withConfig"): AppConfiguration {
+    const properties: Props = {};
+    const provenance: Record<string, ConfigOrigin> = {};
+    for (const [key, origin] of Object.entries(this.provenance)) {
+      if (origin.layer === "default") continue;
+      properties[key] = this.raw[key];
+      provenance[key] = origin;
+    }
+    const extra = toProps(overrides);
+    for (const [key, value] of Object.entries(extra)) {
+      properties[key] = value;
+      provenance[key] = { layer: "override", source };
+    }
+    // ссылки ${...} в унаследованных значениях раскроются заново — с учётом overrides
+    const derived = new AppConfiguration({
+      properties,
+      provenance,
+      files: this.files,
+      env: this.env,
+      reportWarnings: false,
+    });
+
+    // о неизвестных ключах базовой конфигурации уже предупреждали — сообщаем только о новых
+    for (const w of validateConfig(extra, undefined, (key) => derived.isHelperKey(key)).warnings) {
+      console.warn(`[AppConfig] ${w} (${source})`);
+    }
+    return derived;
+  }
 
-    // Android пакет/активити и iOS bundleId
-    this.appActivity = prop("app.activity", "MainActivity");
-    this.appPackage = prop("app.package", "com.dev");
-    this.bundleId = prop("bundle.id", "MOBILEAPP.DEV");
+  /** Провалидированное значение любого ключа схемы. */
+  get<K extends ConfigKey>(key: K): ConfigValues[K] {
+    return this.values[key];
+  }
 
-    // iOS alerts
-    this.iosAutoAcceptAlerts = propBoolean("ios.auto_accept_alerts", false);
-    this.iosAutoDismissAlerts = propBoolean("ios.auto_dismiss_alerts", false);
+  // -------- Происхождение значений --------
 
-    // Android headless
-    this.androidHeadlessMode = propBoolean("android.headless.mode", true);
+  /** Слой и файл/переменная окружения, из которых взято значение ключа. */
+  getOrigin(key: string): ConfigOrigin | undefined {
+    return this.provenance[key];
+  }
 
-    // Видео
-    this.androidVideoRecordingEnabled = propBoolean("android.video.recording.enabled", false);
-    this.iosVideoRecordingEnabled = propBoolean("ios.video.recording.enabled", false);
-    this.videoRecordingSize = prop("video.recording.size", "640x360");
-    this.videoRecordingQuality = parseInt(prop("video.recording.quality", "70"), 10);
-    this.videoRecordingBitrate = parseInt(prop("video.recording.bitrate", "100000"), 10);
-    this.videoRecordingOutputDir = prop("video.recording.output.dir", "build/videos");
+  /** Происхождение всех известных ключей (из файлов, env и схемы). */
+  getProvenance(): Readonly<Record<string, ConfigOrigin>> {
+    return { ...this.provenance };
+  }
 
-    // Эмулятор
-    this.emulatorAutoStart = propBoolean("emulator.auto.start", true);
-    this.emulatorAutoShutdown = propBoolean("emulator.auto.shutdown", true);
+  /** Файлы конфигурации в порядке применения. */
+  getConfigFiles(): ReadonlyArray<ConfigFile> {
+    return [...this.files];
+  }
 
-    // ---- Appium-сервер ----
-    // поддерживаются и ключи в файле (appium.autostart=...) и ENV (APPIUM_AUTOSTART=0/1)
-    this.appiumAutoStart = propBoolean("appium.autostart", true);
-    this.appiumAutoShutdown = propBoolean("appium.autoshutdown", true);
-    this.appiumStartTimeoutMs = propInt("appium.start.timeout", 45_000);
-    this.appiumKillGraceMs = propInt("appium.kill.grace", 8_000);
+  /**
+   * Отчёт для логов CI: `platform = IOS ← local (tests/config/tests.local.properties)`.
+   * Без аргументов — по всем ключам в алфавитном порядке.
+   */
+  describeProvenance(keys: string[] = Object.keys(this.provenance).sort()): string {
+    return keys
+      .map((key) => {
+        const origin = this.provenance[key];
+        if (!origin) return `${key} — не задан`;
+        return `${key} = ${this.resolved[key]} ← ${formatOrigin(origin)}`;
+      })
+      .join("\n");
   }
 
   // -------- API (имена и сигнатуры как в Kotlin) --------
 
   isAndroid(): boolean {
-    return this.platform === Platform.ANDROID;
+    return this.getPlatform() === Platform.ANDROID;
   }
 
   isiOS(): boolean {
-    return this.platform === Platform.IOS;
+    return this.getPlatform() === Platform.IOS;
   }
 
   getPlatform(): Platform {
-    return this.platform;
+    return this.values.platform as Platform;
   }
 
   getAppiumUrl(): URL {
-    return this.appiumUrl;
+    return this.values["appium.url"];
   }
 
   // ---- Новые геттеры по Appium-серверу ----
   isAppiumAutoStartEnabled(): boolean {
-    return this.appiumAutoStart;
+    return this.values["appium.autostart"];
   }
 
   isAppiumAutoShutdownEnabled(): boolean {
-    return this.appiumAutoShutdown;
+    return this.values["appium.autoshutdown"];
   }
 
   /** Таймаут ожидания старта внешнего/авто-запускаемого Appium (мс). */
   getAppiumStartTimeoutMs(): number {
-    return this.appiumStartTimeoutMs;
+    return this.values["appium.start.timeout"];
   }
 
   /** Время «грейс» перед форс-киллом Appium-процесса (мс). */
   getAppiumKillGraceMs(): number {
-    return this.appiumKillGraceMs;
+    return this.values["appium.kill.grace"];
   }
 
   getAndroidVersion(): string {
-    return this.androidVersion;
+    return this.values["android.version"];
   }
 
   getIosVersion(): string {
-    return this.iosVersion;
+    return this.values["ios.version"];
   }
 
   getAndroidDeviceName(): string {
-    return this.androidDeviceName;
+    return this.values["android.device.name"];
   }
 
   getIosDeviceName(): string {
-    return this.iosDeviceName;
+    return this.values["ios.device.name"];
   }
 
   getAppActivity(): string {
-    return this.appActivity;
+    return this.values["app.activity"];
   }
 
   getAppPackage(): string {
-    return this.appPackage;
+    return this.values["app.package"];
   }
 
   getBundleId(): string {
-    return this.bundleId;
+    return this.values["bundle.id"];
   }
 
   // Удобные алиасы под уже написанный MobileActions
@@ -311,64 +313,174 @@ class _AppConfig {
     return this.getBundleId();
   }
 
+  /**
+   * Значение с учётом платформенного варианта (ios.timeout.expectation для IOS).
+   * Вариант побеждает, только если задан в том же или более приоритетном слое, что и общий ключ:
+   * withConfig({ "timeout.expectation": 30 }) перекрывает ios.timeout.expectation из файла.
+   */
+  getForPlatform<K extends PlatformSpecificKey>(key: K, platform: Platform = this.getPlatform()): ConfigValues[K] {
+    const specific = this.platformValues[platform][key];
+    if (specific === undefined) return this.values[key];
+    const variantLayer = this.provenance[platformKey(key, platform)]?.layer ?? "default";
+    const baseLayer = this.provenance[key]?.layer ?? "default";
+    return LAYER_ORDER.indexOf(variantLayer) >= LAYER_ORDER.indexOf(baseLayer) ? (specific as ConfigValues[K]) : this.values[key];
+  }
+
+  /**
+   * Capabilities из ключей caps.android.* / caps.ios.* для платформы (по умолчанию — текущей),
+   * уже с типами и вложенностью: { "appium:noReset": true, "appium:processArguments": { args: [...] } }.
+   */
+  getCapabilityOverrides(platform: Platform = this.getPlatform()): Record<string, unknown> {
+    const prefix = CAPABILITY_KEY_PREFIXES[platform];
+    const flat: Record<string, unknown> = {};
+    for (const [key, raw] of Object.entries(this.resolved)) {
+      if (!key.startsWith(prefix) || key.length === prefix.length) continue;
+      const parsed = parseCapabilityValue(raw);
+      // некорректные значения отсекаются валидацией в конструкторе
+      if ("value" in parsed) flat[key.slice(prefix.length)] = parsed.value;
+    }
+    return unflattenConfig(flat);
+  }
+
   getIosAutoAcceptAlerts(): boolean {
-    return this.iosAutoAcceptAlerts;
+    return this.values["ios.auto_accept_alerts"];
   }
 
   getIosAutoDismissAlerts(): boolean {
-    return this.iosAutoDismissAlerts;
+    return this.values["ios.auto_dismiss_alerts"];
+  }
+
+  getAndroidAutoGrantPermissions(): boolean {
+    return this.values["android.auto_grant_permissions"];
   }
 
   getAppName(): string {
-    switch (this.platform) {
+    switch (this.getPlatform()) {
       case Platform.ANDROID:
-        return this.androidAppName;
+        return this.values["android.app.name"];
       case Platform.IOS:
-        return this.iosAppName;
+        return this.values["ios.app.name"];
       default:
         return "";
     }
   }
 
   isAndroidHeadlessMode(): boolean {
-    return this.androidHeadlessMode;
+    return this.values["android.headless.mode"];
   }
 
   isVideoRecordingEnabled(): boolean {
-    switch (this.platform) {
+    switch (this.getPlatform()) {
       case Platform.ANDROID:
-        return this.androidVideoRecordingEnabled;
+        return this.values["android.video.recording.enabled"];
       case Platform.IOS:
-        return this.iosVideoRecordingEnabled;
+        return this.values["ios.video.recording.enabled"];
       default:
         return false;
     }
   }
 
   getVideoRecordingSize(): string {
-    return this.videoRecordingSize;
+    return this.values["video.recording.size"];
   }
 
   getVideoRecordingQuality(): number {
-    return this.videoRecordingQuality;
+    return this.values["video.recording.quality"];
   }
 
   getVideoRecordingOutputDir(): string {
-    return this.videoRecordingOutputDir;
+    return this.values["video.recording.output.dir"];
   }
 
   getVideoRecordingBitrate(): number {
-    return this.videoRecordingBitrate;
+    return this.values["video.recording.bitrate"];
   }
 
   isEmulatorAutoStartEnabled(): boolean {
-    return this.emulatorAutoStart;
+    return this.values["emulator.auto.start"];
   }
 
   isEmulatorAutoShutdownEnabled(): boolean {
-    return this.emulatorAutoShutdown;
+    return this.values["emulator.auto.shutdown"];
+  }
+
+  isHealingEnabled(): boolean {
+    return this.values["healing.enabled"];
+  }
+
+  getHealingStorePath(): string {
+    return this.values["healing.store"];
+  }
+
+  getHealingReportPath(): string {
+    return this.values["healing.report"];
+  }
+
+  getHealingThreshold(): number {
+    return this.values["healing.threshold"];
   }
 }
 
-// Синглтон, как Kotlin object
-export const AppConfig = new _AppConfig();
\ No newline at end of file
+// -------------------------------------------------------------
+// Текущая конфигурация и её переопределение
+// -------------------------------------------------------------
+
+const scope = new AsyncLocalStorage<AppConfiguration>();
+const overrideStack: AppConfiguration[] = [];
+let defaultConfig: AppConfiguration | null = null;
+
+/**
+ * Действующая конфигурация:
+ * withConfig(...) → overrideConfig(...) → конфигурация по умолчанию (лениво грузится из файлов).
+ */
+export function currentConfig(): AppConfiguration {
+  return scope.getStore() ?? overrideStack[overrideStack.length - 1] ?? (defaultConfig ??= AppConfiguration.load());
+}
+
+/** Подменить конфигурацию по умолчанию. null — сбросить (следующее обращение перечитает файлы). */
+export function setDefaultConfig(config: AppConfiguration | null): void {
+  defaultConfig = config;
+}
+
+function toConfig(config: AppConfiguration | ConfigOverrides): AppConfiguration {
+  return config instanceof AppConfiguration ? config : currentConfig().with(config);
+}
+
+/**
+ * Выполнить fn с переопределённой конфигурацией. Действует на весь асинхронный поток fn,
+ * включая PageElement, драйверы, VideoRecorder и EmulatorManager.
+ *
+ *   await withConfig({ platform: "IOS" }, async () => { ... });
+ */
+export function withConfig<T>(config: AppConfiguration | ConfigOverrides, fn: () => T): T {
+  return scope.run(toConfig(config), fn);
+}
+
+/**
+ * Переопределение до вызова возвращённой функции — для сьютов, где хуки vitest
+ * выполняются вне асинхронного потока теста:
+ *
+ *   let restore: () => void;
+ *   beforeAll(() => { restore = overrideConfig({ "video.recording.quality": 50 }); });
+ *   afterAll(() => restore());
+ */
+export function overrideConfig(config: AppConfiguration | ConfigOverrides): () => void {
+  const cfg = toConfig(config);
+  overrideStack.push(cfg);
+  return () => {
+    const i = overrideStack.lastIndexOf(cfg);
+    if (i >= 0) overrideStack.splice(i, 1);
+  };
+}
+
+/**
+ * Синглтон-фасад, как Kotlin object: каждый вызов делегируется в {@link currentConfig}.
+ * Файлы читаются при первом обращении, а не при импорте.
+ */
+export const AppConfig: AppConfiguration = new Proxy({} as AppConfiguration, {
+  get(_target, prop) {
+    const cfg = currentConfig();
+    const value = Reflect.get(cfg, prop, cfg);
+    return typeof value === "function" ? value.bind(cfg) : value;
+  },
+});
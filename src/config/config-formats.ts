@@ -0,0 +1,359 @@
+import * as path from "node:path";
+import type { Props } from "./config-loader";
+import { parseProperties } from "./properties-parser";
+
+/** Поддерживаемые форматы файлов конфигурации. */
+export type ConfigFormat = "properties" | "json" | "yaml" | "env";
+
+/** Определение формата по имени файла: .env, .env.local, suite.env → env. */
+export function detectFormat(filePath: string): ConfigFormat {
+  const base = path.basename(filePath).toLowerCase();
+  if (base === ".env" || base.startsWith(".env.") || base.endsWith(".env")) return "env";
+  switch (path.extname(base)) {
+    case ".json":
+      return "json";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    default:
+      return "properties";
+  }
+}
+
+/** Разбирает текст конфигурации любого поддерживаемого формата в плоские dotted-ключи. */
+export function parseConfigText(text: string, format: ConfigFormat): Props {
+  switch (format) {
+    case "json":
+      return flattenConfig(JSON.parse(text));
+    case "yaml":
+      return flattenConfig(parseYaml(text));
+    case "env":
+      return parseDotenv(text);
+    default:
+      return parseProperties(text);
+  }
+}
+
+/**
+ * Вложенные объекты → dotted-ключи существующих геттеров:
+ * { appium: { url: "…" } } → { "appium.url": "…" }, массивы — по индексу: devices.0.name.
+ * null пропускается, остальные скаляры приводятся к строке.
+ */
+export function flattenConfig(value: unknown, prefix = "", out: Props = {}): Props {
+  if (value === null || value === undefined) return out;
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flattenConfig(item, prefix ? `${prefix}.${i}` : String(i), out));
+    return out;
+  }
+  if (typeof value === "object") {
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      flattenConfig(v, prefix ? `${prefix}.${k}` : k, out);
+    }
+    return out;
+  }
+  if (!prefix) throw new Error("ожидался объект верхнего уровня");
+  out[prefix] = String(value);
+  return out;
+}
+
+/**
+ * Обратная операция к {@link flattenConfig}: { "a.b": 1, "a.c.0": 2 } → { a: { b: 1, c: [2] } }.
+ * Объекты с ключами 0..n-1 становятся массивами.
+ */
+export function unflattenConfig(flat: Record<string, unknown>): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flat)) {
+    const parts = key.split(".");
+    let node = root;
+    for (const part of parts.slice(0, -1)) {
+      const next = node[part];
+      node = node[part] = isPlainObject(next) ? next : {};
+    }
+    node[parts[parts.length - 1]] = value;
+  }
+  return toArrays(root) as Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toArrays(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toArrays);
+  if (!isPlainObject(value)) return value;
+  const keys = Object.keys(value);
+  const entries = keys.map((k) => [k, toArrays(value[k])] as const);
+  if (keys.length && keys.every((k, i) => k === String(i))) return entries.map(([, v]) => v);
+  return Object.fromEntries(entries);
+}
+
+// -------------------------------------------------------------
+// .env
+// -------------------------------------------------------------
+
+const DOTENV_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t" };
+
+/**
+ * Формат dotenv: KEY=VALUE, необязательный `export`, комментарии #,
+ * значения в '…' (как есть) и "…" (с \n, \t, \", \\). Ключи не меняются —
+ * соответствие ключам схемы (APPIUM_URL → appium.url) устанавливает загрузчик.
+ */
+export function parseDotenv(text: string): Props {
+  const out: Props = {};
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const m = line.match(/^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/);
+    if (!m) throw new Error(`строка ${i + 1}: ожидалось KEY=VALUE`);
+    const [, key, rest] = m;
+
+    if (rest.startsWith('"')) {
+      const end = findClosingQuote(rest);
+      if (end < 0) throw new Error(`строка ${i + 1}: незакрытая кавычка`);
+      out[key] = rest.slice(1, end).replace(/\\([nrt"\\])/g, (_m, c: string) => DOTENV_ESCAPES[c] ?? c);
+    } else if (rest.startsWith("'")) {
+      const end = rest.indexOf("'", 1);
+      if (end < 0) throw new Error(`строка ${i + 1}: незакрытая кавычка`);
+      out[key] = rest.slice(1, end);
+    } else {
+      // комментарий после значения — только через пробел: URL#anchor не режем
+      out[key] = rest.replace(/\s+#.*$/, "").trim();
+    }
+  });
+  return out;
+}
+
+function findClosingQuote(s: string): number {
+  for (let j = 1; j < s.length; j++) {
+    if (s[j] === "\\") {
+      j++;
+      continue;
+    }
+    if (s[j] === '"') return j;
+  }
+  return -1;
+}
+
+// -------------------------------------------------------------
+// YAML (подмножество)
+// -------------------------------------------------------------
+
+type YamlLine = { indent: number; text: string; no: number };
+
+/**
+ * Минимальный YAML-парсер для конфигов, без внешних зависимостей. Поддерживает:
+ * - вложенные отображения по отступам и списки `- item` / `- key: value`
+ * - скаляры plain, "двойные" и 'одинарные' кавычки, комментарии #
+ * - flow-коллекции из скаляров: [a, b], { a: 1, b: 2 }
+ * - блочные скаляры | и >
+ * Повторяющийся ключ в одном отображении — ошибка (а не тихая перезапись).
+ * Якоря, ссылки, теги и несколько документов не поддерживаются — будет ошибка.
+ * Скаляры остаются строками: типы приводит схема AppConfig.
+ */
+export function parseYaml(text: string): unknown {
+  const rawLines = text.split(/\r?\n/);
+  const lines: YamlLine[] = [];
+  rawLines.forEach((raw, i) => {
+    if (/^\s*#/.test(raw) || !raw.trim()) return;
+    if (/^(---|\.\.\.)\s*$/.test(raw)) {
+      if (lines.length) throw new Error(`строка ${i + 1}: несколько YAML-документов не поддерживаются`);
+      return;
+    }
+    if (/^\s*\t/.test(raw)) throw new Error(`строка ${i + 1}: табуляция в отступах недопустима`);
+    lines.push({ indent: raw.length - raw.trimStart().length, text: raw.trim(), no: i + 1 });
+  });
+  if (!lines.length) return {};
+
+  let pos = 0;
+
+  const parseBlock = (indent: number): unknown => {
+    const first = lines[pos];
+    if (first.text.startsWith("- ") || first.text === "-") return parseList(indent);
+    return parseMap(indent);
+  };
+
+  const parseMap = (indent: number): Record<string, unknown> => {
+    const out: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const line = lines[pos];
+      if (line.text.startsWith("- ")) throw new Error(`строка ${line.no}: элемент списка внутри отображения`);
+      const { key, value } = splitPair(line);
+      if (Object.hasOwn(out, key)) throw new Error(`строка ${line.no}: повторяющийся ключ '${key}'`);
+      pos++;
+      out[key] = parseValue(value, indent, line);
+    }
+    if (pos < lines.length && lines[pos].indent > indent) {
+      throw new Error(`строка ${lines[pos].no}: неожиданный отступ`);
+    }
+    return out;
+  };
+
+  const parseList = (indent: number): unknown[] => {
+    const out: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && (lines[pos].text.startsWith("- ") || lines[pos].text === "-")) {
+      const line = lines[pos];
+      const rest = line.text === "-" ? "" : line.text.slice(2).trim();
+      if (!rest) {
+        pos++;
+        out.push(pos < lines.length && lines[pos].indent > indent ? parseBlock(lines[pos].indent) : null);
+      } else if (isPairStart(rest)) {
+        // "- key: value" — отображение, остальные ключи которого выровнены по первому
+        const itemIndent = indent + (line.text.length - rest.length);
+        lines[pos] = { indent: itemIndent, text: rest, no: line.no };
+        out.push(parseMap(itemIndent));
+      } else {
+        pos++;
+        out.push(parseScalar(rest, line.no));
+      }
+    }
+    return out;
+  };
+
+  const parseValue = (value: string, indent: number, line: YamlLine): unknown => {
+    if (/^[|>][+-]?$/.test(value)) return parseBlockScalar(value[0] === ">", indent, line);
+    if (value) return parseScalar(value, line.no);
+    if (pos < lines.length && lines[pos].indent > indent) return parseBlock(lines[pos].indent);
+    // список может идти на том же отступе, что и ключ
+    if (pos < lines.length && lines[pos].indent === indent && lines[pos].text.startsWith("- ")) return parseList(indent);
+    return null;
+  };
+
+  /**
+   * Блочный скаляр читается из исходных строк: пустые строки и строки с # — часть текста,
+   * отступ считается от первой непустой строки блока, более глубокий сохраняется.
+   */
+  const parseBlockScalar = (folded: boolean, indent: number, header: YamlLine): string => {
+    const block: string[] = [];
+    let base = -1;
+    let i = header.no; // индекс строки сразу после заголовка
+    for (; i < rawLines.length; i++) {
+      const raw = rawLines[i];
+      if (!raw.trim()) {
+        block.push("");
+        continue;
+      }
+      const lineIndent = raw.length - raw.trimStart().length;
+      if (lineIndent <= indent) break;
+      if (base < 0) base = lineIndent;
+      if (lineIndent < base) throw new Error(`строка ${i + 1}: отступ меньше, чем у первой строки блока`);
+      block.push(raw.slice(base).trimEnd());
+    }
+    while (block.length && !block[block.length - 1]) block.pop();
+    while (pos < lines.length && lines[pos].no <= i) pos++;
+
+    if (!folded) return block.join("\n");
+    // > : соседние строки склеиваются пробелом, пустая строка — перевод строки
+    let out = "";
+    for (const part of block) {
+      if (!part) out += "\n";
+      else out += out && !out.endsWith("\n") ? ` ${part}` : part;
+    }
+    return out;
+  };
+
+  const root = parseBlock(lines[0].indent);
+  if (pos < lines.length) throw new Error(`строка ${lines[pos].no}: неожиданный отступ`);
+  return root;
+}
+
+function isPairStart(text: string): boolean {
+  return findPairColon(text) >= 0;
+}
+
+/** Позиция ':' разделителя ключа (за ним пробел или конец строки) вне кавычек. */
+function findPairColon(text: string): number {
+  let quote: string | null = null;
+  for (let j = 0; j < text.length; j++) {
+    const c = text[j];
+    if (quote) {
+      if (c === quote) quote = null;
+      continue;
+    }
+    if ((c === '"' || c === "'") && j === 0) {
+      quote = c;
+      continue;
+    }
+    if (c === "#" && j > 0 && text[j - 1] === " ") return -1;
+    if (c === ":" && (j === text.length - 1 || text[j + 1] === " ")) return j;
+  }
+  return -1;
+}
+
+function splitPair(line: YamlLine): { key: string; value: string } {
+  const idx = findPairColon(line.text);
+  if (idx < 0) throw new Error(`строка ${line.no}: ожидалось 'ключ: значение'`);
+  const key = unquote(line.text.slice(0, idx).trim(), line.no);
+  const value = stripComment(line.text.slice(idx + 1).trim());
+  if (/^[&*!]/.test(value)) throw new Error(`строка ${line.no}: якоря, ссылки и теги YAML не поддерживаются`);
+  return { key, value };
+}
+
+function stripComment(value: string): string {
+  if (value.startsWith('"') || value.startsWith("'")) return value;
+  return value.replace(/\s+#.*$/, "");
+}
+
+function unquote(s: string, no: number): string {
+  if (s.startsWith('"')) {
+    if (!s.endsWith('"') || s.length < 2) throw new Error(`строка ${no}: незакрытая кавычка`);
+    return JSON.parse(s);
+  }
+  if (s.startsWith("'")) {
+    if (!s.endsWith("'") || s.length < 2) throw new Error(`строка ${no}: незакрытая кавычка`);
+    return s.slice(1, -1).replace(/''/g, "'");
+  }
+  return s;
+}
+
+function parseScalar(raw: string, no: number): unknown {
+  const s = stripComment(raw).trim();
+  if (s === "~" || s === "null") return null;
+  if (s.startsWith("[") && s.endsWith("]")) {
+    const body = s.slice(1, -1).trim();
+    return body ? splitFlow(body).map((x) => parseScalar(x, no)) : [];
+  }
+  if (s.startsWith("{") && s.endsWith("}")) {
+    const body = s.slice(1, -1).trim();
+    const out: Record<string, unknown> = {};
+    for (const part of body ? splitFlow(body) : []) {
+      const { key, value } = splitPair({ indent: 0, text: part, no });
+      if (Object.hasOwn(out, key)) throw new Error(`строка ${no}: повторяющийся ключ '${key}'`);
+      out[key] = parseScalar(value, no);
+    }
+    return out;
+  }
+  if (s.startsWith('"') || s.startsWith("'")) {
+    // строка в кавычках и комментарий за ней
+    const m = s.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*(?:#.*)?$/);
+    if (!m) throw new Error(`строка ${no}: незакрытая кавычка`);
+    return unquote(m[1], no);
+  }
+  return s;
+}
+
+/** Разбивает содержимое flow-коллекции по запятым верхнего уровня. */
+function splitFlow(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let cur = "";
+  for (const c of body) {
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "[" || c === "{") {
+      depth++;
+    } else if (c === "]" || c === "}") {
+      depth--;
+    } else if (c === "," && depth === 0) {
+      parts.push(cur.trim());
+      cur = "";
+      continue;
+    }
+    cur += c;
+  }
+  if (cur.trim()) parts.push(cur.trim());
+  return parts;
+}
@@ -0,0 +1,226 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { type ConfigFormat, detectFormat, parseConfigText } from "./config-formats";
+import { CONFIG_SCHEMA, isCapabilityKey, platformVariants } from "./config-schema";
+
+export type Props = Record<string, string>;
+
+/**
+ * Слой конфигурации в порядке применения: каждый следующий слой перекрывает ключи предыдущих.
+ * default — значение по умолчанию из схемы, env — переменные окружения,
+ * override — значения, заданные из кода (fromObject / withConfig).
+ */
+export type ConfigLayer = "default" | "base" | "profile" | "runner" | "local" | "env" | "override";
+
+/** Откуда пришло значение ключа. */
+export interface ConfigOrigin {
+  layer: ConfigLayer;
+  /** Путь к файлу, имя переменной окружения или "default". */
+  source: string;
+  /** Формат файла — только для файловых слоёв. */
+  format?: ConfigFormat;
+}
+
+/** Файл, участвующий в слиянии. */
+export interface ConfigFile {
+  layer: ConfigLayer;
+  path: string;
+}
+
+export interface LoadedConfig {
+  /** Итоговые значения после слияния файловых слоёв. */
+  properties: Props;
+  /** Для каждого ключа — слой и файл, из которого взято значение. */
+  provenance: Record<string, ConfigOrigin>;
+  /** Найденные файлы в порядке применения. */
+  files: ConfigFile[];
+}
+
+export interface LoadConfigOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+const isFile = (p: string | undefined) => {
+  if (!p) return false;
+  try {
+    return fs.existsSync(p) && fs.statSync(p).isFile();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Каталоги поиска в порядке убывания специфичности:
+ * tests/config — «островок» конфигов для тестов, tests/, корень репо (легаси)
+ * и раскладка Kotlin/Java-проекта.
+ */
+function searchDirs(cwd: string): string[] {
+  return [
+    path.resolve(cwd, "tests", "config"),
+    path.resolve(cwd, "tests"),
+    cwd,
+    path.resolve(cwd, "test", "resources"),
+    path.resolve(cwd, "src", "test", "resources"),
+  ];
+}
+
+/** Форматы внутри одного слоя в порядке применения: .env перекрывает остальные. */
+const FORMAT_EXTENSIONS = ["properties", "json", "yaml", "yml"];
+
+/**
+ * Кандидаты для каждого файлового слоя, сгруппированные по формату.
+ * Внутри группы берётся первый найденный файл, группы одного слоя сливаются
+ * в порядке properties → json → yaml/yml → .env.
+ * - base:    CONFIG_PATH (любой формат) либо tests.<ext> / config.properties, .env
+ * - profile: tests.<profile>.<ext>, .env.<profile>; profile = TEST_PROFILE или "ci" при CI
+ * - runner:  runner.<runner>.<ext>, .env.runner.<runner>; runner = TEST_RUNNER
+ * - local:   tests.local.<ext>, .env.local
+ */
+function layerCandidates(cwd: string, env: NodeJS.ProcessEnv): Array<{ layer: ConfigLayer; groups: string[][] }> {
+  const dirs = searchDirs(cwd);
+  const inDirs = (name: string) => dirs.map((d) => path.join(d, name));
+  const allFormats = (stem: string, dotenv: string) => [
+    ...FORMAT_EXTENSIONS.map((ext) => inDirs(`${stem}.${ext}`)),
+    inDirs(dotenv),
+  ];
+
+  const envPath = env.CONFIG_PATH?.trim();
+  const profile = env.TEST_PROFILE?.trim() || (env.CI ? "ci" : "");
+  const runner = env.TEST_RUNNER?.trim(); // appium|playwright и т.п.
+
+  const base = allFormats("tests", ".env");
+  base[0].push(path.resolve(cwd, "config.properties"));
+
+  return [
+    { layer: "base", groups: envPath ? [[path.resolve(cwd, envPath)]] : base },
+    { layer: "profile", groups: profile ? allFormats(`tests.${profile}`, `.env.${profile}`) : [] },
+    { layer: "runner", groups: runner ? allFormats(`runner.${runner}`, `.env.runner.${runner}`) : [] },
+    { layer: "local", groups: allFormats("tests.local", ".env.local") },
+  ];
+}
+
+/**
+ * Находит файлы конфигурации по слоям.
+ * Бросает ошибку, если явно заданный CONFIG_PATH не существует или не найдено ни одного файла.
+ */
+export function resolveConfigFiles(opts: LoadConfigOptions = {}): ConfigFile[] {
+  const cwd = opts.cwd ?? process.cwd();
+  const env = opts.env ?? process.env;
+
+  const layers = layerCandidates(cwd, env);
+  const files: ConfigFile[] = [];
+  for (const { layer, groups } of layers) {
+    for (const paths of groups) {
+      const found = paths.find(isFile);
+      if (found) files.push({ layer, path: found });
+    }
+  }
+
+  const envPath = env.CONFIG_PATH?.trim();
+  if (envPath && !files.some((f) => f.layer === "base")) {
+    throw new Error(`Файл конфигурации из CONFIG_PATH не найден: ${path.resolve(cwd, envPath)}`);
+  }
+
+  // одного .env мало: в корне репозитория он обычно есть и без настроек тестов
+  if (!files.some((f) => detectFormat(f.path) !== "env") && !envPath) {
+    // Полезная ошибка с перечислением, где искали
+    const tried = layers
+      .flatMap(({ groups }) => groups.flat())
+      .map((p) => ` - ${p}`)
+      .join("\n");
+    throw new Error(
+      `Не удалось найти файл конфигурации тестов.\nИскал в:\n${tried}\n` +
+      `Подсказки:\n` +
+      ` • Укажи явный путь через переменную CONFIG_PATH\n` +
+      ` • Либо создай tests/config/tests.properties (или tests.<profile>.properties)\n` +
+      ` • Поддерживаются также .json и .yaml/.yml; .env — только вместе с ними\n`
+    );
+  }
+
+  return files;
+}
+
+/**
+ * Читает один файл конфигурации, формат определяется по имени.
+ * В .env ключи вида APPIUM_URL / appium_url, совпадающие с ключом схемы,
+ * приводятся к нему (appium.url); берутся только они и caps.<platform>.* —
+ * остальные переменные (DATABASE_URL и т.п.) к тестам не относятся и не читаются.
+ */
+export function readConfigFile(filePath: string): Props {
+  const format = detectFormat(filePath);
+  let props: Props;
+  try {
+    props = parseConfigText(fs.readFileSync(filePath, "utf8"), format);
+  } catch (e) {
+    throw new Error(`Не удалось разобрать файл конфигурации ${filePath}: ${(e as Error).message}`);
+  }
+  if (format !== "env") return props;
+
+  const out: Props = {};
+  for (const [key, value] of Object.entries(props)) {
+    const configKey = isCapabilityKey(key) ? key : dotenvKeyToConfigKey(key);
+    if (configKey) out[configKey] = value;
+  }
+  return out;
+}
+
+/** Ключ схемы или его платформенный вариант (IOS_TIMEOUT_EXPECTATION → ios.timeout.expectation). */
+function dotenvKeyToConfigKey(key: string): string | undefined {
+  const snake = key.replace(/[.\s-]+/g, "_").toLowerCase();
+  const known = [...Object.keys(CONFIG_SCHEMA), ...platformVariants().map(([variant]) => variant)];
+  return known.find((k) => k.replace(/[.\s-]+/g, "_").toLowerCase() === snake);
+}
+
+/**
+ * Загружает и сливает файловые слои base → profile → runner → local,
+ * запоминая для каждого ключа, какой файл его задал.
+ */
+export function loadLayeredConfig(opts: LoadConfigOptions = {}): LoadedConfig {
+  const files = resolveConfigFiles(opts);
+  const properties: Props = {};
+  const provenance: Record<string, ConfigOrigin> = {};
+
+  for (const file of files) {
+    const layerProps = readConfigFile(file.path);
+    for (const [key, value] of Object.entries(layerProps)) {
+      properties[key] = value;
+      provenance[key] = { layer: file.layer, source: file.path, format: detectFormat(file.path) };
+    }
+  }
+
+  return { properties, provenance, files };
+}
+
+/** Достаём строку из env (включая ВАРИАНТЫ имени) вместе с именем найденной переменной */
+export function lookupEnv(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env
+): { name: string; value: string } | undefined {
+  const variants = [
+    // точное имя
+    name,
+    // canonical UPPER_SNAKE
+    name.replace(/[.\s-]+/g, "_").toUpperCase(),
+    // lower snake
+    name.replace(/[.\s-]+/g, "_").toLowerCase(),
+  ];
+  for (const v of variants) {
+    const value = env[v];
+    if (value !== undefined) return { name: v, value };
+  }
+  return undefined;
+}
+
+/** Человекочитаемое описание происхождения: "local (tests/config/tests.local.properties)". */
+export function formatOrigin(origin: ConfigOrigin, cwd: string = process.cwd()): string {
+  switch (origin.layer) {
+    case "default":
+      return "default";
+    case "env":
+    case "override":
+      return `${origin.layer} (${origin.source})`;
+    default:
+      return `${origin.layer} (${path.relative(cwd, origin.source) || origin.source})`;
+  }
+}
@@ -0,0 +1,400 @@
+import type { Props } from "./config-loader";
+import {
+  DEFAULT_POLLING_INTERVAL,
+  DEFAULT_SCROLL_BIDIRECTIONAL,
+  DEFAULT_SCROLL_CAPACITY,
+  DEFAULT_SCROLL_COEFFICIENT,
+  DEFAULT_SCROLL_COUNT,
+  DEFAULT_SCROLL_DETECT_END,
+  DEFAULT_SCROLL_DIRECTION,
+  DEFAULT_SCROLL_NATIVE,
+  DEFAULT_SWIPE_COEFFICIENT,
+  DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
+  DEFAULT_TIMEOUT_EVENT_CHECK_EXPECTATION,
+  DEFAULT_TIMEOUT_EXPECTATION,
+} from "../core/constants";
+import { ScrollDirection } from "../core/gestures/scroll-direction";
+import { Platform } from "../core/platform";
+import { suggest } from "../core/string-similarity";
+
+/** Тип значения ключа конфигурации. */
+export type ConfigValueType = "string" | "boolean" | "int" | "number" | "url" | "enum" | "size";
+
+/** Декларативное описание ключа конфигурации. */
+export interface ConfigKeySpec {
+  type: ConfigValueType;
+  /** Значение по умолчанию в «сыром» (строковом) виде — проходит ту же проверку, что и значения из файлов. */
+  default: string;
+  description: string;
+  /** Допустимые значения для type = "enum" (сравнение без учёта регистра). */
+  values?: readonly string[];
+  /** Диапазон для type = "int" / "number" (включительно). */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Все поддерживаемые ключи tests.properties.
+ * Значения по умолчанию совпадают с прежними «зашитыми» в AppConfig.
+ */
+export const CONFIG_SCHEMA = {
+  // ==== Appium / Platform ====
+  "appium.url": { type: "url", default: "http://localhost:4723/", description: "URL Appium-сервера" },
+  platform: {
+    type: "enum",
+    values: ["ANDROID", "IOS"],
+    default: "ANDROID",
+    description: "Платформа тестов",
+  },
+
+  // ==== OS versions & device names ====
+  "android.version": { type: "string", default: "16", description: "Версия Android (appium:platformVersion)" },
+  "ios.version": { type: "string", default: "18.4", description: "Версия iOS (appium:platformVersion)" },
+  "android.device.name": { type: "string", default: "WBA16", description: "Имя AVD / устройства Android" },
+  "ios.device.name": { type: "string", default: "iPhone 16 Plus", description: "Имя симулятора iOS" },
+
+  // ==== App binaries ====
+  "android.app.name": { type: "string", default: "android.apk", description: "Путь к APK относительно корня" },
+  "ios.app.name": { type: "string", default: "ios.app", description: "Путь к .app относительно корня" },
+
+  // ==== Android package & activity / iOS bundle id ====
+  "app.activity": { type: "string", default: "MainActivity", description: "Android appActivity" },
+  "app.package": { type: "string", default: "com.dev", description: "Android appPackage" },
+  "bundle.id": { type: "string", default: "MOBILEAPP.DEV", description: "iOS bundleId" },
+
+  // ==== iOS alerts ====
+  "ios.auto_accept_alerts": { type: "boolean", default: "false", description: "appium:autoAcceptAlerts" },
+  "ios.auto_dismiss_alerts": { type: "boolean", default: "false", description: "appium:autoDismissAlerts" },
+
+  // ==== Android permissions ====
+  "android.auto_grant_permissions": {
+    type: "boolean",
+    default: "true",
+    description: "appium:autoGrantPermissions — выдать все разрешения при установке",
+  },
+
+  // ==== Android emulator ====
+  "android.headless.mode": { type: "boolean", default: "true", description: "Запуск эмулятора с -no-window" },
+
+  // ==== Video recording ====
+  "android.video.recording.enabled": { type: "boolean", default: "false", description: "Запись видео на Android" },
+  "ios.video.recording.enabled": { type: "boolean", default: "false", description: "Запись видео на iOS" },
+  "video.recording.size": { type: "size", default: "640x360", description: "Размер видео, <ширина>x<высота>" },
+  "video.recording.quality": {
+    type: "int",
+    min: 1,
+    max: 100,
+    default: "70",
+    description: "Качество видео 1..100",
+  },
+  "video.recording.bitrate": { type: "int", min: 1, default: "100000", description: "Битрейт видео (бит/с)" },
+  "video.recording.output.dir": { type: "string", default: "build/videos", description: "Каталог для видео" },
+
+  // ==== Emulator/simulator lifecycle ====
+  "emulator.auto.start": { type: "boolean", default: "true", description: "Запускать эмулятор перед тестами" },
+  "emulator.auto.shutdown": { type: "boolean", default: "true", description: "Останавливать эмулятор после тестов" },
+
+  // ==== Appium lifecycle ====
+  "appium.autostart": { type: "boolean", default: "true", description: "Поднимать Appium автоматически" },
+  "appium.autoshutdown": { type: "boolean", default: "true", description: "Останавливать поднятый нами Appium" },
+  "appium.start.timeout": { type: "int", min: 0, default: "45000", description: "Ожидание старта Appium (мс)" },
+  "appium.kill.grace": { type: "int", min: 0, default: "8000", description: "Грейс перед SIGKILL Appium (мс)" },
+
+  // ==== Ожидания и скролл в MobileActions (значения по умолчанию — из core/constants) ====
+  "timeout.before.expectation": {
+    type: "number",
+    min: 0,
+    default: String(DEFAULT_TIMEOUT_BEFORE_EXPECTATION),
+    description: "Пауза перед поиском элемента (с)",
+  },
+  "timeout.expectation": {
+    type: "number",
+    min: 0,
+    default: String(DEFAULT_TIMEOUT_EXPECTATION),
+    description: "Максимум ожидания элемента (с)",
+  },
+  "timeout.event.check.expectation": {
+    type: "number",
+    min: 0,
+    default: String(DEFAULT_TIMEOUT_EVENT_CHECK_EXPECTATION),
+    description: "Максимум ожидания события (с)",
+  },
+  "polling.interval": {
+    type: "int",
+    min: 1,
+    default: String(DEFAULT_POLLING_INTERVAL),
+    description: "Частота опроса элемента (мс)",
+  },
+  "scroll.count": { type: "int", min: 0, default: String(DEFAULT_SCROLL_COUNT), description: "Число скроллов при поиске" },
+  "scroll.capacity": {
+    type: "number",
+    min: 0,
+    default: String(DEFAULT_SCROLL_CAPACITY),
+    description: "Доля экрана за один скролл",
+  },
+  "scroll.direction": {
+    type: "enum",
+    values: Object.values(ScrollDirection),
+    default: DEFAULT_SCROLL_DIRECTION,
+    description: "Направление скролла по умолчанию",
+  },
+  "scroll.coefficient": {
+    type: "number",
+    min: 0,
+    max: 1,
+    default: String(DEFAULT_SCROLL_COEFFICIENT),
+    description: "Отступ от края экрана при скролле",
+  },
+  "scroll.detect.end": {
+    type: "boolean",
+    default: String(DEFAULT_SCROLL_DETECT_END),
+    description: "Прекращать скролл при поиске, когда содержимое перестало прокручиваться",
+  },
+  "scroll.bidirectional": {
+    type: "boolean",
+    default: String(DEFAULT_SCROLL_BIDIRECTIONAL),
+    description: "Не найдя элемент, искать и в обратном направлении",
+  },
+  "scroll.native": {
+    type: "boolean",
+    default: String(DEFAULT_SCROLL_NATIVE),
+    description: "Скроллить командами mobile: scrollGesture (Android) / mobile: scroll (iOS)",
+  },
+  "swipe.coefficient": {
+    type: "number",
+    min: 0,
+    max: 1,
+    default: String(DEFAULT_SWIPE_COEFFICIENT),
+    description: "Отступ от края элемента при свайпе",
+  },
+
+  // ==== Самовосстановление локаторов ====
+  "healing.enabled": {
+    type: "boolean",
+    default: "false",
+    description: "Искать элемент по сохранённым атрибутам, если все локаторы не сработали",
+  },
+  "healing.store": {
+    type: "string",
+    default: "healing/known-good.json",
+    description: "Файл с атрибутами найденных элементов из прошлых прогонов",
+  },
+  "healing.report": {
+    type: "string",
+    default: "build/healing/healing-report.json",
+    description: "Отчёт о восстановленных локаторах",
+  },
+  "healing.threshold": {
+    type: "number",
+    min: 0,
+    max: 1,
+    default: "0.75",
+    description: "Минимальное сходство узла с сохранёнными атрибутами",
+  },
+} as const satisfies Record<string, ConfigKeySpec>;
+
+export type ConfigKey = keyof typeof CONFIG_SCHEMA;
+
+/**
+ * Префиксы ключей, которые передаются в capabilities сессии как есть:
+ * caps.android.appium:noReset=true → "appium:noReset": true.
+ * Вложенные значения задаются через точку (caps.ios.appium:processArguments.args.0=-debug) или JSON.
+ */
+export const CAPABILITY_KEY_PREFIXES = {
+  ANDROID: "caps.android.",
+  IOS: "caps.ios.",
+} as const;
+
+export function isCapabilityKey(key: string): boolean {
+  return Object.values(CAPABILITY_KEY_PREFIXES).some((prefix) => key.startsWith(prefix) && key.length > prefix.length);
+}
+
+/**
+ * Значение capability из строки: true/false, числа, null (убрать capability),
+ * JSON-объекты, массивы и строки в двойных кавычках; остальное — строка как есть.
+ */
+export function parseCapabilityValue(raw: string): { value: unknown } | { error: string } {
+  const v = raw.trim();
+  if (v === "true" || v === "false") return { value: v === "true" };
+  if (v === "null") return { value: null };
+  if (/^-?\d+(\.\d+)?$/.test(v)) return { value: Number(v) };
+  if (/^[[{"]/.test(v)) {
+    try {
+      return { value: JSON.parse(v) };
+    } catch {
+      return { error: "некорректный JSON" };
+    }
+  }
+  return { value: v };
+}
+
+type ValueOf<T extends ConfigValueType> = T extends "boolean"
+  ? boolean
+  : T extends "int" | "number"
+    ? number
+    : T extends "url"
+      ? URL
+      : string;
+
+/** Типизированные значения всех ключей схемы. */
+export type ConfigValues = { [K in ConfigKey]: ValueOf<(typeof CONFIG_SCHEMA)[K]["type"]> };
+
+/**
+ * Ключи, у которых есть платформенные варианты: ios.timeout.expectation, android.scroll.count и т.п.
+ * Вариант проверяется по спецификации базового ключа.
+ */
+export const PLATFORM_SPECIFIC_KEYS = [
+  "timeout.before.expectation",
+  "timeout.expectation",
+  "timeout.event.check.expectation",
+  "polling.interval",
+  "scroll.count",
+  "scroll.capacity",
+  "scroll.direction",
+  "scroll.coefficient",
+  "scroll.detect.end",
+  "scroll.bidirectional",
+  "scroll.native",
+  "swipe.coefficient",
+] as const satisfies readonly ConfigKey[];
+
+export type PlatformSpecificKey = (typeof PLATFORM_SPECIFIC_KEYS)[number];
+
+/** Имя платформенного варианта ключа: ("timeout.expectation", IOS) → "ios.timeout.expectation". */
+export function platformKey(key: PlatformSpecificKey, platform: Platform): string {
+  return `${platform.toLowerCase()}.${key}`;
+}
+
+/** Все платформенные варианты: [имя варианта, базовый ключ, платформа]. */
+export function platformVariants(): Array<[string, PlatformSpecificKey, Platform]> {
+  return Object.values(Platform).flatMap((platform) =>
+    PLATFORM_SPECIFIC_KEYS.map((key): [string, PlatformSpecificKey, Platform] => [platformKey(key, platform), key, platform])
+  );
+}
+
+export interface ConfigValidationResult {
+  values: ConfigValues;
+  /** Заданные платформенные варианты ключей. */
+  platformValues: Record<Platform, Partial<ConfigValues>>;
+  errors: string[];
+  warnings: string[];
+}
+
+/** Ошибка валидации: содержит сразу все найденные проблемы. */
+export class ConfigValidationError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Некорректная конфигурация тестов (${errors.length}):\n${errors.map((e) => ` - ${e}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+const TRUE_VALUES = ["true", "1", "yes", "y", "on"];
+const FALSE_VALUES = ["false", "0", "no", "n", "off"];
+
+/**
+ * Приводит «сырое» значение к типу ключа.
+ * Возвращает либо значение, либо текст ошибки.
+ */
+function coerce(spec: ConfigKeySpec, raw: string): { value: unknown } | { error: string } {
+  const v = raw.trim();
+  switch (spec.type) {
+    case "string":
+      return { value: v };
+    case "boolean": {
+      const s = v.toLowerCase();
+      if (TRUE_VALUES.includes(s)) return { value: true };
+      if (FALSE_VALUES.includes(s)) return { value: false };
+      return { error: `ожидалось логическое значение (${[...TRUE_VALUES, ...FALSE_VALUES].join("/")})` };
+    }
+    case "int":
+    case "number": {
+      const pattern = spec.type === "int" ? /^[-+]?\d+$/ : /^[-+]?(\d+\.?\d*|\.\d+)$/;
+      if (!pattern.test(v)) return { error: spec.type === "int" ? "ожидалось целое число" : "ожидалось число" };
+      const n = Number(v);
+      if (spec.min !== undefined && n < spec.min) return { error: `значение меньше минимума ${spec.min}` };
+      if (spec.max !== undefined && n > spec.max) return { error: `значение больше максимума ${spec.max}` };
+      return { value: n };
+    }
+    case "url":
+      try {
+        return { value: new URL(v) };
+      } catch {
+        return { error: "ожидался корректный URL" };
+      }
+    case "enum": {
+      const values = spec.values ?? [];
+      const found = values.find((x) => x.toLowerCase() === v.toLowerCase());
+      if (found) return { value: found };
+      const hint = suggest(v, values);
+      return { error: `допустимые значения: ${values.join(", ")}${hint ? ` (возможно, ${hint}?)` : ""}` };
+    }
+    case "size":
+      return /^\d+x\d+$/.test(v) ? { value: v } : { error: "ожидался размер в формате <ширина>x<высота>" };
+  }
+}
+
+/**
+ * Проверяет итоговые (после слияния слоёв и env) значения по схеме.
+ * Ключи без значения получают default. Ошибки не прерывают проверку — собираются все сразу.
+ * Платформенные варианты (ios.timeout.expectation) проверяются по спецификации базового ключа,
+ * ключи caps.<platform>.* — как значения capabilities.
+ * Ключи, которых нет в схеме, дают предупреждения с подсказкой ближайшего известного ключа.
+ *
+ * @param raw      итоговые значения ключей
+ * @param describe функция, дописывающая к сообщению происхождение ключа (файл/env)
+ * @param isKnown  дополнительные «известные» ключи вне схемы (например, вспомогательные для ${...})
+ */
+export function validateConfig(
+  raw: Props,
+  describe: (key: string) => string = () => "",
+  isKnown: (key: string) => boolean = () => false
+): ConfigValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const values: Record<string, unknown> = {};
+  const platformValues: Record<Platform, Record<string, unknown>> = { [Platform.ANDROID]: {}, [Platform.IOS]: {} };
+  const knownKeys = Object.keys(CONFIG_SCHEMA);
+
+  const check = (key: string, spec: ConfigKeySpec, input: string, save: (value: unknown) => void) => {
+    const res = coerce(spec, input);
+    if ("error" in res) {
+      const where = describe(key);
+      errors.push(`${key}='${input}'${where ? ` [${where}]` : ""}: ${res.error} — ${spec.description}`);
+      return;
+    }
+    save(res.value);
+  };
+
+  for (const [key, spec] of Object.entries(CONFIG_SCHEMA) as Array<[ConfigKey, ConfigKeySpec]>) {
+    check(key, spec, raw[key] ?? spec.default, (v) => (values[key] = v));
+  }
+
+  const variants = new Set<string>();
+  for (const [variant, key, platform] of platformVariants()) {
+    variants.add(variant);
+    if (raw[variant] === undefined) continue;
+    check(variant, CONFIG_SCHEMA[key], raw[variant], (v) => (platformValues[platform][key] = v));
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (isCapabilityKey(key)) {
+      const res = parseCapabilityValue(raw[key]);
+      if ("error" in res) {
+        const where = describe(key);
+        errors.push(`${key}='${raw[key]}'${where ? ` [${where}]` : ""}: ${res.error} — capability сессии`);
+      }
+      continue;
+    }
+    if (key in CONFIG_SCHEMA || variants.has(key) || isKnown(key)) continue;
+    const hint = suggest(key, knownKeys);
+    const where = describe(key);
+    warnings.push(`Неизвестный ключ '${key}'${where ? ` [${where}]` : ""}${hint ? ` — возможно, '${hint}'?` : ""}`);
+  }
+
+  return {
+    values: values as ConfigValues,
+    platformValues: platformValues as Record<Platform, Partial<ConfigValues>>,
+    errors,
+    warnings,
+  };
+}
@@ -0,0 +1,190 @@
+import type { Props } from "./config-loader";
+
+/**
+ * Парсер .properties, совместимый с java.util.Properties#load:
+ * - комментарии: строки, начинающиеся с # или ! (и ; — легаси этого репозитория)
+ * - продолжение строки обратным слешем в конце (ведущие пробелы следующей строки отбрасываются)
+ * - разделители key=value / key: value / key value; в ключе допускаются \=, \: и "\ "
+ * - escape-последовательности \t \n \r \f \\ и \uXXXX
+ *
+ * Отличие от Java: хвостовые пробелы значения обрезаются (как и раньше в этом репозитории);
+ * чтобы сохранить пробел в конце, экранируйте его: "value\ ".
+ */
+export function parseProperties(text: string): Props {
+  const out: Props = {};
+  const lines = text.split(/\r\n|\r|\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    let logical = lines[i].replace(/^[ \t\f]+/, "");
+    if (!logical || logical.startsWith("#") || logical.startsWith("!") || logical.startsWith(";")) continue;
+
+    // склейка продолжений: нечётное число слешей в конце — перенос
+    while (endsWithContinuation(logical) && i + 1 < lines.length) {
+      logical = logical.slice(0, -1) + lines[++i].replace(/^[ \t\f]+/, "");
+    }
+    if (endsWithContinuation(logical)) logical = logical.slice(0, -1);
+
+    const { key, rest } = splitKey(logical);
+    out[unescape(key, lineNo)] = unescapeValue(rest, lineNo);
+  }
+  return out;
+}
+
+function endsWithContinuation(line: string): boolean {
+  let slashes = 0;
+  for (let j = line.length - 1; j >= 0 && line[j] === "\\"; j--) slashes++;
+  return slashes % 2 === 1;
+}
+
+/** Ключ — до первого неэкранированного '=', ':' или пробела; затем пропускаем пробелы и один разделитель. */
+function splitKey(line: string): { key: string; rest: string } {
+  let j = 0;
+  while (j < line.length) {
+    const c = line[j];
+    if (c === "\\") {
+      j += 2;
+      continue;
+    }
+    if (c === "=" || c === ":" || c === " " || c === "\t" || c === "\f") break;
+    j++;
+  }
+  const key = line.slice(0, j);
+  let k = j;
+  while (k < line.length && /[ \t\f]/.test(line[k])) k++;
+  if (k < line.length && (line[k] === "=" || line[k] === ":")) k++;
+  while (k < line.length && /[ \t\f]/.test(line[k])) k++;
+  return { key, rest: line.slice(k) };
+}
+
+/** Разворачивает escape-последовательности. Возвращает строку и длину «значимой» части (до хвостовых пробелов). */
+function unescapeWithEnd(s: string, lineNo: number): { text: string; significant: number } {
+  let text = "";
+  let significant = 0;
+  for (let j = 0; j < s.length; j++) {
+    const c = s[j];
+    if (c !== "\\") {
+      text += c;
+      if (!/[ \t\f]/.test(c)) significant = text.length;
+      continue;
+    }
+    const n = s[++j];
+    if (n === undefined) break;
+    switch (n) {
+      case "t":
+        text += "\t";
+        break;
+      case "n":
+        text += "\n";
+        break;
+      case "r":
+        text += "\r";
+        break;
+      case "f":
+        text += "\f";
+        break;
+      case "u": {
+        const hex = s.slice(j + 1, j + 5);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          throw new Error(`Некорректная escape-последовательность \\u${hex} в строке ${lineNo}`);
+        }
+        text += String.fromCharCode(parseInt(hex, 16));
+        j += 4;
+        break;
+      }
+      default:
+        text += n;
+    }
+    significant = text.length;
+  }
+  return { text, significant };
+}
+
+function unescape(s: string, lineNo: number): string {
+  return unescapeWithEnd(s, lineNo).text;
+}
+
+function unescapeValue(s: string, lineNo: number): string {
+  const { text, significant } = unescapeWithEnd(s, lineNo);
+  return text.slice(0, significant);
+}
+
+// -------------------------------------------------------------
+// Интерполяция ${key} / ${env:NAME}
+// -------------------------------------------------------------
+
+const PLACEHOLDER = /\$\$\{|\$\{([^}]*)\}/g;
+
+export interface InterpolationResult {
+  values: Props;
+  errors: string[];
+  /** Ключи, на которые есть ссылки ${...}, — вспомогательные (build.dir и т.п.). */
+  referenced: Set<string>;
+}
+
+/**
+ * Подставляет ссылки в значениях:
+ * - ${other.key} — значение другого ключа (тоже интерполированное)
+ * - ${env:NAME}  — переменная окружения
+ * - $${          — литерал "${"
+ *
+ * Циклы и неизвестные ссылки не прерывают обработку — попадают в errors,
+ * а значение ключа остаётся неинтерполированным.
+ */
+export function interpolateProperties(props: Props, env: NodeJS.ProcessEnv = process.env): InterpolationResult {
+  const values: Props = {};
+  const errors: string[] = [];
+  const failed = new Set<string>();
+  const referenced = new Set<string>();
+
+  const resolve = (key: string, chain: string[]): string | undefined => {
+    if (key in values) return values[key];
+    if (failed.has(key)) return undefined;
+    if (chain.includes(key)) {
+      const cycle = [...chain.slice(chain.indexOf(key)), key].join(" → ");
+      errors.push(`${chain[0]}: циклическая ссылка ${cycle}`);
+      chain.slice(chain.indexOf(key)).forEach((k) => failed.add(k));
+      return undefined;
+    }
+
+    const raw = props[key];
+    let ok = true;
+    const text = raw.replace(PLACEHOLDER, (match, ref: string | undefined) => {
+      if (match === "$${") return "${";
+      const name = ref!.trim();
+      if (name.startsWith("env:")) {
+        const v = env[name.slice(4)];
+        if (v === undefined) {
+          errors.push(`${key}: переменная окружения '${name.slice(4)}' не задана`);
+          ok = false;
+          return match;
+        }
+        return v;
+      }
+      referenced.add(name);
+      if (!(name in props)) {
+        errors.push(`${key}: ссылка на неизвестный ключ '${name}'`);
+        ok = false;
+        return match;
+      }
+      const v = resolve(name, [...chain, key]);
+      if (v === undefined) {
+        ok = false;
+        return match;
+      }
+      return v;
+    });
+
+    if (!ok) {
+      failed.add(key);
+      return undefined;
+    }
+    values[key] = text;
+    return text;
+  };
+
+  for (const key of Object.keys(props)) resolve(key, []);
+  for (const key of failed) values[key] = props[key];
+
+  return { values, errors, referenced };
+}
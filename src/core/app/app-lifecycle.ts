@@ -0,0 +1,95 @@
+import { Platform } from "../platform";
+import type { NativeCommand } from "../gestures/native-gestures";
+
+/** Состояние приложения по mobile: queryAppState (одинаково для UiAutomator2 и XCUITest). */
+export enum AppState {
+  NOT_INSTALLED = 0,
+  NOT_RUNNING = 1,
+  /** Только iOS: приложение в фоне и приостановлено системой. */
+  RUNNING_IN_BACKGROUND_SUSPENDED = 2,
+  RUNNING_IN_BACKGROUND = 3,
+  RUNNING_IN_FOREGROUND = 4,
+}
+
+const STATE_NAMES: Record<AppState, string> = {
+  [AppState.NOT_INSTALLED]: "не установлено",
+  [AppState.NOT_RUNNING]: "не запущено",
+  [AppState.RUNNING_IN_BACKGROUND_SUSPENDED]: "в фоне (приостановлено)",
+  [AppState.RUNNING_IN_BACKGROUND]: "в фоне",
+  [AppState.RUNNING_IN_FOREGROUND]: "на переднем плане",
+};
+
+export function appStateName(state: AppState): string {
+  return STATE_NAMES[state] ?? `неизвестное состояние ${state}`;
+}
+
+/** Значение intent extra: тип для am start выводится из JS-типа. */
+export type IntentExtra = string | number | boolean | null;
+
+/**
+ * Параметры запуска приложения. Extras — только Android,
+ * arguments и environment — только iOS (processArguments приложения).
+ */
+export interface LaunchAppOptions {
+  /** Android: intent extras (am start --es/--ei/--ez …). */
+  extras?: Record<string, IntentExtra>;
+  /** Android: активити вместо AppConfig.getAppActivity(). */
+  activity?: string;
+  /** iOS: аргументы командной строки процесса. */
+  arguments?: string[];
+  /** iOS: переменные окружения процесса. */
+  environment?: Record<string, string>;
+}
+
+/** Идентификатор приложения в аргументах mobile:-команд. */
+export function appIdArgs(platform: Platform, appId: string): Record<string, string> {
+  return platform === Platform.ANDROID ? { appId } : { bundleId: appId };
+}
+
+/** mobile: installApp: UiAutomator2 ждёт appPath, XCUITest — app. */
+export function installAppArgs(platform: Platform, appPath: string): Record<string, string> {
+  return platform === Platform.ANDROID ? { appPath } : { app: appPath };
+}
+
+/** Тройка [тип, ключ, значение] для extras в mobile: startActivity. */
+export function intentExtra(key: string, value: IntentExtra): [string, string] | [string, string, string] {
+  if (value === null) return ["sn", key];
+  if (typeof value === "boolean") return ["z", key, String(value)];
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Intent extra '${key}': ${value} — ожидалось конечное число`);
+    if (!Number.isInteger(value)) return ["f", key, String(value)];
+    return [Math.abs(value) <= 0x7fffffff ? "i" : "l", key, String(value)];
+  }
+  return ["s", key, value];
+}
+
+/**
+ * Команда запуска приложения с параметрами:
+ * Android — mobile: startActivity (component = пакет/активити, stop — сначала am force-stop),
+ * iOS — mobile: launchApp с processArguments.
+ */
+export function launchAppCommand(
+  platform: Platform,
+  app: { appId: string; activity?: string },
+  options: LaunchAppOptions = {}
+): NativeCommand {
+  if (platform === Platform.ANDROID) {
+    if (options.arguments || options.environment) {
+      throw new Error("launchApp: arguments и environment поддерживаются только на iOS, для Android используйте extras");
+    }
+    const activity = options.activity ?? app.activity;
+    if (!activity) throw new Error("launchApp: не задана активити приложения (app.activity)");
+    const args: Record<string, unknown> = { component: `${app.appId}/${activity}`, stop: true, wait: true };
+    const extras = Object.entries(options.extras ?? {}).map(([key, value]) => intentExtra(key, value));
+    if (extras.length) args.extras = extras;
+    return { script: "mobile: startActivity", args };
+  }
+
+  if (options.extras || options.activity) {
+    throw new Error("launchApp: extras и activity поддерживаются только на Android, для iOS используйте arguments/environment");
+  }
+  const args: Record<string, unknown> = { bundleId: app.appId };
+  if (options.arguments) args.arguments = options.arguments;
+  if (options.environment) args.environment = options.environment;
+  return { script: "mobile: launchApp", args };
+}
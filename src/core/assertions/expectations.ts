@@ -0,0 +1,75 @@
+/**
+ * Ожидаемые значения для проверок MobileActions: текст, число элементов.
+ * Только сравнение и описание для сообщений — без драйвера.
+ */
+
+/** Условие на текст. */
+export interface TextMatcher {
+  equals?: string;
+  contains?: string;
+  matches?: RegExp;
+  ignoreCase?: boolean;
+  /** Схлопывать пробелы и переводы строк, обрезать края. По умолчанию true. */
+  normalizeWhitespace?: boolean;
+}
+
+/** Строка — точное совпадение, RegExp — поиск по выражению. */
+export type TextExpectation = string | RegExp | TextMatcher;
+
+/** Число элементов: точное или диапазон. */
+export type CountExpectation = number | { min?: number; max?: number };
+
+/** Пробелы любого вида (\s включает и неразрывные) → один пробел, края обрезаются. */
+export function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function toMatcher(expected: TextExpectation): TextMatcher {
+  if (typeof expected === "string") return { equals: expected };
+  if (expected instanceof RegExp) return { matches: expected };
+  const conditions = ["equals", "contains", "matches"].filter((k) => expected[k as keyof TextMatcher] !== undefined);
+  if (conditions.length !== 1) {
+    throw new Error(`Ожидаемый текст: нужно ровно одно из equals / contains / matches, задано: ${conditions.join(", ") || "ничего"}`);
+  }
+  return expected;
+}
+
+export function matchesText(actual: string, expected: TextExpectation): boolean {
+  const m = toMatcher(expected);
+  const prepare = (s: string) => {
+    const v = m.normalizeWhitespace === false ? s : normalizeWhitespace(s);
+    return m.ignoreCase ? v.toLowerCase() : v;
+  };
+  if (m.matches) {
+    const flags = m.ignoreCase && !m.matches.flags.includes("i") ? m.matches.flags + "i" : m.matches.flags;
+    // без флагов g/y: у таких выражений test() зависит от lastIndex
+    const text = m.normalizeWhitespace === false ? actual : normalizeWhitespace(actual);
+    return new RegExp(m.matches.source, flags.replace(/[gy]/g, "")).test(text);
+  }
+  if (m.contains !== undefined) return prepare(actual).includes(prepare(m.contains));
+  return prepare(actual) === prepare(m.equals!);
+}
+
+/** Описание для сообщения: равен "Корзина" / содержит "₽" (без учёта регистра) / соответствует /\d+/. */
+export function describeTextExpectation(expected: TextExpectation): string {
+  const m = toMatcher(expected);
+  const what = m.matches
+    ? `соответствует ${m.matches}`
+    : m.contains !== undefined
+      ? `содержит ${JSON.stringify(m.contains)}`
+      : `равен ${JSON.stringify(m.equals)}`;
+  return m.ignoreCase ? `${what} (без учёта регистра)` : what;
+}
+
+export function matchesCount(actual: number, expected: CountExpectation): boolean {
+  if (typeof expected === "number") return actual === expected;
+  return actual >= (expected.min ?? 0) && actual <= (expected.max ?? Infinity);
+}
+
+export function describeCountExpectation(expected: CountExpectation): string {
+  if (typeof expected === "number") return String(expected);
+  const parts: string[] = [];
+  if (expected.min !== undefined) parts.push(`не меньше ${expected.min}`);
+  if (expected.max !== undefined) parts.push(`не больше ${expected.max}`);
+  return parts.join(" и ") || "любое";
+}
@@ -0,0 +1,54 @@
+/**
+ * Мягкие проверки: упавшая проверка записывается, тест идёт дальше,
+ * а в конце падает один раз со списком всех записанных ошибок.
+ */
+
+export interface SoftFailure {
+  /** Метод проверки: checkVisible, checkText, checkHasEvent… */
+  check: string;
+  message: string;
+  at: Date;
+}
+
+export class SoftAssertionCollector {
+  private readonly recorded: SoftFailure[] = [];
+  /** Сколько мягких проверок выполнено, включая успешные. */
+  checks = 0;
+
+  get failures(): readonly SoftFailure[] {
+    return this.recorded;
+  }
+
+  passed(): void {
+    this.checks++;
+  }
+
+  record(check: string, error: unknown): SoftFailure {
+    this.checks++;
+    const failure = { check, message: error instanceof Error ? error.message : String(error), at: new Date() };
+    this.recorded.push(failure);
+    return failure;
+  }
+
+  clear(): void {
+    this.recorded.length = 0;
+    this.checks = 0;
+  }
+}
+
+/**
+ * Сводка для ошибки теста и отчёта:
+ *
+ *   Мягкие проверки: не прошло 2 из 5
+ *   1) [12:03:41] checkText: …
+ */
+export function formatSoftFailures(failures: readonly SoftFailure[], checks: number): string {
+  const lines = failures.map((f, i) => {
+    const time = f.at.toISOString().slice(11, 19);
+    // сообщения проверок MobileActions уже начинаются с имени метода
+    const text = f.message.startsWith(`${f.check}:`) ? f.message : `${f.check}: ${f.message}`;
+    // многострочные сообщения (ожидалось/фактически) — с отступом под номером
+    return `${i + 1}) [${time}] ${text.replace(/\n/g, "\n   ")}`;
+  });
+  return [`Мягкие проверки: не прошло ${failures.length} из ${checks}`, ...lines].join("\n");
+}
@@ -29,4 +29,13 @@ export const DEFAULT_SCROLL_CAPACITY: number = 1.0;
 export const DEFAULT_POLLING_INTERVAL: number = 1000;
 
 /** Направление скролла по умолчанию. */
-export const DEFAULT_SCROLL_DIRECTION: ScrollDirection = ScrollDirection.Down;
\ No newline at end of file
+export const DEFAULT_SCROLL_DIRECTION: ScrollDirection = ScrollDirection.Down;
+
+/** Прекращать скролл при поиске, когда содержимое перестало прокручиваться. */
+export const DEFAULT_SCROLL_DETECT_END: boolean = true;
+
+/** Не найдя элемент, искать и в обратном направлении. */
+export const DEFAULT_SCROLL_BIDIRECTIONAL: boolean = false;
+
+/** Скроллить нативными командами драйвера (mobile: scrollGesture / mobile: scroll). */
+export const DEFAULT_SCROLL_NATIVE: boolean = false;
@@ -0,0 +1,92 @@
+import {
+  AppConfig,
+  type AppConfiguration,
+  type ConfigOverrides,
+  overrideConfig,
+  withConfig,
+} from "../config/app-config";
+import type { PlatformSpecificKey } from "../config/config-schema";
+import type { ScrollDirection } from "./gestures/scroll-direction";
+
+/**
+ * Действующие значения ожиданий и скролла для MobileActions.
+ * Встроенные значения — DEFAULT_* из constants.ts, переопределяются ключами конфигурации.
+ */
+export interface ActionDefaults {
+  /** Секунды ожидания перед началом поиска элемента (timeout.before.expectation). */
+  timeoutBeforeExpectation: number;
+  /** Максимум секунд поиска элемента (timeout.expectation). */
+  timeoutExpectation: number;
+  /** Максимум секунд ожидания события (timeout.event.check.expectation). */
+  timeoutEventExpectation: number;
+  /** Частота опроса, мс (polling.interval). */
+  pollingInterval: number;
+  /** Число скроллов при поиске (scroll.count). */
+  scrollCount: number;
+  /** Доля экрана за один скролл (scroll.capacity). */
+  scrollCapacity: number;
+  /** Направление скролла (scroll.direction). */
+  scrollDirection: ScrollDirection;
+  /** Отступ от края экрана при скролле (scroll.coefficient). */
+  scrollCoefficient: number;
+  /** Отступ от края элемента при свайпе (swipe.coefficient). */
+  swipeCoefficient: number;
+  /** Прекращать скролл, когда содержимое перестало прокручиваться (scroll.detect.end). */
+  scrollDetectEnd: boolean;
+  /** Искать и в обратном направлении (scroll.bidirectional). */
+  scrollBidirectional: boolean;
+  /** Нативные команды скролла (scroll.native). */
+  scrollNative: boolean;
+}
+
+const CONFIG_KEYS: { [K in keyof ActionDefaults]: PlatformSpecificKey } = {
+  timeoutBeforeExpectation: "timeout.before.expectation",
+  timeoutExpectation: "timeout.expectation",
+  timeoutEventExpectation: "timeout.event.check.expectation",
+  pollingInterval: "polling.interval",
+  scrollCount: "scroll.count",
+  scrollCapacity: "scroll.capacity",
+  scrollDirection: "scroll.direction",
+  scrollCoefficient: "scroll.coefficient",
+  swipeCoefficient: "swipe.coefficient",
+  scrollDetectEnd: "scroll.detect.end",
+  scrollBidirectional: "scroll.bidirectional",
+  scrollNative: "scroll.native",
+};
+
+/** Значения для текущей платформы с учётом withConfig/overrideConfig — читаются на момент вызова. */
+export function actionDefaults(config: AppConfiguration = AppConfig): ActionDefaults {
+  const out = {} as Record<keyof ActionDefaults, unknown>;
+  for (const [name, key] of Object.entries(CONFIG_KEYS) as Array<[keyof ActionDefaults, PlatformSpecificKey]>) {
+    out[name] = config.getForPlatform(key);
+  }
+  return out as ActionDefaults;
+}
+
+function toOverrides(values: Partial<ActionDefaults>): ConfigOverrides {
+  const out: ConfigOverrides = {};
+  for (const [name, value] of Object.entries(values) as Array<[keyof ActionDefaults, string | number | boolean]>) {
+    if (value !== undefined) out[CONFIG_KEYS[name]] = value;
+  }
+  return out;
+}
+
+/**
+ * Выполнить fn с другими значениями по умолчанию — для одного теста или его части:
+ *
+ *   await withActionDefaults({ timeoutExpectation: 30 }, async () => { ... });
+ */
+export function withActionDefaults<T>(values: Partial<ActionDefaults>, fn: () => T): T {
+  return withConfig(toOverrides(values), fn);
+}
+
+/**
+ * Переопределение до вызова возвращённой функции — для сьюта:
+ *
+ *   let restore: () => void;
+ *   beforeAll(() => { restore = overrideActionDefaults({ pollingInterval: 500 }); });
+ *   afterAll(() => restore());
+ */
+export function overrideActionDefaults(values: Partial<ActionDefaults>): () => void {
+  return overrideConfig(toOverrides(values));
+}
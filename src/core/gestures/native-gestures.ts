@@ -0,0 +1,99 @@
+import { Platform } from "../platform";
+import { DEFAULT_SPEED, type Point } from "./pointer-actions";
+import type { ScrollDirection } from "./scroll-direction";
+
+/** Жест в терминах нативных команд драйвера — запасной путь, если W3C actions не выполнились. */
+export type NativeGesture =
+  | { kind: "longPress"; point: Point; duration: number }
+  | { kind: "doubleTap"; point: Point }
+  | { kind: "drag"; from: Point; to: Point; hold: number; speed?: number }
+  | { kind: "pinch"; elementId: string; scale: number; speed?: number }
+  | { kind: "rotate"; elementId: string; degrees: number; duration: number }
+  | { kind: "path" };
+
+export interface NativeCommand {
+  script: string;
+  args: Record<string, unknown>;
+}
+
+function android(g: NativeGesture): NativeCommand | null {
+  switch (g.kind) {
+    case "longPress":
+      return { script: "mobile: longClickGesture", args: { ...g.point, duration: g.duration } };
+    case "doubleTap":
+      return { script: "mobile: doubleClickGesture", args: { ...g.point } };
+    case "drag":
+      return {
+        script: "mobile: dragGesture",
+        args: { startX: g.from.x, startY: g.from.y, endX: g.to.x, endY: g.to.y, speed: g.speed ?? DEFAULT_SPEED },
+      };
+    case "pinch": {
+      // percent — доля размера элемента, на которую сходятся/расходятся пальцы
+      const percent = 1 - Math.min(g.scale, 1 / g.scale);
+      return {
+        script: g.scale > 1 ? "mobile: pinchOpenGesture" : "mobile: pinchCloseGesture",
+        args: { elementId: g.elementId, percent, speed: g.speed ?? DEFAULT_SPEED },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function ios(g: NativeGesture): NativeCommand | null {
+  switch (g.kind) {
+    case "longPress":
+      return { script: "mobile: touchAndHold", args: { ...g.point, duration: g.duration / 1000 } };
+    case "doubleTap":
+      return { script: "mobile: doubleTap", args: { ...g.point } };
+    case "drag":
+      return {
+        script: "mobile: dragFromToForDuration",
+        args: { fromX: g.from.x, fromY: g.from.y, toX: g.to.x, toY: g.to.y, duration: Math.max(0.5, g.hold / 1000) },
+      };
+    case "pinch":
+      // velocity — масштаб в секунду; отрицательная при сжатии
+      return { script: "mobile: pinch", args: { elementId: g.elementId, scale: g.scale, velocity: g.scale > 1 ? 1 : -1 } };
+    case "rotate": {
+      const rotation = (g.degrees * Math.PI) / 180;
+      return {
+        script: "mobile: rotateElement",
+        args: { elementId: g.elementId, rotation, velocity: rotation / (g.duration / 1000) },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Что прокручивать нативной командой: элемент-контейнер или область экрана. */
+export interface NativeScrollTarget {
+  elementId?: string;
+  area?: { left: number; top: number; width: number; height: number };
+  /** Доля области за один скролл (только Android). */
+  percent: number;
+}
+
+/**
+ * Один скролл: mobile: scrollGesture (Android, возвращает «можно ли скроллить дальше»)
+ * или mobile: scroll (iOS). Направление — как у ScrollDirection: Down открывает содержимое ниже.
+ */
+export function nativeScrollCommand(platform: Platform, direction: ScrollDirection, target: NativeScrollTarget): NativeCommand | null {
+  const dir = direction.toLowerCase();
+  if (platform === Platform.ANDROID) {
+    const where = target.elementId ? { elementId: target.elementId } : target.area;
+    if (!where) throw new Error("mobile: scrollGesture: нужен элемент или область скролла");
+    return { script: "mobile: scrollGesture", args: { ...where, direction: dir, percent: target.percent } };
+  }
+  if (platform === Platform.IOS) {
+    return { script: "mobile: scroll", args: { direction: dir, ...(target.elementId ? { elementId: target.elementId } : {}) } };
+  }
+  return null;
+}
+
+/** Нативная команда UiAutomator2 / XCUITest для жеста; null — аналога нет. */
+export function nativeGestureCommand(platform: Platform, gesture: NativeGesture): NativeCommand | null {
+  if (platform === Platform.ANDROID) return android(gesture);
+  if (platform === Platform.IOS) return ios(gesture);
+  return null;
+}
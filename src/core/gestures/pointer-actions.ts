@@ -0,0 +1,176 @@
+// Построение W3C pointer actions для жестов. Только вычисления — без драйвера,
+// последовательности передаются в driver.performActions как есть.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Точка внутри элемента (экрана) в долях ширины и высоты: { x: 0.5, y: 0.5 } — центр. */
+export interface RelativePoint {
+  x: number;
+  y: number;
+}
+
+export const CENTER: RelativePoint = { x: 0.5, y: 0.5 };
+
+export type PointerAction =
+  | { type: "pointerMove"; duration: number; x: number; y: number }
+  | { type: "pointerDown"; button: 0 }
+  | { type: "pointerUp"; button: 0 }
+  | { type: "pause"; duration: number };
+
+/** Один палец: последовательность для performActions. */
+export interface PointerSequence {
+  type: "pointer";
+  id: string;
+  parameters: { pointerType: "touch" };
+  actions: PointerAction[];
+}
+
+/** Скорость движения пальца по умолчанию, px/с. */
+export const DEFAULT_SPEED = 1000;
+
+/** Абсолютная точка внутри прямоугольника. */
+export function pointIn(rect: Rect, at: RelativePoint = CENTER): Point {
+  if (!(at.x >= 0 && at.x <= 1 && at.y >= 0 && at.y <= 1)) {
+    throw new Error(`Точка внутри элемента задаётся долями 0..1, получено (${at.x}, ${at.y})`);
+  }
+  return { x: Math.round(rect.x + rect.width * at.x), y: Math.round(rect.y + rect.height * at.y) };
+}
+
+function checkSpeed(speed: number) {
+  if (!(speed > 0 && Number.isFinite(speed))) throw new Error(`speed=${speed}: ожидалось число > 0 (px/с)`);
+}
+
+/** Длительность перемещения между точками при заданной скорости, мс. */
+export function moveDuration(from: Point, to: Point, speed = DEFAULT_SPEED): number {
+  checkSpeed(speed);
+  return Math.round((Math.hypot(to.x - from.x, to.y - from.y) / speed) * 1000);
+}
+
+function finger(id: string, actions: PointerAction[]): PointerSequence {
+  return { type: "pointer", id, parameters: { pointerType: "touch" }, actions };
+}
+
+const move = (p: Point, duration = 0): PointerAction => ({ type: "pointerMove", duration, x: Math.round(p.x), y: Math.round(p.y) });
+const down: PointerAction = { type: "pointerDown", button: 0 };
+const up: PointerAction = { type: "pointerUp", button: 0 };
+const pause = (duration: number): PointerAction => ({ type: "pause", duration });
+
+export interface TapGesture {
+  /** Точка нажатия внутри элемента. По умолчанию — центр. */
+  at?: RelativePoint;
+  /** Пауза между нажатиями двойного тапа, мс. */
+  interval?: number;
+}
+
+/** count нажатий подряд в одной точке. */
+export function tapActions(point: Point, count = 1, interval = 100): PointerSequence {
+  const actions: PointerAction[] = [move(point)];
+  for (let i = 0; i < count; i++) {
+    if (i) actions.push(pause(interval));
+    actions.push(down, pause(50), up);
+  }
+  return finger("finger1", actions);
+}
+
+export interface LongPressGesture {
+  at?: RelativePoint;
+  /** Длительность удержания, мс. По умолчанию 1000. */
+  duration?: number;
+}
+
+export function longPressActions(point: Point, duration = 1000): PointerSequence {
+  return finger("finger1", [move(point), down, pause(duration), up]);
+}
+
+export interface PathGesture {
+  /** Скорость движения, px/с. */
+  speed?: number;
+  /** Удержание перед началом движения, мс (для перетаскивания). */
+  hold?: number;
+}
+
+/** Движение пальца по ломаной через все точки. */
+export function pathActions(points: readonly Point[], { speed = DEFAULT_SPEED, hold = 0 }: PathGesture = {}, id = "finger1"): PointerSequence {
+  if (points.length < 2) throw new Error("Для жеста по траектории нужно минимум две точки");
+  checkSpeed(speed);
+  const actions: PointerAction[] = [move(points[0]), down];
+  if (hold > 0) actions.push(pause(hold));
+  for (let i = 1; i < points.length; i++) actions.push(move(points[i], moveDuration(points[i - 1], points[i], speed)));
+  actions.push(up);
+  return finger(id, actions);
+}
+
+export interface DragGesture extends PathGesture {
+  /** Точка захвата внутри перетаскиваемого элемента. */
+  from?: RelativePoint;
+  /** Точка отпускания внутри целевого элемента. */
+  to?: RelativePoint;
+}
+
+/** Перетаскивание: удержание (по умолчанию 600 мс), чтобы элемент «прилип» к пальцу, затем движение. */
+export function dragActions(from: Point, to: Point, { speed = DEFAULT_SPEED, hold = 600 }: PathGesture = {}): PointerSequence {
+  return pathActions([from, to], { speed, hold });
+}
+
+export interface PinchGesture {
+  /** Во сколько раз меняется расстояние между пальцами: < 1 — сжатие, > 1 — растяжение. */
+  scale?: number;
+  speed?: number;
+  /** Наклон линии пальцев, градусы (0 — горизонтально). */
+  angle?: number;
+}
+
+function onCircle(center: Point, radius: number, degrees: number): Point {
+  const rad = (degrees * Math.PI) / 180;
+  return { x: center.x + radius * Math.cos(rad), y: center.y + radius * Math.sin(rad) };
+}
+
+/**
+ * Два пальца на одной линии через центр элемента: расходятся (scale > 1) или сходятся (scale < 1).
+ * Больший из радиусов — 45% меньшей стороны элемента, чтобы пальцы не выходили за его границы.
+ */
+export function pinchActions(rect: Rect, { scale = 0.5, speed = DEFAULT_SPEED, angle = 0 }: PinchGesture = {}): PointerSequence[] {
+  if (!(scale > 0 && scale !== 1 && Number.isFinite(scale))) throw new Error(`scale=${scale}: ожидалось число > 0 и ≠ 1`);
+  const center = pointIn(rect);
+  const maxRadius = 0.45 * Math.min(rect.width, rect.height);
+  const [startRadius, endRadius] = scale > 1 ? [maxRadius / scale, maxRadius] : [maxRadius, maxRadius * scale];
+  return [angle, angle + 180].map((a, i) =>
+    pathActions([onCircle(center, startRadius, a), onCircle(center, endRadius, a)], { speed }, `finger${i + 1}`)
+  );
+}
+
+export interface RotateGesture {
+  /** Радиус окружности пальцев в долях меньшей стороны элемента. По умолчанию 0.35. */
+  radius?: number;
+  /** Длительность поворота, мс. По умолчанию 1000. */
+  duration?: number;
+}
+
+/**
+ * Поворот двумя пальцами вокруг центра элемента на degrees (по часовой стрелке — положительные).
+ * Дуга разбивается на отрезки не длиннее 15°.
+ */
+export function rotateActions(rect: Rect, degrees: number, { radius = 0.35, duration = 1000 }: RotateGesture = {}): PointerSequence[] {
+  if (!Number.isFinite(degrees) || degrees === 0) throw new Error(`degrees=${degrees}: ожидался ненулевой угол`);
+  if (!(radius > 0 && radius <= 0.5)) throw new Error(`radius=${radius}: ожидалась доля (0; 0.5]`);
+  const center = pointIn(rect);
+  const r = radius * Math.min(rect.width, rect.height);
+  const steps = Math.max(1, Math.ceil(Math.abs(degrees) / 15));
+  const stepDuration = Math.round(duration / steps);
+  return [0, 180].map((start, i) => {
+    const actions: PointerAction[] = [move(onCircle(center, r, start)), down];
+    for (let s = 1; s <= steps; s++) actions.push(move(onCircle(center, r, start + (degrees * s) / steps), stepDuration));
+    actions.push(up);
+    return finger(`finger${i + 1}`, actions);
+  });
+}
@@ -0,0 +1,69 @@
+import { ScrollDirection } from "./scroll-direction";
+
+const OPPOSITE: Record<ScrollDirection, ScrollDirection> = {
+  [ScrollDirection.Down]: ScrollDirection.Up,
+  [ScrollDirection.Up]: ScrollDirection.Down,
+  [ScrollDirection.Right]: ScrollDirection.Left,
+  [ScrollDirection.Left]: ScrollDirection.Right,
+};
+
+export function oppositeDirection(direction: ScrollDirection): ScrollDirection {
+  return OPPOSITE[direction];
+}
+
+/**
+ * Порядок скроллов при поиске элемента: до count скроллов в direction, пока содержимое
+ * прокручивается. С bidirectional затем — в обратную сторону: назад к исходному месту
+ * и ещё до count скроллов дальше него.
+ */
+export class ScrollSearch {
+  private forward = 0;
+  private backward = 0;
+  private reversed = false;
+  private done = false;
+  /** Хотя бы в одном направлении содержимое закончилось. */
+  reachedEnd = false;
+
+  constructor(
+    readonly direction: ScrollDirection,
+    readonly count: number,
+    readonly bidirectional = false
+  ) {
+  }
+
+  /** Сколько скроллов выполнено. */
+  get total(): number {
+    return this.forward + this.backward;
+  }
+
+  /** Направление следующего скролла или null, если искать больше негде. */
+  next(): ScrollDirection | null {
+    if (this.done || this.count <= 0) return null;
+    if (!this.reversed) {
+      if (this.forward < this.count) return this.direction;
+      if (!this.reverse()) return null;
+    }
+    if (this.backward < this.forward + this.count) return oppositeDirection(this.direction);
+    this.done = true;
+    return null;
+  }
+
+  /** Скролл выполнен; atEnd — дальше в этом направлении содержимое не прокручивается. */
+  record(atEnd: boolean): void {
+    if (this.reversed) this.backward++;
+    else this.forward++;
+    if (!atEnd) return;
+    this.reachedEnd = true;
+    if (this.reversed) this.done = true;
+    else this.reverse();
+  }
+
+  private reverse(): boolean {
+    if (!this.bidirectional || this.forward === 0) {
+      this.done = true;
+      return false;
+    }
+    this.reversed = true;
+    return true;
+  }
+}
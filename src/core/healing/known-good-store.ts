@@ -0,0 +1,89 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Platform } from "../platform";
+import type { ElementFingerprint } from "./locator-healing";
+
+interface KnownGoodEntry {
+  fingerprint: ElementFingerprint;
+  updatedAt: string;
+}
+
+type KnownGoodFile = Partial<Record<Platform, Record<string, KnownGoodEntry>>>;
+
+/**
+ * Атрибуты элементов из прошлых успешных поисков: платформа → описание PageElement с номером элемента → атрибуты.
+ * Файл стоит хранить в репозитории, чтобы восстановление работало и в CI.
+ */
+export class KnownGoodStore {
+  private data: KnownGoodFile | null = null;
+  /** Ключи, атрибуты которых уже сохранены в этом запуске. */
+  private readonly fresh = new Set<string>();
+
+  constructor(readonly file: string) {
+  }
+
+  private load(): KnownGoodFile {
+    if (this.data) return this.data;
+    try {
+      this.data = fs.existsSync(this.file) ? (JSON.parse(fs.readFileSync(this.file, "utf8")) as KnownGoodFile) : {};
+    } catch (e) {
+      console.warn(`[Healing] Не удалось прочитать ${this.file}, начинаем с пустого: ${(e as Error).message}`);
+      this.data = {};
+    }
+    return this.data;
+  }
+
+  get(platform: Platform, key: string): ElementFingerprint | null {
+    return this.load()[platform]?.[key]?.fingerprint ?? null;
+  }
+
+  /** Атрибутов нет или они из прошлых запусков — стоит снять их заново (один раз за запуск). */
+  isStale(platform: Platform, key: string): boolean {
+    return !this.fresh.has(`${platform}:${key}`);
+  }
+
+  /** Сохраняет атрибуты; файл перезаписывается, только если они изменились. */
+  put(platform: Platform, key: string, fingerprint: ElementFingerprint): void {
+    this.fresh.add(`${platform}:${key}`);
+    const data = this.load();
+    const entries = (data[platform] ??= {});
+    if (JSON.stringify(entries[key]?.fingerprint) === JSON.stringify(fingerprint)) return;
+    entries[key] = { fingerprint, updatedAt: new Date().toISOString() };
+
+    // ключи по алфавиту — чтобы дифф файла в репозитории был читаемым
+    const sorted: KnownGoodFile = {};
+    for (const p of Object.keys(data).sort() as Platform[]) {
+      sorted[p] = Object.fromEntries(Object.entries(data[p]!).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(sorted, null, 2) + "\n", "utf8");
+    this.data = sorted;
+  }
+}
+
+/** Запись отчёта: какой элемент восстановлен и какой локатор стоит поправить. */
+export interface HealingRecord {
+  test: string | null;
+  platform: Platform;
+  element: string;
+  failedLocators: string[];
+  suggestedLocator: string;
+  score: number;
+  previous: ElementFingerprint;
+  current: ElementFingerprint;
+  healedAt: string;
+}
+
+/** Дописывает запись в JSON-отчёт (массив записей) и возвращает его путь. */
+export function appendHealingReport(file: string, record: HealingRecord): string {
+  let records: HealingRecord[] = [];
+  try {
+    if (fs.existsSync(file)) records = JSON.parse(fs.readFileSync(file, "utf8")) as HealingRecord[];
+  } catch (e) {
+    console.warn(`[Healing] Отчёт ${file} повреждён и будет перезаписан: ${(e as Error).message}`);
+  }
+  records.push(record);
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(records, null, 2) + "\n", "utf8");
+  return file;
+}
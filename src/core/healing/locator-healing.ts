@@ -0,0 +1,117 @@
+import { predicate } from "../locators/ios-predicate";
+import { type Locator, PageElement } from "../locators/page-element";
+import { isNodeDisplayed, textSimilarity } from "../page-source/diagnostics";
+import type { PageSource } from "../page-source/page-source";
+import { Platform } from "../platform";
+import type { Bounds, UiNode } from "../page-source/xml";
+
+/** Атрибуты найденного элемента, по которым его можно узнать после смены локаторов. */
+export interface ElementFingerprint {
+  tag: string;
+  attributes: Record<string, string>;
+  bounds: Bounds | null;
+}
+
+/** Вес атрибута в сходстве: id и подписи важнее значения и положения. */
+const WEIGHTS: Record<string, number> = {
+  "resource-id": 3,
+  "content-desc": 2,
+  text: 2,
+  name: 2,
+  label: 2,
+  value: 1,
+};
+const TAG_WEIGHT = 1;
+const BOUNDS_WEIGHT = 1;
+
+export function fingerprintOf(node: UiNode): ElementFingerprint {
+  const attributes: Record<string, string> = {};
+  for (const name of Object.keys(WEIGHTS)) {
+    if (node.attributes[name]) attributes[name] = node.attributes[name];
+  }
+  return { tag: node.tag, attributes, bounds: node.bounds };
+}
+
+function center(b: Bounds) {
+  return { x: b.x + b.width / 2, y: b.y + b.height / 2 };
+}
+
+/**
+ * Сходство узла с сохранёнными атрибутами, 0..1. Учитываются только атрибуты,
+ * которые были у элемента; отсутствующий теперь атрибут считается несовпавшим.
+ */
+export function fingerprintSimilarity(fp: ElementFingerprint, node: UiNode, viewport: Bounds | null): number {
+  let total = TAG_WEIGHT;
+  let score = fp.tag === node.tag ? TAG_WEIGHT : 0;
+  for (const [name, expected] of Object.entries(fp.attributes)) {
+    const weight = WEIGHTS[name] ?? 1;
+    total += weight;
+    const actual = node.attributes[name];
+    if (actual) score += weight * textSimilarity(expected, actual);
+  }
+  if (fp.bounds && node.bounds && viewport) {
+    total += BOUNDS_WEIGHT;
+    const a = center(fp.bounds);
+    const b = center(node.bounds);
+    const diagonal = Math.hypot(viewport.width, viewport.height) || 1;
+    score += BOUNDS_WEIGHT * Math.max(0, 1 - (2 * Math.hypot(a.x - b.x, a.y - b.y)) / diagonal);
+  }
+  return score / total;
+}
+
+export interface HealingCandidate {
+  node: UiNode;
+  score: number;
+}
+
+/** Самый похожий отображаемый узел, если его сходство не ниже threshold. */
+export function findHealingCandidate(
+  source: PageSource,
+  fp: ElementFingerprint,
+  threshold: number
+): HealingCandidate | null {
+  const nodes = source.nodes();
+  const viewport = nodes.find((n) => n.bounds)?.bounds ?? null;
+  let best: HealingCandidate | null = null;
+  for (const node of nodes) {
+    if (!isNodeDisplayed(node)) continue;
+    const score = fingerprintSimilarity(fp, node, viewport);
+    if (score >= threshold && (!best || score > best.score)) best = { node, score };
+  }
+  return best;
+}
+
+function xpathLiteral(s: string): string {
+  if (!s.includes("'")) return `'${s}'`;
+  if (!s.includes('"')) return `"${s}"`;
+  return `concat(${s
+    .split("'")
+    .map((p) => `'${p}'`)
+    .join(`, "'", `)})`;
+}
+
+/**
+ * Локатор, который находит узел в снимке первым: id / accessibility id / текст,
+ * а если они неуникальны — XPath по всем атрибутам (при необходимости с номером).
+ */
+export function healingLocator(source: PageSource, node: UiNode): Locator {
+  const a = node.attributes;
+  const options: Locator[] = [];
+  if (source.platform === Platform.ANDROID) {
+    if (a["resource-id"]) options.push({ using: "id", value: a["resource-id"] });
+    if (a["content-desc"]) options.push(PageElement.AccessibilityId(a["content-desc"]));
+    if (a.text) options.push(PageElement.Text(a.text));
+  } else {
+    if (a.name) options.push(PageElement.AccessibilityId(a.name));
+    if (a.label) options.push(predicate().label.eq(a.label).toLocator());
+  }
+  for (const locator of options) {
+    const found = source.query(locator);
+    if (found.length === 1 && found[0] === node) return locator;
+  }
+
+  const conditions = Object.entries(fingerprintOf(node).attributes).map(([k, v]) => `@${k}=${xpathLiteral(v)}`);
+  const xpath = `//${node.tag}${conditions.length ? `[${conditions.join(" and ")}]` : ""}`;
+  const position = source.query(xpath).indexOf(node) + 1;
+  return PageElement.XPath(position > 1 ? `(${xpath})[${position}]` : xpath);
+}
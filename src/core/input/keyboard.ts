@@ -0,0 +1,67 @@
+import { predicate } from "../locators/ios-predicate";
+import type { Locator } from "../locators/page-element";
+
+/** Опции ввода текста; остальные поля опций — поиск элемента, как у click. */
+export interface TypingOptions {
+  /** Пароль, код из SMS и т.п.: в логах и шагах отчёта текст заменяется маской. */
+  secret?: boolean;
+  /** Пауза между символами (мс): ввод по одному символу для полей с маской и автодополнением. */
+  delay?: number;
+}
+
+export const SECRET_MASK = "••••••";
+
+/** Текст для логов и отчёта: секретный — маской, без подсказки о длине. */
+export function displayText(text: string, secret?: boolean): string {
+  return secret ? SECRET_MASK : JSON.stringify(text);
+}
+
+/**
+ * Аргументы вызова для заголовка шага: если среди них опции с secret: true,
+ * все строки заменяются маской — вызов вида typeText(el, "пароль", { secret: true }).
+ */
+export function maskSecretArgs(args: readonly unknown[]): unknown[] {
+  const secret = args.some((a) => typeof a === "object" && a !== null && (a as TypingOptions).secret === true);
+  return secret ? args.map((a) => (typeof a === "string" ? SECRET_MASK : a)) : [...args];
+}
+
+/** Действие клавиши Enter на клавиатуре (IME action). */
+export type ImeAction = "done" | "go" | "next" | "previous" | "search" | "send";
+
+/** Подписи клавиши Return на клавиатуре iOS (английская и русская раскладки). */
+const IOS_RETURN_KEY: Record<ImeAction, string[]> = {
+  done: ["Done", "Готово"],
+  go: ["Go", "Перейти", "Открыть"],
+  next: ["Next", "Далее"],
+  previous: ["Previous", "Назад"],
+  search: ["Search", "Поиск", "Найти"],
+  send: ["Send", "Отправить"],
+};
+
+/** Кнопки, которыми iOS закрывает клавиатуру (mobile: hideKeyboard). */
+export const IOS_HIDE_KEYBOARD_KEYS = ["Done", "Готово", "Return", "return"];
+
+function checkImeAction(action: ImeAction) {
+  if (!Object.prototype.hasOwnProperty.call(IOS_RETURN_KEY, action)) {
+    throw new Error(`IME action '${action}' не поддерживается, ожидалось: ${Object.keys(IOS_RETURN_KEY).join(", ")}`);
+  }
+}
+
+/** Android: mobile: performEditorAction. */
+export function imeActionCommand(action: ImeAction): { script: string; args: Record<string, unknown> } {
+  checkImeAction(action);
+  return { script: "mobile: performEditorAction", args: { action } };
+}
+
+/** iOS: кнопка Return с подписью действия на открытой клавиатуре. */
+export function iosReturnKeyLocator(action: ImeAction): Locator {
+  checkImeAction(action);
+  const p = predicate();
+  return p.all(p.type.eq("XCUIElementTypeButton"), p.name.in(IOS_RETURN_KEY[action])).toLocator();
+}
+
+/** Android-коды клавиш для mobile: pressKey. */
+export const ANDROID_KEYCODE = {
+  DEL: 67,
+  MOVE_END: 123,
+} as const;
@@ -1,3 +1,5 @@
+import { waitUntil, WaitTimeoutError } from "../wait/wait-until";
+
 /**
  * Обёртка для системных алертов (native/web) в WebdriverIO/Appium.
  *
@@ -10,83 +12,60 @@ export class AlertHandler {
   constructor(
     private readonly driver: WebdriverIO.Browser,
     private readonly timeoutExpectation: number,
-    private readonly pollingInterval: number
+    private readonly pollingInterval: number,
+    private readonly signal?: AbortSignal
   ) {
   }
 
-  private timeoutMs() {
-    return Math.max(0, this.timeoutExpectation * 1000);
+  /** Повторяем действие с алертом, пока драйвер не перестанет отвечать ошибкой. */
+  private async retry(action: string, body: () => Promise<unknown>): Promise<void> {
+    await waitUntil(
+      async () => {
+        await body();
+        return true;
+      },
+      {
+        timeout: Math.max(0, this.timeoutExpectation),
+        interval: this.pollingInterval,
+        signal: this.signal,
+        message: `Алерт: ${action}`,
+      }
+    );
   }
 
   /** Ожидаем появление алерта (true/false). */
   async isAlertPresent(): Promise<boolean> {
     try {
-      await this.driver.waitUntil(
-        async () => {
-          try {
-            // WebdriverIO v9: isAlertOpen() есть не всегда в типах — используем getAlertText() как пробник
-            // @ts-ignore
-            if (typeof this.driver.isAlertOpen === "function") {
-              // @ts-ignore
-              return !!(await this.driver.isAlertOpen());
-            }
-            await this.driver.getAlertText();
-            return true;
-          } catch {
-            return false;
-          }
-        },
-        { timeout: this.timeoutMs(), interval: this.pollingInterval }
-      );
+      await this.retry("ожидание появления", async () => {
+        // WebdriverIO v9: isAlertOpen() есть не всегда в типах — используем getAlertText() как пробник
+        // @ts-ignore
+        if (typeof this.driver.isAlertOpen === "function") {
+          // @ts-ignore
+          if (!(await this.driver.isAlertOpen())) throw new Error("алерта нет");
+          return;
+        }
+        await this.driver.getAlertText();
+      });
       return true;
-    } catch {
-      return false;
+    } catch (e) {
+      if (e instanceof WaitTimeoutError) return false;
+      throw e;
     }
   }
 
   /** Accept текущего алерта. */
   async accept(): Promise<void> {
-    await this.driver.waitUntil(
-      async () => {
-        try {
-          await this.driver.acceptAlert();
-          return true;
-        } catch {
-          return false;
-        }
-      },
-      { timeout: this.timeoutMs(), interval: this.pollingInterval }
-    );
+    await this.retry("accept", () => this.driver.acceptAlert());
   }
 
   /** Dismiss текущего алерта. */
   async dismiss(): Promise<void> {
-    await this.driver.waitUntil(
-      async () => {
-        try {
-          await this.driver.dismissAlert();
-          return true;
-        } catch {
-          return false;
-        }
-      },
-      { timeout: this.timeoutMs(), interval: this.pollingInterval }
-    );
+    await this.retry("dismiss", () => this.driver.dismissAlert());
   }
 
   /** Текст алерта. */
   async getText(): Promise<string> {
-    await this.driver.waitUntil(
-      async () => {
-        try {
-          await this.driver.getAlertText();
-          return true;
-        } catch {
-          return false;
-        }
-      },
-      { timeout: this.timeoutMs(), interval: this.pollingInterval }
-    );
+    await this.retry("получение текста", () => this.driver.getAlertText());
     return this.driver.getAlertText();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,30 @@
+import { ElementRepositoryError, writeRepositoryTypings } from "./element-repository";
+
+/**
+ * Генерация типизации репозитория элементов:
+ *
+ *   npm run locators:types -- locators --out tests/e2e/page-repository.ts [--type PageRepository]
+ */
+function main(argv: string[]): number {
+  const paths: string[] = [];
+  let outFile: string | undefined;
+  let typeName: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--out") outFile = argv[++i];
+    else if (argv[i] === "--type") typeName = argv[++i];
+    else paths.push(argv[i]);
+  }
+  if (!paths.length || !outFile) {
+    console.error("Использование: locators:types <файлы или каталоги...> --out <файл.ts> [--type <Имя>]");
+    return 2;
+  }
+  try {
+    writeRepositoryTypings(paths, outFile, { typeName });
+    return 0;
+  } catch (e) {
+    console.error(e instanceof ElementRepositoryError ? e.message : `[ElementRepository] ${(e as Error).message}`);
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,354 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { detectFormat, parseYaml } from "../../config/config-formats";
+import { suggest } from "../string-similarity";
+import { type Locator, PageElement } from "./page-element";
+
+/**
+ * Репозиторий элементов: экран → элемент → PageElement.
+ * Тип конкретного репозитория генерируется из файлов (см. generateRepositoryTypings).
+ */
+export type ElementRepository = Record<string, Record<string, PageElement>>;
+
+/** Виды локаторов в файлах репозитория — те же, что статические фабрики PageElement. */
+const LOCATOR_KINDS: Record<string, (value: string) => Locator> = {
+  Id: PageElement.Id,
+  ResourceId: PageElement.ResourceId,
+  Text: PageElement.Text,
+  Contains: PageElement.Contains,
+  ExactMatch: PageElement.ExactMatch,
+  ContentDesc: PageElement.ContentDesc,
+  XPath: PageElement.XPath,
+  Value: PageElement.Value,
+  Name: PageElement.Name,
+  Label: PageElement.Label,
+  AccessibilityId: PageElement.AccessibilityId,
+  AndroidUIAutomator: PageElement.AndroidUIAutomator,
+  IOSClassChain: PageElement.IOSClassChain,
+  IOSPredicateString: PageElement.IOSPredicateString,
+};
+
+/** Нативные стратегии, которых нет на другой платформе. */
+const PLATFORM_ONLY_KINDS: Record<string, "android" | "ios"> = {
+  AndroidUIAutomator: "android",
+  IOSClassChain: "ios",
+  IOSPredicateString: "ios",
+};
+
+const PLATFORMS = ["android", "ios"] as const;
+type RepositoryPlatform = (typeof PLATFORMS)[number];
+
+/** Ошибки всех файлов репозитория разом. */
+export class ElementRepositoryError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Некорректный репозиторий элементов (${errors.length}):\n${errors.map((e) => ` - ${e}`).join("\n")}`);
+    this.name = "ElementRepositoryError";
+  }
+}
+
+interface ElementDefinition {
+  screen: string;
+  element: string;
+  source: string;
+  locators: Record<RepositoryPlatform, Locator[] | null>;
+}
+
+export interface LoadRepositoryOptions {
+  /** Куда писать предупреждения (одинаковые локаторы у разных элементов). По умолчанию console.warn. */
+  warn?: (message: string) => void;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unknownKey(key: string, allowed: readonly string[]): string {
+  const hint = suggest(key, allowed);
+  return hint ? ` — возможно, '${hint}'?` : "";
+}
+
+function parseLocator(spec: unknown, where: string, platform: RepositoryPlatform, errors: string[]): Locator | null {
+  if (typeof spec === "string") {
+    if (!spec.trim()) errors.push(`${where}: пустой локатор`);
+    return spec;
+  }
+  if (!isPlainObject(spec)) {
+    errors.push(`${where}: ожидалась строка или объект { Вид: значение }, получено ${JSON.stringify(spec)}`);
+    return null;
+  }
+  const keys = Object.keys(spec);
+  if (keys.length === 2 && keys.includes("using") && keys.includes("value")) {
+    if (typeof spec.using !== "string" || typeof spec.value !== "string" || !spec.value) {
+      errors.push(`${where}: using и value должны быть непустыми строками`);
+      return null;
+    }
+    return { using: spec.using, value: spec.value };
+  }
+  if (keys.length !== 1) {
+    errors.push(`${where}: ожидался ровно один вид локатора, получено ${keys.length ? keys.join(", ") : "ничего"}`);
+    return null;
+  }
+  const [kind] = keys;
+  const value = spec[kind];
+  const factory = LOCATOR_KINDS[kind];
+  if (!factory) {
+    errors.push(`${where}: неизвестный вид локатора '${kind}'${unknownKey(kind, Object.keys(LOCATOR_KINDS))}`);
+    return null;
+  }
+  const only = PLATFORM_ONLY_KINDS[kind];
+  if (only && only !== platform) {
+    errors.push(`${where}: ${kind} не поддерживается на ${platform}`);
+    return null;
+  }
+  if (typeof value !== "string" || !value) {
+    errors.push(`${where}: значение ${kind} должно быть непустой строкой`);
+    return null;
+  }
+  return factory(value);
+}
+
+function parsePlatform(
+  spec: unknown,
+  where: string,
+  platform: RepositoryPlatform,
+  errors: string[]
+): Locator[] | null {
+  if (spec === null || spec === undefined) return null;
+  const specs = Array.isArray(spec) ? spec : [spec];
+  if (!specs.length) {
+    errors.push(`${where}: пустой список локаторов`);
+    return null;
+  }
+  const locators = specs.map((s, i) => parseLocator(s, Array.isArray(spec) ? `${where}[${i}]` : where, platform, errors));
+  return locators.every((l) => l !== null) ? (locators as Locator[]) : null;
+}
+
+/** Разбор одного документа (уже прочитанного JSON/YAML) в определения элементов. */
+function parseDocument(doc: unknown, source: string, errors: string[]): ElementDefinition[] {
+  if (!isPlainObject(doc)) {
+    errors.push(`${source}: ожидалось отображение «экран → элементы»`);
+    return [];
+  }
+  const out: ElementDefinition[] = [];
+  for (const [screen, elements] of Object.entries(doc)) {
+    if (!isPlainObject(elements)) {
+      errors.push(`${source}: ${screen}: ожидалось отображение «элемент → локаторы»`);
+      continue;
+    }
+    for (const [element, spec] of Object.entries(elements)) {
+      const where = `${source}: ${screen}.${element}`;
+      if (!isPlainObject(spec)) {
+        errors.push(`${where}: ожидался объект { android, ios }`);
+        continue;
+      }
+      const before = errors.length;
+      for (const key of Object.keys(spec)) {
+        if (!(PLATFORMS as readonly string[]).includes(key)) {
+          errors.push(`${where}: неизвестная платформа '${key}'${unknownKey(key, PLATFORMS)}`);
+        }
+      }
+      const locators = {
+        android: parsePlatform(spec.android, `${where}.android`, "android", errors),
+        ios: parsePlatform(spec.ios, `${where}.ios`, "ios", errors),
+      };
+      if (errors.length > before) continue;
+      if (!locators.android && !locators.ios) {
+        errors.push(`${where}: не задан локатор ни для одной платформы`);
+        continue;
+      }
+      out.push({ screen, element, source, locators });
+    }
+  }
+  return out;
+}
+
+/** Повторные определения элемента — ошибка, одинаковые локаторы у разных элементов экрана — предупреждение. */
+function checkDuplicates(defs: ElementDefinition[], errors: string[], warn: (message: string) => void) {
+  const seen = new Map<string, ElementDefinition>();
+  const byLocator = new Map<string, ElementDefinition>();
+  for (const def of defs) {
+    const id = `${def.screen}.${def.element}`;
+    const prev = seen.get(id);
+    if (prev) {
+      errors.push(`${id}: элемент определён повторно (${prev.source} и ${def.source})`);
+      continue;
+    }
+    seen.set(id, def);
+
+    for (const platform of PLATFORMS) {
+      const locators = def.locators[platform];
+      if (!locators) continue;
+      const key = `${def.screen}\u0000${platform}\u0000${JSON.stringify(locators)}`;
+      const same = byLocator.get(key);
+      if (same) {
+        warn(`[ElementRepository] ${def.screen}: у '${same.element}' и '${def.element}' одинаковые локаторы ${platform}`);
+      } else {
+        byLocator.set(key, def);
+      }
+    }
+  }
+}
+
+function toPageElement({ locators }: ElementDefinition): PageElement {
+  const single = (list: Locator[] | null) => (list?.length === 1 ? list[0] : null);
+  const multi = (list: Locator[] | null) => (list && list.length > 1 ? list : null);
+  return new PageElement({
+    android: single(locators.android),
+    androidList: multi(locators.android),
+    ios: single(locators.ios),
+    iosList: multi(locators.ios),
+  });
+}
+
+function build<T extends ElementRepository>(
+  docs: Array<{ doc: unknown; source: string }>,
+  options: LoadRepositoryOptions,
+  errors: string[] = []
+): T {
+  const defs = docs.flatMap(({ doc, source }) => parseDocument(doc, source, errors));
+  checkDuplicates(defs, errors, options.warn ?? ((m) => console.warn(m)));
+  if (errors.length) throw new ElementRepositoryError(errors);
+
+  const repo: ElementRepository = {};
+  for (const def of defs) {
+    (repo[def.screen] ??= {})[def.element] = toPageElement(def);
+  }
+  for (const screen of Object.values(repo)) Object.freeze(screen);
+  return Object.freeze(repo) as T;
+}
+
+/** Файлы репозитория: переданные файлы и *.json / *.yaml / *.yml из переданных каталогов (рекурсивно). */
+export function resolveRepositoryFiles(paths: string | readonly string[]): string[] {
+  const out: string[] = [];
+  const visit = (p: string) => {
+    if (fs.statSync(p).isDirectory()) {
+      for (const entry of fs.readdirSync(p).sort()) {
+        const full = path.join(p, entry);
+        if (fs.statSync(full).isDirectory() || /\.(json|ya?ml)$/i.test(entry)) visit(full);
+      }
+    } else {
+      out.push(p);
+    }
+  };
+  for (const p of typeof paths === "string" ? [paths] : paths) {
+    if (!fs.existsSync(p)) throw new Error(`Файл или каталог репозитория элементов не найден: ${p}`);
+    visit(p);
+  }
+  return out;
+}
+
+function readRepositoryFile(file: string, errors: string[]): unknown {
+  const format = detectFormat(file);
+  try {
+    const text = fs.readFileSync(file, "utf8");
+    if (format === "json") return JSON.parse(text);
+    if (format === "yaml") return parseYaml(text);
+    errors.push(`${file}: неподдерживаемый формат — ожидался .json, .yaml или .yml`);
+  } catch (e) {
+    errors.push(`${file}: не удалось разобрать файл: ${(e as Error).message}`);
+  }
+  return undefined;
+}
+
+/**
+ * Загружает PageElement из файлов репозитория (JSON/YAML):
+ *
+ *   # locators/login.yaml
+ *   Login:
+ *     submit:
+ *       android: { Id: login_button }
+ *       ios: { AccessibilityId: login }
+ *     header:
+ *       android: [{ Text: Вход }, { XPath: "//*[@text='Войти']" }]
+ *       ios: { Label: Вход }
+ *
+ *   const repo = loadElementRepository<PageRepository>("locators");
+ *   await mobileTest.click(repo.Login.submit);
+ *
+ * Локатор — { Вид: значение } с видами фабрик PageElement, строка-селектор WDIO
+ * или { using, value }; список — запасные локаторы. Экран можно разнести по нескольким файлам,
+ * но каждый элемент определяется один раз. Ошибки всех файлов сообщаются разом (ElementRepositoryError).
+ */
+export function loadElementRepository<T extends ElementRepository = ElementRepository>(
+  paths: string | readonly string[],
+  options: LoadRepositoryOptions = {}
+): T {
+  const errors: string[] = [];
+  const docs = resolveRepositoryFiles(paths).map((file) => ({ doc: readRepositoryFile(file, errors), source: file }));
+  return build<T>(
+    docs.filter(({ doc }) => doc !== undefined),
+    options,
+    errors
+  );
+}
+
+/** Репозиторий из уже разобранного объекта (например, собранного в коде или прочитанного иначе). */
+export function elementRepositoryFromObject<T extends ElementRepository = ElementRepository>(
+  doc: unknown,
+  source = "<object>",
+  options: LoadRepositoryOptions = {}
+): T {
+  return build<T>([{ doc, source }], options);
+}
+
+// -------------------------------------------------------------
+// Типизация
+// -------------------------------------------------------------
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+export interface RepositoryTypingsOptions {
+  /** Имя генерируемого интерфейса. По умолчанию PageRepository. */
+  typeName?: string;
+  /** Откуда импортировать PageElement. По умолчанию — путь к page-element в этой библиотеке. */
+  importPath?: string;
+}
+
+/** Исходный текст .ts с интерфейсом репозитория: repo.Login.submit проверяется компилятором. */
+export function generateRepositoryTypings(repo: ElementRepository, options: RepositoryTypingsOptions = {}): string {
+  const typeName = options.typeName ?? "PageRepository";
+  const importPath = options.importPath ?? "./page-element";
+  const lines = [
+    "// Сгенерировано из файлов репозитория элементов — не редактируйте вручную.",
+    `import type { PageElement } from ${JSON.stringify(importPath)};`,
+    "",
+    `export interface ${typeName} {`,
+  ];
+  for (const screen of Object.keys(repo).sort()) {
+    lines.push(`  readonly ${propertyName(screen)}: {`);
+    for (const element of Object.keys(repo[screen]).sort()) {
+      lines.push(`    readonly ${propertyName(element)}: PageElement;`);
+    }
+    lines.push("  };");
+  }
+  lines.push("}", "");
+  return lines.join("\n");
+}
+
+/**
+ * Загружает репозиторий и пишет типизацию в outFile. Путь импорта PageElement
+ * по умолчанию вычисляется относительно outFile.
+ */
+export function writeRepositoryTypings(
+  paths: string | readonly string[],
+  outFile: string,
+  options: RepositoryTypingsOptions & LoadRepositoryOptions = {}
+): string {
+  const repo = loadElementRepository(paths, options);
+  let importPath = options.importPath;
+  if (!importPath) {
+    const pageElement = fileURLToPath(new URL("./page-element", import.meta.url));
+    importPath = path.relative(path.dirname(path.resolve(outFile)), pageElement).split(path.sep).join("/");
+    if (!importPath.startsWith(".")) importPath = `./${importPath}`;
+  }
+  const source = generateRepositoryTypings(repo, { ...options, importPath });
+  fs.mkdirSync(path.dirname(path.resolve(outFile)), { recursive: true });
+  fs.writeFileSync(outFile, source, "utf8");
+  console.info(`[ElementRepository] Типизация записана: ${outFile}`);
+  return source;
+}
@@ -0,0 +1,87 @@
+import { type Locator, PageElement } from "./page-element";
+import type { PredicateExpr, XCUIElementTypeName } from "./ios-predicate";
+
+interface Segment {
+  descendant: boolean;
+  type: string;
+  filters: string[];
+}
+
+function predicateFilter(expr: PredicateExpr | string, delimiter: "`" | "$"): string {
+  const src = String(expr);
+  // в class chain нет экранирования для разделителя внутри условия
+  if (src.includes(delimiter)) {
+    throw new Error(`classChain: условие не может содержать ${delimiter}: ${src}`);
+  }
+  return `${delimiter}${src}${delimiter}`;
+}
+
+/**
+ * Построитель iOS class chain:
+ *
+ *   classChain()
+ *     .descendant("XCUIElementTypeCell").where(predicate().name.eq("order"))
+ *     .child("XCUIElementTypeButton").index(-1)
+ *     .toLocator()
+ *   // value: двойная звёздочка, затем /XCUIElementTypeCell[`name == "order"`]/XCUIElementTypeButton[-1]
+ *
+ * Экземпляры неизменяемы. Номера в index — с 1, отрицательные считаются с конца.
+ */
+export class ClassChain {
+  private constructor(private readonly segments: readonly Segment[]) {
+  }
+
+  static create(): ClassChain {
+    return new ClassChain([]);
+  }
+
+  private push(descendant: boolean, type: XCUIElementTypeName | "*"): ClassChain {
+    return new ClassChain([...this.segments, { descendant, type, filters: [] }]);
+  }
+
+  private filter(method: string, filter: string): ClassChain {
+    const last = this.segments.at(-1);
+    if (!last) throw new Error(`classChain: ${method}() вызван до child()/descendant()`);
+    return new ClassChain([...this.segments.slice(0, -1), { ...last, filters: [...last.filters, filter] }]);
+  }
+
+  /** Прямой потомок указанного типа. */
+  child(type: XCUIElementTypeName | "*" = "*"): ClassChain {
+    return this.push(false, type);
+  }
+
+  /** Потомок на любой глубине. */
+  descendant(type: XCUIElementTypeName | "*" = "*"): ClassChain {
+    return this.push(true, type);
+  }
+
+  /** Условие на сам элемент. */
+  where(expr: PredicateExpr | string): ClassChain {
+    return this.filter("where", predicateFilter(expr, "`"));
+  }
+
+  /** Условие на потомка элемента: элемент подходит, если внутри есть такой потомок. */
+  withDescendant(expr: PredicateExpr | string): ClassChain {
+    return this.filter("withDescendant", predicateFilter(expr, "$"));
+  }
+
+  index(n: number): ClassChain {
+    if (!Number.isInteger(n) || n === 0) throw new Error(`classChain: index(${n}) — ожидалось ненулевое целое число`);
+    return this.filter("index", `[${n}]`);
+  }
+
+  toString(): string {
+    if (!this.segments.length) throw new Error("classChain: пустая цепочка");
+    return this.segments
+      .map((s) => `${s.descendant ? "**/" : ""}${s.type}${s.filters.map((f) => (f.startsWith("[") ? f : `[${f}]`)).join("")}`)
+      .join("/");
+  }
+
+  toLocator(): Locator {
+    return PageElement.IOSClassChain(this.toString());
+  }
+}
+
+export function classChain(): ClassChain {
+  return ClassChain.create();
+}
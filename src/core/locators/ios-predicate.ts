@@ -0,0 +1,159 @@
+import { type Locator, PageElement } from "./page-element";
+
+/** Имя типа элемента XCUITest: XCUIElementTypeButton, XCUIElementTypeCell, ... */
+export type XCUIElementTypeName = `XCUIElementType${string}`;
+
+/** Модификаторы сравнения строк: [c] — без учёта регистра, [d] — без учёта диакритики. */
+export interface StringMatchOptions {
+  ignoreCase?: boolean;
+  ignoreDiacritics?: boolean;
+}
+
+/** Строковый литерал NSPredicate: кавычки и обратная косая черта экранируются. */
+export function predicateString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function modifiers(options: StringMatchOptions = {}): string {
+  const m = (options.ignoreCase ? "c" : "") + (options.ignoreDiacritics ? "d" : "");
+  return m ? `[${m}]` : "";
+}
+
+type ExprKind = "atom" | "and" | "or" | "not";
+
+/**
+ * Готовое условие predicate string. Условия неизменяемы и объединяются через and/or/not,
+ * скобки расставляются автоматически.
+ */
+export class PredicateExpr {
+  constructor(
+    private readonly src: string,
+    private readonly kind: ExprKind = "atom"
+  ) {
+  }
+
+  private static join(op: "AND" | "OR", items: PredicateExpr[]): PredicateExpr {
+    const kind = op === "AND" ? "and" : "or";
+    const parts = items.map((e) => (e.kind === "atom" || e.kind === "not" || e.kind === kind ? e.src : `(${e.src})`));
+    return new PredicateExpr(parts.join(` ${op} `), kind);
+  }
+
+  and(...others: PredicateExpr[]): PredicateExpr {
+    return PredicateExpr.join("AND", [this, ...others]);
+  }
+
+  or(...others: PredicateExpr[]): PredicateExpr {
+    return PredicateExpr.join("OR", [this, ...others]);
+  }
+
+  not(): PredicateExpr {
+    return new PredicateExpr(this.kind === "atom" ? `NOT ${this.src}` : `NOT (${this.src})`, "not");
+  }
+
+  toString(): string {
+    return this.src;
+  }
+
+  toLocator(): Locator {
+    return PageElement.IOSPredicateString(this.src);
+  }
+}
+
+/** Строковый атрибут элемента: label, name, value, type, ... */
+export class StringAttribute<T extends string = string> {
+  constructor(readonly name: string) {
+  }
+
+  private compare(op: string, value: string, options?: StringMatchOptions): PredicateExpr {
+    if (typeof value !== "string") throw new Error(`predicate: ${this.name} ${op} — ожидалась строка`);
+    return new PredicateExpr(`${this.name} ${op}${modifiers(options)} ${predicateString(value)}`);
+  }
+
+  eq(value: T, options?: StringMatchOptions) {
+    return this.compare("==", value, options);
+  }
+  ne(value: T, options?: StringMatchOptions) {
+    return this.compare("!=", value, options);
+  }
+  beginsWith(value: string, options?: StringMatchOptions) {
+    return this.compare("BEGINSWITH", value, options);
+  }
+  endsWith(value: string, options?: StringMatchOptions) {
+    return this.compare("ENDSWITH", value, options);
+  }
+  contains(value: string, options?: StringMatchOptions) {
+    return this.compare("CONTAINS", value, options);
+  }
+  /** Шаблон LIKE: * — любые символы, ? — один символ. */
+  like(pattern: string, options?: StringMatchOptions) {
+    return this.compare("LIKE", pattern, options);
+  }
+  /** Регулярное выражение ICU на всю строку; флаги RegExp, кроме i, не переносятся. */
+  matches(pattern: string | RegExp, options?: StringMatchOptions) {
+    if (pattern instanceof RegExp) {
+      if (pattern.flags.replace("i", "")) {
+        throw new Error(`predicate: ${this.name} MATCHES — флаги RegExp (${pattern.flags}) не поддерживаются`);
+      }
+      return this.compare("MATCHES", pattern.source, { ...options, ignoreCase: options?.ignoreCase || pattern.flags.includes("i") });
+    }
+    return this.compare("MATCHES", pattern, options);
+  }
+  in(values: readonly T[]) {
+    if (!values.length) throw new Error(`predicate: ${this.name} IN — пустой список`);
+    return new PredicateExpr(`${this.name} IN {${values.map(predicateString).join(", ")}}`);
+  }
+}
+
+/** Логический атрибут элемента: enabled, visible, ... */
+export class BooleanAttribute {
+  constructor(readonly name: string) {
+  }
+
+  is(value = true): PredicateExpr {
+    return new PredicateExpr(`${this.name} == ${value ? "true" : "false"}`);
+  }
+}
+
+/**
+ * Построитель iOS predicate string без ручного экранирования:
+ *
+ *   const { label, type } = predicate();
+ *   label.beginsWith("Купить").and(type.eq("XCUIElementTypeButton")).toLocator()
+ *   // { using: "-ios predicate string", value: 'label BEGINSWITH "Купить" AND type == "XCUIElementTypeButton"' }
+ */
+export class PredicateBuilder {
+  readonly name = new StringAttribute("name");
+  readonly label = new StringAttribute("label");
+  readonly value = new StringAttribute("value");
+  readonly placeholderValue = new StringAttribute("placeholderValue");
+  readonly type = new StringAttribute<XCUIElementTypeName>("type");
+
+  readonly enabled = new BooleanAttribute("enabled");
+  readonly visible = new BooleanAttribute("visible");
+  readonly accessible = new BooleanAttribute("accessible");
+  readonly selected = new BooleanAttribute("selected");
+  readonly hittable = new BooleanAttribute("hittable");
+  readonly focused = new BooleanAttribute("focused");
+
+  /** Атрибут, которого нет среди свойств построителя. */
+  attribute(name: string): StringAttribute {
+    if (!/^[A-Za-z_][\w.]*$/.test(name)) throw new Error(`predicate: некорректное имя атрибута '${name}'`);
+    return new StringAttribute(name);
+  }
+
+  all(first: PredicateExpr, ...rest: PredicateExpr[]): PredicateExpr {
+    return first.and(...rest);
+  }
+
+  any(first: PredicateExpr, ...rest: PredicateExpr[]): PredicateExpr {
+    return first.or(...rest);
+  }
+
+  not(expr: PredicateExpr): PredicateExpr {
+    return expr.not();
+  }
+}
+
+export function predicate(): PredicateBuilder {
+  return new PredicateBuilder();
+}
@@ -0,0 +1,67 @@
+import * as fs from "node:fs";
+import { PageSource } from "../page-source/page-source";
+import { Platform } from "../platform";
+import { ElementRepositoryError } from "./element-repository";
+import { formatLintFindings, type LintRule, lintLocators, type LocatorLintOptions } from "./locator-lint";
+
+const USAGE =
+  "Использование: locators:lint <файлы или каталоги...> [--page-source <снимок.xml>]... [--platform android|ios]...\n" +
+  "  [--disable <правило>]... [--min-contains <N>] [--not-localized] [--strict]";
+
+const RULES: LintRule[] = ["absolute-xpath", "positional-index", "text-only", "short-contains", "missing-platform"];
+
+/**
+ * Проверка локаторов page object'ов и репозиториев элементов:
+ *
+ *   npm run locators:lint -- tests/e2e/screens locators --page-source fixtures/login.xml
+ *
+ * Код выхода 1 — есть ошибки (с --strict — и предупреждения).
+ */
+async function main(argv: string[]): Promise<number> {
+  const paths: string[] = [];
+  const options: LocatorLintOptions & { pageSources: PageSource[]; platforms: Platform[]; disable: LintRule[] } = {
+    pageSources: [],
+    platforms: [],
+    disable: [],
+  };
+  let strict = false;
+  try {
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === "--page-source") options.pageSources.push(PageSource.parse(fs.readFileSync(argv[++i], "utf8")));
+      else if (arg === "--platform") {
+        const platform = argv[++i]?.toUpperCase() as Platform;
+        if (!Object.values(Platform).includes(platform)) throw new Error(`неизвестная платформа '${platform}'`);
+        options.platforms.push(platform);
+      } else if (arg === "--disable") {
+        const rule = argv[++i] as LintRule;
+        if (!RULES.includes(rule)) throw new Error(`неизвестное правило '${rule}', доступны: ${RULES.join(", ")}`);
+        options.disable.push(rule);
+      } else if (arg === "--min-contains") {
+        options.minContainsLength = Number(argv[++i]);
+        if (!Number.isInteger(options.minContainsLength)) throw new Error("--min-contains: ожидалось целое число");
+      } else if (arg === "--not-localized") options.localized = false;
+      else if (arg === "--strict") strict = true;
+      else paths.push(arg);
+    }
+  } catch (e) {
+    console.error(`[LocatorLint] ${(e as Error).message}\n${USAGE}`);
+    return 2;
+  }
+  if (!paths.length) {
+    console.error(USAGE);
+    return 2;
+  }
+  if (!options.platforms.length) options.platforms = [Platform.ANDROID, Platform.IOS];
+
+  try {
+    const findings = await lintLocators(paths, options);
+    console.log(formatLintFindings(findings));
+    return findings.some((f) => f.severity === "error" || strict) ? 1 : 0;
+  } catch (e) {
+    console.error(e instanceof ElementRepositoryError ? e.message : `[LocatorLint] ${(e as Error).message}`);
+    return 1;
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,348 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { normalizeLocator, type PageSource } from "../page-source/page-source";
+import { Platform } from "../platform";
+import { loadElementRepository } from "./element-repository";
+import { type Locator, PageElement } from "./page-element";
+
+export type LintRule = "absolute-xpath" | "positional-index" | "text-only" | "short-contains" | "missing-platform";
+export type LintSeverity = "error" | "warning";
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  /** Имя элемента: Экран.элемент. */
+  element: string;
+  /** Файл, где объявлен элемент (если известен). */
+  file?: string;
+  platform: Platform;
+  /** Описание локатора; для missing-platform — пусто. */
+  locator: string;
+  message: string;
+  /** Более устойчивый локатор из снимка экрана. */
+  suggestion?: Locator;
+}
+
+/** Элемент, который нужно проверить. */
+export interface LintTarget {
+  name: string;
+  element: PageElement;
+  file?: string;
+}
+
+export interface LocatorLintOptions {
+  /** Приложение локализовано: локаторы только по тексту ломаются при смене языка. По умолчанию true. */
+  localized?: boolean;
+  /** contains() на строке короче — слишком широкий поиск. По умолчанию 3. */
+  minContainsLength?: number;
+  /** Платформы, для которых у каждого элемента должен быть локатор. По умолчанию обе. */
+  platforms?: Platform[];
+  /** Снимки экранов, по которым предлагаются accessibility id. */
+  pageSources?: PageSource[];
+  /** Отключённые правила. */
+  disable?: LintRule[];
+}
+
+const SEVERITY: Record<LintRule, LintSeverity> = {
+  "absolute-xpath": "error",
+  "positional-index": "warning",
+  "text-only": "warning",
+  "short-contains": "warning",
+  "missing-platform": "warning",
+};
+
+/** Атрибуты с видимым текстом — меняются при локализации. */
+const TEXT_ATTRIBUTES = new Set(["text", "label", "value", "placeholderValue"]);
+/** Атрибуты-идентификаторы — с ними текстовое условие лишь уточняет поиск. */
+const ID_ATTRIBUTES = new Set(["resource-id", "id", "content-desc", "name", "identifier", "accessibilityIdentifier"]);
+
+interface Problem {
+  rule: LintRule;
+  message: string;
+}
+
+/** Условия predicate string внутри class chain. */
+function chainPredicates(value: string): string[] {
+  return [...value.matchAll(/`([^`]*)`|\$([^$]*)\$/g)].map((m) => m[1] ?? m[2]);
+}
+
+/** Атрибуты, по которым ищет локатор. */
+function attributesOf(using: string, value: string): string[] {
+  const predicateAttrs = (src: string) =>
+    [...src.matchAll(/\b([A-Za-z_]\w*)\s*(?:[=!<>]=?|<>|(?:CONTAINS|BEGINSWITH|ENDSWITH|LIKE|MATCHES|IN)\b)/gi)].map(
+      (m) => m[1].replace(/^wd([A-Z])/, (_s, c: string) => c.toLowerCase())
+    );
+  switch (using) {
+    case "xpath":
+      return [...value.matchAll(/@([\w:-]+)/g)].map((m) => m[1]);
+    case "-ios predicate string":
+      return predicateAttrs(value);
+    case "-ios class chain":
+      return chainPredicates(value).flatMap(predicateAttrs);
+    case "-android uiautomator":
+      return [...value.matchAll(/\.(text|description|resourceId)\w*\(/g)].map((m) =>
+        m[1] === "description" ? "content-desc" : m[1] === "resourceId" ? "resource-id" : "text"
+      );
+    default:
+      return [];
+  }
+}
+
+/** Строки внутри contains(): XPath contains(), CONTAINS в predicate, *Contains() в UiAutomator. */
+function containsLiterals(using: string, value: string): string[] {
+  const re =
+    using === "xpath"
+      ? /contains\(\s*[^,()]+,\s*(?:'([^']*)'|"([^"]*)")\s*\)/g
+      : using === "-android uiautomator"
+        ? /Contains\(\s*"((?:\\.|[^"\\])*)"\s*\)/g
+        : /\bCONTAINS(?:\[\w+\])?\s*(?:"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)')/gi;
+  return [...value.matchAll(re)].map((m) => (m[1] ?? m[2]).replace(/\\(.)/g, "$1"));
+}
+
+function checkLocator(locator: Locator, options: Required<Omit<LocatorLintOptions, "pageSources">>): Problem[] {
+  let using: string;
+  let value: string;
+  try {
+    ({ using, value } = normalizeLocator(locator));
+  } catch {
+    return [];
+  }
+  const problems: Problem[] = [];
+
+  const absolute = using === "xpath" && /^\(*\/(?!\/)/.test(value.trim());
+  if (absolute) {
+    problems.push({
+      rule: "absolute-xpath",
+      message: "абсолютный XPath от корня ломается при любом изменении вёрстки — ищите по id или accessibility id",
+    });
+  }
+
+  const positional =
+    using === "xpath"
+      ? /\[\s*\d+\s*\]|position\(\)|last\(\)/.test(value)
+      : using === "-ios class chain"
+        ? /\[-?\d+\]/.test(value.replace(/`[^`]*`|\$[^$]*\$/g, ""))
+        : using === "-android uiautomator" && /\.(instance|index)\(\s*\d+\s*\)/.test(value);
+  // у абсолютного XPath номера есть почти всегда — достаточно одного замечания
+  if (positional && !absolute) {
+    problems.push({
+      rule: "positional-index",
+      message: "номер элемента в локаторе зависит от порядка на экране — уточните условие или используйте nth() осознанно",
+    });
+  }
+
+  if (options.localized) {
+    const attrs = attributesOf(using, value);
+    if (attrs.some((a) => TEXT_ATTRIBUTES.has(a)) && !attrs.some((a) => ID_ATTRIBUTES.has(a))) {
+      problems.push({
+        rule: "text-only",
+        message: "локатор только по тексту перестанет находить элемент на другом языке",
+      });
+    }
+  }
+
+  for (const literal of containsLiterals(using, value)) {
+    if (literal.length < options.minContainsLength) {
+      problems.push({
+        rule: "short-contains",
+        message: `contains() по строке '${literal}' короче ${options.minContainsLength} символов находит случайные элементы`,
+      });
+      break;
+    }
+  }
+
+  return problems.filter((p) => !options.disable.includes(p.rule));
+}
+
+/** Уникальный accessibility id (или resource-id для Android) найденного в снимке узла. */
+function suggestLocator(source: PageSource, element: PageElement): Locator | null {
+  let node;
+  try {
+    node = source.find(element);
+  } catch {
+    return null;
+  }
+  if (!node) return null;
+  const a = node.attributes;
+  const options: Locator[] = [];
+  const accessibilityId = source.platform === Platform.ANDROID ? a["content-desc"] : a.name;
+  if (accessibilityId) options.push(PageElement.AccessibilityId(accessibilityId));
+  if (source.platform === Platform.ANDROID && a["resource-id"]) options.push({ using: "id", value: a["resource-id"] });
+  return (
+    options.find((locator) => {
+      const found = source.query(locator);
+      return found.length === 1 && found[0] === node;
+    }) ?? null
+  );
+}
+
+/** Замечания к локаторам одного элемента по всем платформам. */
+export function lintElement(target: LintTarget, options: LocatorLintOptions = {}): LintFinding[] {
+  const opts = {
+    localized: options.localized ?? true,
+    minContainsLength: options.minContainsLength ?? 3,
+    platforms: options.platforms ?? [Platform.ANDROID, Platform.IOS],
+    disable: options.disable ?? [],
+  };
+  const findings: LintFinding[] = [];
+  const base = { element: target.name, ...(target.file ? { file: target.file } : {}) };
+
+  for (const platform of opts.platforms) {
+    const locators = target.element.getAll(platform) ?? [];
+    if (!locators.length) {
+      const other = opts.platforms.find((p) => p !== platform && target.element.getAll(p)?.length);
+      if (other && !opts.disable.includes("missing-platform")) {
+        findings.push({
+          ...base,
+          rule: "missing-platform",
+          severity: SEVERITY["missing-platform"],
+          platform,
+          locator: "",
+          message: `есть локатор для ${other}, но нет для ${platform}`,
+        });
+      }
+      continue;
+    }
+
+    const source = options.pageSources?.find((s) => s.platform === platform);
+    let suggestion: Locator | null | undefined;
+    for (const locator of locators) {
+      for (const problem of checkLocator(locator, opts)) {
+        if (suggestion === undefined) suggestion = source ? suggestLocator(source, target.element) : null;
+        findings.push({
+          ...base,
+          ...problem,
+          severity: SEVERITY[problem.rule],
+          platform,
+          locator: PageElement.describeLocator(locator),
+          ...(suggestion ? { suggestion } : {}),
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+export function lintElements(targets: readonly LintTarget[], options: LocatorLintOptions = {}): LintFinding[] {
+  return targets.flatMap((t) => lintElement(t, options));
+}
+
+// ====== сбор элементов из файлов ======
+
+const REPOSITORY_FILE = /\.(json|ya?ml)$/i;
+const MODULE_FILE = /\.(ts|mts|js|mjs)$/i;
+/** Тесты и объявления типов не импортируются: у них побочные эффекты или нет кода. */
+const SKIPPED_FILE = /\.(test|spec)\.\w+$|\.d\.ts$/i;
+
+function lintFiles(paths: readonly string[]): string[] {
+  const out: string[] = [];
+  const visit = (p: string, explicit: boolean) => {
+    if (fs.statSync(p).isDirectory()) {
+      for (const entry of fs.readdirSync(p).sort()) {
+        if (entry === "node_modules" || entry.startsWith(".")) continue;
+        visit(path.join(p, entry), false);
+      }
+    } else if (explicit || ((REPOSITORY_FILE.test(p) || MODULE_FILE.test(p)) && !SKIPPED_FILE.test(p))) {
+      out.push(p);
+    }
+  };
+  for (const p of paths) {
+    if (!fs.existsSync(p)) throw new Error(`Файл или каталог не найден: ${p}`);
+    visit(p, true);
+  }
+  return out;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Экран (page object): объект с методом elements(), как у Screen. */
+function isScreenLike(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && typeof (value as any).elements === "function";
+}
+
+function isScreenClass(value: unknown): value is new () => object {
+  return typeof value === "function" && typeof value.prototype?.elements === "function";
+}
+
+/**
+ * Элементы из экспортов модуля: PageElement, элементы экранов (объекты с pageElement),
+ * экраны (экземпляры и классы с конструктором без аргументов) и вложенные объекты-репозитории.
+ */
+export function collectLintTargets(exports: Record<string, unknown>, file?: string): LintTarget[] {
+  const targets: LintTarget[] = [];
+  const seen = new Set<unknown>();
+
+  const walk = (name: string, value: unknown, depth: number) => {
+    if (seen.has(value)) return;
+    if (isScreenClass(value)) {
+      seen.add(value);
+      let screen: object;
+      try {
+        screen = new value();
+      } catch (e) {
+        console.warn(`[LocatorLint] ${file ? `${file}: ` : ""}${name}: не удалось создать экран — ${(e as Error).message}`);
+        return;
+      }
+      walk(name, screen, depth);
+      return;
+    }
+    if (value === null || typeof value !== "object") return;
+    seen.add(value);
+    if (value instanceof PageElement) {
+      targets.push({ name, element: value, ...(file ? { file } : {}) });
+      return;
+    }
+    const pageElement = (value as { pageElement?: unknown }).pageElement;
+    if (pageElement instanceof PageElement) {
+      targets.push({ name, element: pageElement, ...(file ? { file } : {}) });
+      return;
+    }
+    if (depth >= 3 || !(isPlainObject(value) || isScreenLike(value))) return;
+    for (const [key, child] of Object.entries(value)) {
+      walk(name ? `${name}.${key}` : key, child, depth + 1);
+    }
+  };
+
+  for (const [key, value] of Object.entries(exports)) walk(key === "default" ? "" : key, value, 0);
+  return targets;
+}
+
+/**
+ * Проверка репозиториев элементов (.json/.yaml) и page object модулей (.ts/.js) —
+ * файлов и каталогов (рекурсивно, без *.test.* / *.spec.*).
+ */
+export async function lintLocators(paths: string | readonly string[], options: LocatorLintOptions = {}): Promise<LintFinding[]> {
+  const targets: LintTarget[] = [];
+  for (const file of lintFiles(typeof paths === "string" ? [paths] : paths)) {
+    if (REPOSITORY_FILE.test(file)) {
+      const repo = loadElementRepository(file, { warn: () => {} });
+      for (const [screen, elements] of Object.entries(repo)) {
+        for (const [name, element] of Object.entries(elements)) targets.push({ name: `${screen}.${name}`, element, file });
+      }
+    } else {
+      const exports = (await import(pathToFileURL(path.resolve(file)).href)) as Record<string, unknown>;
+      targets.push(...collectLintTargets(exports, file));
+    }
+  }
+  return lintElements(targets, options);
+}
+
+/** Отчёт для консоли: по строке на замечание, ошибки первыми. */
+export function formatLintFindings(findings: readonly LintFinding[]): string {
+  if (!findings.length) return "Замечаний к локаторам нет";
+  const sorted = [...findings].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+  const lines = sorted.map((f) => {
+    const where = `${f.file ? `${f.file}: ` : ""}${f.element} [${f.platform}]`;
+    const locator = f.locator ? ` (${f.locator})` : "";
+    const hint = f.suggestion ? `\n    → замените на ${PageElement.describeLocator(f.suggestion)}` : "";
+    return `${f.severity === "error" ? "ошибка" : "предупреждение"} ${f.rule}: ${where}${locator} — ${f.message}${hint}`;
+  });
+  const errors = findings.filter((f) => f.severity === "error").length;
+  lines.push(`Итого: ошибок ${errors}, предупреждений ${findings.length - errors}`);
+  return lines.join("\n");
+}
@@ -12,6 +12,10 @@ export class PageElement {
   private ios?: Locator | null;
   private androidList?: Locator[] | null;
   private iosList?: Locator[] | null;
+  /** Родитель, внутри которого ищется элемент (см. child). */
+  private parent: PageElement | null = null;
+  /** Номер элемента среди найденных, с 1 (см. nth). */
+  private index: number | null = null;
 
   constructor(opts?: {
     android?: Locator | null;
@@ -26,10 +30,9 @@ export class PageElement {
   }
 
   /**
-   * Получить локатор для текущей платформы.
+   * Получить локатор для текущей платформы (или явно переданной).
    */
-  get(): Locator | null {
-    const platform = AppConfig.getPlatform();
+  get(platform: Platform = AppConfig.getPlatform()): Locator | null {
     if (platform === Platform.ANDROID) {
       return this.android ?? this.androidList?.[0] ?? null;
     }
@@ -40,10 +43,9 @@ export class PageElement {
   }
 
   /**
-   * Получить список локаторов для текущей платформы.
+   * Получить список локаторов для текущей платформы (или явно переданной).
    */
-  getAll(): Locator[] | null {
-    const platform = AppConfig.getPlatform();
+  getAll(platform: Platform = AppConfig.getPlatform()): Locator[] | null {
     if (platform === Platform.ANDROID) {
       return this.androidList ?? (this.android ? [this.android] : null);
     }
@@ -53,6 +55,74 @@ export class PageElement {
     return null;
   }
 
+  // ====== вложенный поиск ======
+
+  /**
+   * Элемент, который ищется внутри текущего, а не от корня:
+   *
+   *   const card = PageElement.byAccessibilityId("product_card");
+   *   const price = card.nth(3).child(PageElement.ResourceId("price"));
+   *
+   * Locator применяется для обеих платформ; для разных локаторов передайте PageElement.
+   * Абсолютный XPath ("//...", "(//...)[1]", "//a | //b") внутри родителя ищется относительно него — см. relativeXPath.
+   */
+  child(target: PageElement | Locator): PageElement {
+    const el =
+      target instanceof PageElement ? target.copy() : new PageElement({ android: target, ios: target });
+    // у target уже может быть своя цепочка родителей — копируем её и подвешиваем к текущему
+    let node = el;
+    while (node.parent) {
+      node.parent = node.parent.copy();
+      node = node.parent;
+    }
+    node.parent = this;
+    return el;
+  }
+
+  /** Тот же элемент, но i-й среди найденных (с 1, как elementNumber в MobileActions). */
+  nth(i: number): PageElement {
+    if (!Number.isInteger(i) || i < 1) throw new Error(`nth(${i}): номер элемента — целое число от 1`);
+    const el = this.copy();
+    el.index = i;
+    return el;
+  }
+
+  getParent(): PageElement | null {
+    return this.parent;
+  }
+
+  getIndex(): number | null {
+    return this.index;
+  }
+
+  /** Читаемое описание для логов и ошибок: "xpath=.//card [3] › accessibility id=price". */
+  describe(): string {
+    const locators = this.getAll() ?? [];
+    const self = locators.length
+      ? locators.map(PageElement.describeLocator).join(" | ")
+      : "<нет локатора для текущей платформы>";
+    const own = this.index ? `${self} [${this.index}]` : self;
+    return this.parent ? `${this.parent.describe()} › ${own}` : own;
+  }
+
+  /** Описание одного локатора: "accessibility id=login" вместо [object Object]. */
+  static describeLocator(locator: Locator | null | undefined): string {
+    if (!locator) return "<пусто>";
+    return typeof locator === "string" ? locator : `${locator.using}=${locator.value}`;
+  }
+
+  private copy(): PageElement {
+    const el = new PageElement({
+      android: this.android,
+      ios: this.ios,
+      androidList: this.androidList,
+      iosList: this.iosList,
+    });
+    el.parent = this.parent;
+    el.index = this.index;
+    return el;
+  }
+
   // ====== companion-фабрики из Kotlin ======
 
   /** Полный id ресурса Android с префиксом пакета. */
@@ -210,4 +280,30 @@ export class PageElement {
     const parts = s.split("'");
     return "concat(" + parts.map((p, i) => (i ? `"'","${p}"` : `"${p}"`)).join(",") + ")";
   }
-}
\ No newline at end of file
+}
+/**
+ * XPath относительно родителя: абсолютные пути в начале выражения, внутри группы и объединения
+ * получают "." — "(//a)[1]" → "(.//a)[1]", "//a | //b" → ".//a | .//b".
+ * Предикаты и строковые литералы не меняются.
+ */
+export function relativeXPath(xpath: string): string {
+  let out = "";
+  let depth = 0; // вложенность [...]
+  let quote: string | null = null;
+  let pathStart = true; // здесь может начаться путь: в начале, после "(" или "|"
+  for (const ch of xpath) {
+    if (quote) {
+      out += ch;
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "[") depth++;
+    else if (ch === "]") depth--;
+    if (ch === "/" && pathStart && depth === 0) out += ".";
+    out += ch;
+    if (/\s/.test(ch)) continue;
+    pathStart = depth === 0 && (ch === "(" || ch === "|");
+  }
+  return out;
+}
@@ -0,0 +1,193 @@
+import { type Locator, PageElement } from "./page-element";
+
+/** Строковый литерал Java: UiAutomator разбирает выражение как код на Java. */
+function javaString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function checkIndex(method: string, value: number) {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`UiSelector.${method}(${value}): ожидалось целое число ≥ 0`);
+  }
+}
+
+/**
+ * Построитель UiSelector без ручного экранирования:
+ *
+ *   uiSelector().resourceId("com.app:id/title").textContains("Заказ \"42\"").instance(1).toLocator()
+ *   // { using: "-android uiautomator", value: 'new UiSelector().resourceId("com.app:id/title")...' }
+ *
+ * Экземпляры неизменяемы: каждый метод возвращает новый селектор.
+ * index и instance — как в UiAutomator, с 0.
+ */
+export class UiSelector {
+  private constructor(private readonly calls: readonly string[]) {
+  }
+
+  static create(): UiSelector {
+    return new UiSelector([]);
+  }
+
+  private add(call: string): UiSelector {
+    return new UiSelector([...this.calls, call]);
+  }
+
+  private str(method: string, value: string): UiSelector {
+    if (typeof value !== "string") throw new Error(`UiSelector.${method}(): ожидалась строка`);
+    return this.add(`${method}(${javaString(value)})`);
+  }
+
+  private bool(method: string, value: boolean): UiSelector {
+    return this.add(`${method}(${value ? "true" : "false"})`);
+  }
+
+  private regex(method: string, pattern: string | RegExp): UiSelector {
+    // UiAutomator использует java.util.regex — флаги JS не переносятся
+    if (pattern instanceof RegExp && pattern.flags) {
+      throw new Error(`UiSelector.${method}(): флаги RegExp (${pattern.flags}) не поддерживаются, используйте (?i) в шаблоне`);
+    }
+    return this.str(method, pattern instanceof RegExp ? pattern.source : pattern);
+  }
+
+  // --- text ---
+  text(value: string) {
+    return this.str("text", value);
+  }
+  textContains(value: string) {
+    return this.str("textContains", value);
+  }
+  textStartsWith(value: string) {
+    return this.str("textStartsWith", value);
+  }
+  textMatches(pattern: string | RegExp) {
+    return this.regex("textMatches", pattern);
+  }
+
+  // --- content-desc ---
+  description(value: string) {
+    return this.str("description", value);
+  }
+  descriptionContains(value: string) {
+    return this.str("descriptionContains", value);
+  }
+  descriptionStartsWith(value: string) {
+    return this.str("descriptionStartsWith", value);
+  }
+  descriptionMatches(pattern: string | RegExp) {
+    return this.regex("descriptionMatches", pattern);
+  }
+
+  // --- resource-id, класс, пакет ---
+  resourceId(value: string) {
+    return this.str("resourceId", value);
+  }
+  resourceIdMatches(pattern: string | RegExp) {
+    return this.regex("resourceIdMatches", pattern);
+  }
+  className(value: string) {
+    return this.str("className", value);
+  }
+  classNameMatches(pattern: string | RegExp) {
+    return this.regex("classNameMatches", pattern);
+  }
+  packageName(value: string) {
+    return this.str("packageName", value);
+  }
+
+  // --- состояние ---
+  checkable(value = true) {
+    return this.bool("checkable", value);
+  }
+  checked(value = true) {
+    return this.bool("checked", value);
+  }
+  clickable(value = true) {
+    return this.bool("clickable", value);
+  }
+  longClickable(value = true) {
+    return this.bool("longClickable", value);
+  }
+  enabled(value = true) {
+    return this.bool("enabled", value);
+  }
+  focusable(value = true) {
+    return this.bool("focusable", value);
+  }
+  focused(value = true) {
+    return this.bool("focused", value);
+  }
+  scrollable(value = true) {
+    return this.bool("scrollable", value);
+  }
+  selected(value = true) {
+    return this.bool("selected", value);
+  }
+
+  // --- позиция ---
+  /** Позиция среди соседей в иерархии, с 0. */
+  index(value: number) {
+    checkIndex("index", value);
+    return this.add(`index(${value})`);
+  }
+  /** Номер среди всех подходящих элементов, с 0. */
+  instance(value: number) {
+    checkIndex("instance", value);
+    return this.add(`instance(${value})`);
+  }
+
+  // --- иерархия ---
+  childSelector(child: UiSelector) {
+    return this.add(`childSelector(${child})`);
+  }
+  fromParent(sibling: UiSelector) {
+    return this.add(`fromParent(${sibling})`);
+  }
+
+  toString(): string {
+    return `new UiSelector()${this.calls.map((c) => `.${c}`).join("")}`;
+  }
+
+  toLocator(): Locator {
+    return PageElement.AndroidUIAutomator(this.toString());
+  }
+}
+
+/**
+ * Прокрутка контейнера до элемента средствами UiAutomator:
+ *
+ *   uiScrollable(uiSelector().scrollable()).scrollIntoView(uiSelector().text("Отзывы")).toLocator()
+ */
+export class UiScrollable {
+  private constructor(
+    private readonly container: UiSelector,
+    private readonly calls: readonly string[]
+  ) {
+  }
+
+  static of(container: UiSelector): UiScrollable {
+    return new UiScrollable(container, []);
+  }
+
+  setAsHorizontalList(): UiScrollable {
+    return new UiScrollable(this.container, [...this.calls, "setAsHorizontalList()"]);
+  }
+
+  setMaxSearchSwipes(count: number): UiScrollable {
+    if (!Number.isInteger(count) || count < 1) throw new Error(`UiScrollable.setMaxSearchSwipes(${count}): ожидалось целое число ≥ 1`);
+    return new UiScrollable(this.container, [...this.calls, `setMaxSearchSwipes(${count})`]);
+  }
+
+  /** Итоговое выражение: прокрутить до target и вернуть его. */
+  scrollIntoView(target: UiSelector): { toString(): string; toLocator(): Locator } {
+    const expr = `new UiScrollable(${this.container})${this.calls.map((c) => `.${c}`).join("")}.scrollIntoView(${target})`;
+    return { toString: () => expr, toLocator: () => PageElement.AndroidUIAutomator(expr) };
+  }
+}
+
+export function uiSelector(): UiSelector {
+  return UiSelector.create();
+}
+
+export function uiScrollable(container: UiSelector = uiSelector().scrollable()): UiScrollable {
+  return UiScrollable.of(container);
+}
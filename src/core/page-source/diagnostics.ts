@@ -0,0 +1,202 @@
+import { type Locator, PageElement } from "../locators/page-element";
+import { editDistance } from "../string-similarity";
+import type { PageSource } from "./page-source";
+import type { Bounds, UiNode } from "./xml";
+
+/** Что известно об элементе по снимку экрана на момент ошибки. */
+export type ElementStatus = "visible" | "off-screen" | "invisible" | "missing" | "parent-missing";
+
+export interface LocatorReport {
+  locator: string;
+  matches: number;
+  /** Локатор не удалось вычислить офлайн. */
+  error?: string;
+}
+
+/** Узел, похожий на искомый элемент. */
+export interface Candidate {
+  node: UiNode;
+  /** Похожесть 0..1. */
+  score: number;
+  /** Атрибут, по которому найдено сходство. */
+  attribute: string;
+}
+
+export interface ElementDiagnosis {
+  element: string;
+  status: ElementStatus;
+  /** Найденный в снимке узел (если есть). */
+  node: UiNode | null;
+  locators: LocatorReport[];
+  candidates: Candidate[];
+}
+
+export interface DiagnoseOptions {
+  /** Номер элемента среди найденных, с 1 (по умолчанию из nth). */
+  index?: number | null;
+  /** Видимая область экрана. По умолчанию — bounds корневого элемента снимка. */
+  viewport?: Bounds | null;
+  /** Сколько похожих элементов показывать. */
+  maxCandidates?: number;
+}
+
+const STATUS_TEXT: Record<ElementStatus, string> = {
+  visible: "элемент есть в снимке экрана и видим — вероятно, он появился после таймаута",
+  "off-screen": "элемент есть в снимке экрана, но за пределами видимой области — нужен скролл",
+  invisible: "элемент есть в снимке экрана, но не отображается (displayed/visible=false)",
+  missing: "элемента нет в снимке экрана",
+  "parent-missing": "в снимке экрана нет родителя, внутри которого ищется элемент",
+};
+
+/** Атрибуты, по которым ищутся похожие элементы. */
+const CANDIDATE_ATTRIBUTES = ["text", "content-desc", "resource-id", "name", "label", "value"];
+const MIN_SCORE = 0.5;
+
+function shortId(value: string): string {
+  return value.replace(/^.*:id\//, "");
+}
+
+/** Короткое описание узла: TextView text="Кофе" resource-id="price" @ [20,220 480×60]. */
+export function describeNode(node: UiNode): string {
+  const tag = node.tag.replace(/^XCUIElementType/, "").replace(/^.*\./, "");
+  const seen = new Set<string>();
+  const attrs: string[] = [];
+  for (const name of CANDIDATE_ATTRIBUTES) {
+    const raw = node.attributes[name];
+    const value = name === "resource-id" && raw ? shortId(raw) : raw;
+    if (!value || seen.has(value)) continue;
+    seen.add(value);
+    attrs.push(`${name}=${JSON.stringify(value)}`);
+  }
+  const b = node.bounds;
+  const where = b ? ` @ [${b.x},${b.y} ${b.width}×${b.height}]` : "";
+  return [tag, ...attrs].join(" ") + where;
+}
+
+/** displayed (Android) / visible (iOS) не равен "false". */
+export function isNodeDisplayed(node: UiNode): boolean {
+  return node.attributes.displayed !== "false" && node.attributes.visible !== "false";
+}
+
+/** Экран — bounds верхнего элемента (у Android корень hierarchy без bounds). */
+function viewportOf(source: PageSource): Bounds | null {
+  return source.nodes().find((n) => n.bounds)?.bounds ?? null;
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/** Строки, которые ищет локатор: значения id/accessibility id и строковые литералы выражений. */
+function searchTerms(locator: Locator): string[] {
+  const { using, value } =
+    typeof locator === "string"
+      ? locator.startsWith("~")
+        ? { using: "accessibility id", value: locator.slice(1) }
+        : { using: "expression", value: locator }
+      : locator;
+  if (["accessibility id", "id", "name"].includes(using)) return [shortId(value)];
+  const terms: string[] = [];
+  for (const m of value.matchAll(/'([^']*)'|"((?:[^"\\]|\\.)*)"/g)) {
+    const term = shortId(m[1] ?? m[2]).trim();
+    if (term.length >= 2) terms.push(term);
+  }
+  return terms;
+}
+
+/** Похожесть строк 0..1 без учёта регистра: совпадение, вхождение или расстояние Левенштейна. */
+export function textSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  if (x === y) return 1;
+  const [short, long] = x.length <= y.length ? [x, y] : [y, x];
+  if (short && long.includes(short)) return 0.6 + (0.4 * short.length) / long.length;
+  return 1 - editDistance(x, y) / Math.max(x.length, y.length);
+}
+
+function findCandidates(source: PageSource, terms: string[], exclude: UiNode | null, max: number): Candidate[] {
+  if (!terms.length) return [];
+  const out: Candidate[] = [];
+  for (const node of source.nodes()) {
+    if (node === exclude) continue;
+    let best: Candidate | null = null;
+    for (const attribute of CANDIDATE_ATTRIBUTES) {
+      const raw = node.attributes[attribute];
+      if (!raw) continue;
+      const value = attribute === "resource-id" ? shortId(raw) : raw;
+      for (const term of terms) {
+        const score = textSimilarity(term, value);
+        if (score >= MIN_SCORE && (!best || score > best.score)) best = { node, score, attribute };
+      }
+    }
+    if (best) out.push(best);
+  }
+  return out.sort((a, b) => b.score - a.score).slice(0, max);
+}
+
+/**
+ * Разбор «элемент не найден» по снимку экрана: что нашли локаторы, есть ли элемент
+ * за пределами экрана или скрытым, и какие элементы на него похожи.
+ */
+export function diagnoseElement(
+  source: PageSource,
+  element: PageElement,
+  options: DiagnoseOptions = {}
+): ElementDiagnosis {
+  const index = options.index ?? element.getIndex();
+  const parent = element.getParent();
+  const locators = element.getAll(source.platform) ?? [];
+
+  const parentMissing = parent !== null && source.find(parent) === null;
+  const reports: LocatorReport[] = source.queryAll(element).map(({ locator, nodes, error }) => ({
+    locator: PageElement.describeLocator(locator),
+    matches: nodes.length,
+    ...(error ? { error: error.message } : {}),
+  }));
+  const node = parentMissing ? null : source.find(element, index);
+
+  let status: ElementStatus;
+  if (parentMissing) status = "parent-missing";
+  else if (!node) status = "missing";
+  else if (!isNodeDisplayed(node)) status = "invisible";
+  else {
+    const viewport = options.viewport ?? viewportOf(source);
+    const b = node.bounds;
+    const onScreen = !b || !viewport || (b.width > 0 && b.height > 0 && intersects(b, viewport));
+    status = onScreen ? "visible" : "off-screen";
+  }
+
+  return {
+    element: (options.index ? element.nth(options.index) : element).describe(),
+    status,
+    node,
+    locators: reports,
+    candidates: findCandidates(source, locators.flatMap(searchTerms), node, options.maxCandidates ?? 5),
+  };
+}
+
+/** Полный текстовый отчёт для вложения. */
+export function formatDiagnosis(d: ElementDiagnosis): string {
+  const lines = [`Элемент: ${d.element}`, `Статус: ${STATUS_TEXT[d.status]}`];
+  if (d.node) lines.push(`Узел: ${describeNode(d.node)}`);
+  lines.push("Локаторы:");
+  for (const r of d.locators) {
+    lines.push(` - ${r.locator}: ${r.error ? `не проверен офлайн (${r.error})` : `совпадений ${r.matches}`}`);
+  }
+  if (!d.locators.length) lines.push(" - нет локаторов для текущей платформы");
+  lines.push(d.candidates.length ? "Похожие элементы:" : "Похожих элементов нет");
+  for (const c of d.candidates) {
+    lines.push(` - ${describeNode(c.node)} (${c.attribute}, сходство ${c.score.toFixed(2)})`);
+  }
+  return lines.join("\n");
+}
+
+/** Краткая сводка для текста ошибки: статус и до трёх похожих элементов. */
+export function summarizeDiagnosis(d: ElementDiagnosis): string {
+  const parts = [`Диагностика: ${STATUS_TEXT[d.status]}.`];
+  if (d.node && d.status !== "missing") parts.push(`Узел: ${describeNode(d.node)}.`);
+  if (d.candidates.length) {
+    parts.push(`Похожие: ${d.candidates.slice(0, 3).map((c) => describeNode(c.node)).join("; ")}.`);
+  }
+  return parts.join(" ");
+}
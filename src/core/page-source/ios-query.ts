@@ -0,0 +1,356 @@
+import { descendants, type UiNode } from "./xml";
+
+// -------------------------------------------------------------
+// iOS predicate string (подмножество NSPredicate)
+// -------------------------------------------------------------
+
+type Predicate = (node: UiNode) => boolean;
+
+type PToken = { type: "word" | "string" | "number" | "op"; value: string };
+
+function tokenizePredicate(src: string): PToken[] {
+  const tokens: PToken[] = [];
+  const re = /\s*(?:((?:==|!=|<>|<=|>=|=<|=>|[=<>])(?:\[[cdCD]+\])?|&&|\|\||[!(){},])|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)|([A-Za-z_$][\w.$]*(?:\[[cdCD]+\])?))/y;
+  let pos = 0;
+  while (pos < src.length) {
+    if (/^\s*$/.test(src.slice(pos))) break;
+    re.lastIndex = pos;
+    const m = re.exec(src);
+    if (!m) throw new Error(`неожиданный символ '${src.slice(pos).trim()[0]}' в позиции ${pos + 1}`);
+    pos = re.lastIndex;
+    if (m[1]) tokens.push({ type: "op", value: m[1] });
+    else if (m[2]) tokens.push({ type: "string", value: m[2].slice(1, -1).replace(/\\(.)/g, "$1") });
+    else if (m[3]) tokens.push({ type: "number", value: m[3] });
+    else tokens.push({ type: "word", value: m[4] });
+  }
+  return tokens;
+}
+
+const COMPARISON_OPS = ["==", "=", "!=", "<>", "<", "<=", "=<", ">", ">=", "=>"];
+const STRING_OPS = ["CONTAINS", "BEGINSWITH", "ENDSWITH", "LIKE", "MATCHES", "IN"];
+const BOOLEAN_WORDS: Record<string, boolean> = { TRUE: true, YES: true, FALSE: false, NO: false };
+
+type Literal = string | number | boolean | null | Literal[];
+
+/** wdName → name, elementType не поддерживается: тип сравнивается по строке. */
+function attributeOf(keyPath: string): string {
+  const key = keyPath.replace(/^wd([A-Z])/, (_m, c: string) => c.toLowerCase());
+  if (key === "elementType") throw new Error("elementType не поддерживается — используйте type == 'XCUIElementType…'");
+  return key;
+}
+
+function likeToRegExp(pattern: string, flags: string): RegExp {
+  const body = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${body}$`, flags);
+}
+
+function normalize(s: string, modifiers: string): string {
+  let out = s;
+  if (modifiers.includes("c")) out = out.toLowerCase();
+  if (modifiers.includes("d")) out = out.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  return out;
+}
+
+function compareValue(actual: string | undefined, op: string, modifiers: string, expected: Literal): boolean {
+  if (Array.isArray(expected)) return expected.some((e) => compareValue(actual, "==", modifiers, e));
+  if (expected === null) {
+    const isNil = actual === undefined || actual === "";
+    return op === "!=" || op === "<>" ? !isNil : isNil;
+  }
+  if (actual === undefined) return op === "!=" || op === "<>";
+  if (typeof expected === "boolean") {
+    const b = actual === "true" || actual === "1";
+    return op === "!=" || op === "<>" ? b !== expected : b === expected;
+  }
+  if (typeof expected === "number" && !STRING_OPS.includes(op)) {
+    const n = Number(actual);
+    switch (op) {
+      case "==":
+      case "=":
+        return n === expected;
+      case "!=":
+      case "<>":
+        return n !== expected;
+      case "<":
+        return n < expected;
+      case "<=":
+      case "=<":
+        return n <= expected;
+      case ">":
+        return n > expected;
+      default:
+        return n >= expected;
+    }
+  }
+  const a = normalize(actual, modifiers);
+  const e = normalize(String(expected), modifiers);
+  switch (op) {
+    case "==":
+    case "=":
+      return a === e;
+    case "!=":
+    case "<>":
+      return a !== e;
+    case "CONTAINS":
+      return a.includes(e);
+    case "BEGINSWITH":
+      return a.startsWith(e);
+    case "ENDSWITH":
+      return a.endsWith(e);
+    case "LIKE":
+      return likeToRegExp(e, "s").test(a);
+    case "MATCHES":
+      return new RegExp(`^(?:${String(expected)})$`, modifiers.includes("c") ? "is" : "s").test(actual);
+    default:
+      return compareAtoms(a, op, e);
+  }
+}
+
+function compareAtoms(a: string, op: string, e: string): boolean {
+  switch (op) {
+    case "<":
+      return a < e;
+    case "<=":
+    case "=<":
+      return a <= e;
+    case ">":
+      return a > e;
+    default:
+      return a >= e;
+  }
+}
+
+class PredicateParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: PToken[]) {
+  }
+
+  parse(): Predicate {
+    const p = this.or();
+    if (this.pos < this.tokens.length) throw new Error(`неожиданный токен '${this.tokens[this.pos].value}'`);
+    return p;
+  }
+
+  private peek(): PToken | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isKeyword(...values: string[]): boolean {
+    const t = this.peek();
+    return Boolean(t && values.includes(t.type === "word" ? t.value.toUpperCase() : t.value));
+  }
+
+  private expect(value: string) {
+    const t = this.peek();
+    if (!t || t.value !== value) throw new Error(`ожидалось '${value}', получено '${t?.value ?? "конец выражения"}'`);
+    this.pos++;
+  }
+
+  private or(): Predicate {
+    let left = this.and();
+    while (this.isKeyword("OR", "||")) {
+      this.pos++;
+      const [l, r] = [left, this.and()];
+      left = (n) => l(n) || r(n);
+    }
+    return left;
+  }
+
+  private and(): Predicate {
+    let left = this.not();
+    while (this.isKeyword("AND", "&&")) {
+      this.pos++;
+      const [l, r] = [left, this.not()];
+      left = (n) => l(n) && r(n);
+    }
+    return left;
+  }
+
+  private not(): Predicate {
+    if (this.isKeyword("NOT", "!")) {
+      this.pos++;
+      const inner = this.not();
+      return (n) => !inner(n);
+    }
+    if (this.isKeyword("(")) {
+      this.pos++;
+      const inner = this.or();
+      this.expect(")");
+      return inner;
+    }
+    if (this.isKeyword("TRUEPREDICATE")) {
+      this.pos++;
+      return () => true;
+    }
+    if (this.isKeyword("FALSEPREDICATE")) {
+      this.pos++;
+      return () => false;
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Predicate {
+    const left = this.peek();
+    if (!left || left.type !== "word") throw new Error(`ожидался атрибут, получено '${left?.value ?? "конец выражения"}'`);
+
+    // атрибут всегда слева: 'текст' IN name не поддерживается
+    this.pos++;
+    const key = attributeOf(left.value);
+    const opToken = this.peek();
+    if (!opToken) throw new Error(`ожидался оператор после '${left.value}'`);
+    this.pos++;
+    const [, rawOp, mods = ""] = /^([^[]+)(?:\[([cdCD]+)\])?$/.exec(opToken.value) ?? [];
+    const op = opToken.type === "word" ? rawOp.toUpperCase() : rawOp;
+    if (opToken.type === "word" ? !STRING_OPS.includes(op) : !COMPARISON_OPS.includes(op)) {
+      throw new Error(`оператор '${opToken.value}' не поддерживается`);
+    }
+    const modifiers = mods.toLowerCase();
+    const expected = this.literal();
+    if (Array.isArray(expected) !== (op === "IN")) throw new Error("IN ожидает список { 'a', 'b' }, и только с IN");
+    return (n) => compareValue(n.attributes[key], op, modifiers, expected);
+  }
+
+  private literal(): Literal {
+    const t = this.peek();
+    if (!t) throw new Error("ожидалось значение");
+    this.pos++;
+    if (t.type === "string") return t.value;
+    if (t.type === "number") return Number(t.value);
+    if (t.type === "op" && t.value === "{") {
+      const items: Literal[] = [];
+      while (!this.isKeyword("}")) {
+        items.push(this.literal());
+        if (this.isKeyword(",")) this.pos++;
+      }
+      this.expect("}");
+      return items;
+    }
+    if (t.type === "word") {
+      const upper = t.value.toUpperCase();
+      if (upper in BOOLEAN_WORDS) return BOOLEAN_WORDS[upper];
+      if (upper === "NIL" || upper === "NULL") return null;
+    }
+    throw new Error(`ожидалось значение, получено '${t.value}'`);
+  }
+}
+
+const predicateCache = new Map<string, Predicate>();
+
+/** Компиляция predicate string: type == 'XCUIElementTypeButton' AND label CONTAINS[c] 'ok'. */
+export function compilePredicate(src: string): Predicate {
+  let p = predicateCache.get(src);
+  if (!p) {
+    try {
+      p = new PredicateParser(tokenizePredicate(src)).parse();
+    } catch (e) {
+      throw new Error(`Некорректный или неподдерживаемый predicate string '${src}': ${(e as Error).message}`);
+    }
+    if (predicateCache.size > 500) predicateCache.clear();
+    predicateCache.set(src, p);
+  }
+  return p;
+}
+
+/** Узлы поддерева context (без него самого), подходящие под predicate string. */
+export function evaluatePredicate(src: string, context: UiNode): UiNode[] {
+  const predicate = compilePredicate(src);
+  return descendants(context).filter(predicate);
+}
+
+// -------------------------------------------------------------
+// iOS class chain (подмножество)
+// -------------------------------------------------------------
+
+interface ChainSegment {
+  descendant: boolean;
+  type: string;
+  filters: Array<{ index: number } | { predicate: Predicate; deep: boolean }>;
+}
+
+function parseClassChain(src: string): ChainSegment[] {
+  const segments: ChainSegment[] = [];
+  let pos = 0;
+  while (pos < src.length) {
+    let descendant = false;
+    if (src.startsWith("**/", pos)) {
+      descendant = true;
+      pos += 3;
+    }
+    const typeMatch = /^(\*|XCUIElementType\w+)/.exec(src.slice(pos));
+    if (!typeMatch) throw new Error(`ожидался тип элемента в позиции ${pos + 1}`);
+    pos += typeMatch[0].length;
+    const filters: ChainSegment["filters"] = [];
+    while (src[pos] === "[") {
+      const close = src[pos + 1] === "`" || src[pos + 1] === "$" ? src.indexOf(src[pos + 1] + "]", pos + 2) : src.indexOf("]", pos);
+      if (close < 0) throw new Error(`незакрытая '[' в позиции ${pos + 1}`);
+      const body = src.slice(pos + 1, src[pos + 1] === "`" || src[pos + 1] === "$" ? close + 1 : close);
+      pos = src[pos + 1] === "`" || src[pos + 1] === "$" ? close + 2 : close + 1;
+      if (/^-?\d+$/.test(body)) {
+        const index = Number(body);
+        if (index === 0) throw new Error("индексы class chain начинаются с 1");
+        filters.push({ index });
+      } else if (/^`.*`$/s.test(body) || /^\$.*\$$/s.test(body)) {
+        filters.push({ predicate: compilePredicate(body.slice(1, -1)), deep: body[0] === "$" });
+      } else {
+        throw new Error(`некорректный фильтр [${body}]`);
+      }
+    }
+    segments.push({ descendant, type: typeMatch[1], filters });
+    if (pos < src.length) {
+      if (src[pos] !== "/") throw new Error(`ожидалось '/' в позиции ${pos + 1}`);
+      pos++;
+      if (pos === src.length) throw new Error("путь не может заканчиваться '/'");
+    }
+  }
+  if (!segments.length) throw new Error("пустой путь");
+  return segments;
+}
+
+const chainCache = new Map<string, ChainSegment[]>();
+
+/**
+ * Узлы, найденные iOS class chain: XCUIElementTypeTable/XCUIElementTypeCell[`name BEGINSWITH "item"`][2].
+ * Поддерживаются префикс ** (любой потомок), *, индексы (с 1, отрицательные — с конца),
+ * `predicate` и $predicate$ (у элемента есть подходящий потомок).
+ * context — элемент, от которого строится цепочка (для документа — приложение).
+ */
+export function evaluateClassChain(src: string, context: UiNode): UiNode[] {
+  let segments = chainCache.get(src);
+  if (!segments) {
+    try {
+      segments = parseClassChain(src);
+    } catch (e) {
+      throw new Error(`Некорректный или неподдерживаемый class chain '${src}': ${(e as Error).message}`);
+    }
+    if (chainCache.size > 500) chainCache.clear();
+    chainCache.set(src, segments);
+  }
+
+  let start = context;
+  // от корня документа цепочка строится от XCUIElementTypeApplication, как в XCUITest
+  if (start.tag === "#document" && start.children.length === 1) start = start.children[0];
+
+  let current = [start];
+  for (const segment of segments) {
+    const next = new Set<UiNode>();
+    for (const node of current) {
+      let matched = (segment.descendant ? descendants(node) : node.children).filter(
+        (n) => segment.type === "*" || n.tag === segment.type
+      );
+      for (const filter of segment.filters) {
+        if ("index" in filter) {
+          const i = filter.index > 0 ? filter.index - 1 : matched.length + filter.index;
+          matched = matched[i] ? [matched[i]] : [];
+        } else {
+          matched = matched.filter((n) =>
+            filter.deep ? descendants(n).some(filter.predicate) : filter.predicate(n)
+          );
+        }
+      }
+      matched.forEach((n) => next.add(n));
+    }
+    current = [...next];
+  }
+  return current;
+}
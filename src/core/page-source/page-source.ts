@@ -0,0 +1,130 @@
+import { type Locator, PageElement, relativeXPath } from "../locators/page-element";
+import { Platform } from "../platform";
+import { evaluateClassChain, evaluatePredicate } from "./ios-query";
+import { descendants, parseXml, type UiNode } from "./xml";
+import { evaluateXPath } from "./xpath";
+
+export type { Bounds, UiNode } from "./xml";
+
+/** Стратегия локатора, которую движок не умеет вычислять офлайн (например, UiAutomator). */
+export class UnsupportedLocatorError extends Error {
+  constructor(readonly locator: Locator, reason: string) {
+    super(`Локатор ${PageElement.describeLocator(locator)} нельзя вычислить по page source: ${reason}`);
+    this.name = "UnsupportedLocatorError";
+  }
+}
+
+/** Результат одного локатора из списка запасных. */
+export interface LocatorMatch {
+  locator: Locator;
+  nodes: UiNode[];
+  /** Локатор не поддерживается или некорректен — nodes пуст. */
+  error?: Error;
+}
+
+/** Строковые селекторы WDIO → { using, value }. */
+export function normalizeLocator(locator: Locator): { using: string; value: string } {
+  if (typeof locator !== "string") return locator;
+  if (locator.startsWith("~")) return { using: "accessibility id", value: locator.slice(1) };
+  if (/^(\/|\.\/|\.\.|\()/.test(locator)) return { using: "xpath", value: locator };
+  for (const using of ["-ios predicate string", "-ios class chain", "-android uiautomator", "id", "xpath"]) {
+    if (locator.startsWith(`${using}:`) || locator.startsWith(`${using}=`)) {
+      return { using, value: locator.slice(using.length + 1) };
+    }
+  }
+  throw new UnsupportedLocatorError(locator, "селектор не распознан");
+}
+
+function detectPlatform(root: UiNode): Platform {
+  const first = root.children[0];
+  if (first?.tag.startsWith("XCUIElementType") || first?.tag === "AppiumAUT") return Platform.IOS;
+  return Platform.ANDROID;
+}
+
+/**
+ * Снимок page source с поиском по локаторам PageElement без обращения к Appium:
+ *
+ *   const source = PageSource.parse(fs.readFileSync("fixtures/login.xml", "utf8"));
+ *   source.find(loginScreen.submit.pageElement)?.bounds; // { x, y, width, height }
+ *
+ * Поддерживаются xpath (подмножество XPath 1.0), accessibility id, id / resource-id, class name, name,
+ * -ios predicate string и -ios class chain (подмножества). Для UiAutomator — UnsupportedLocatorError.
+ */
+export class PageSource {
+  private constructor(
+    readonly root: UiNode,
+    readonly platform: Platform,
+    readonly xml: string
+  ) {
+  }
+
+  /** Разбор XML. Платформа определяется по корню (XCUIElementType* — iOS), если не передана явно. */
+  static parse(xml: string, platform?: Platform): PageSource {
+    const root = parseXml(xml);
+    return new PageSource(root, platform ?? detectPlatform(root), xml);
+  }
+
+  /** Все элементы снимка в порядке документа. */
+  nodes(): UiNode[] {
+    return descendants(this.root);
+  }
+
+  /** Узлы, найденные локатором внутри scope (по умолчанию — весь снимок). */
+  query(locator: Locator, scope: UiNode = this.root): UiNode[] {
+    const { using, value } = normalizeLocator(locator);
+    const ios = this.platform === Platform.IOS;
+    const attr = (name: string) => (n: UiNode) => n.attributes[name] === value;
+    switch (using) {
+      case "xpath":
+        // как и при поиске на устройстве: абсолютный XPath внутри родителя считается от родителя
+        return evaluateXPath(scope === this.root ? value : relativeXPath(value), scope);
+      case "accessibility id":
+        return descendants(scope).filter(attr(ios ? "name" : "content-desc"));
+      case "id":
+        return descendants(scope).filter(
+          ios
+            ? attr("name")
+            : (n) => n.attributes["resource-id"] === value || Boolean(n.attributes["resource-id"]?.endsWith(`:id/${value}`))
+        );
+      case "name":
+        return descendants(scope).filter(attr("name"));
+      case "class name":
+        return descendants(scope).filter((n) => n.tag === value || n.attributes.class === value);
+      case "-ios predicate string":
+        return evaluatePredicate(value, scope);
+      case "-ios class chain":
+        return evaluateClassChain(value, scope);
+      default:
+        throw new UnsupportedLocatorError(locator, `стратегия '${using}' не поддерживается`);
+    }
+  }
+
+  /**
+   * Все запасные локаторы элемента в одном снимке — с учётом родителя (child) и без учёта nth.
+   * Ошибки отдельных локаторов не прерывают проверку остальных.
+   */
+  queryAll(element: PageElement): LocatorMatch[] {
+    const parent = element.getParent();
+    let scope: UiNode | null = this.root;
+    if (parent) scope = this.find(parent);
+
+    const locators = element.getAll(this.platform) ?? [];
+    return locators.map((locator) => {
+      if (!scope) return { locator, nodes: [] };
+      try {
+        return { locator, nodes: this.query(locator, scope) };
+      } catch (e) {
+        return { locator, nodes: [], error: e as Error };
+      }
+    });
+  }
+
+  /**
+   * Узел, который нашёл бы waitForElements: первый локатор, нашедший хотя бы index элементов
+   * (index — с 1, по умолчанию из nth).
+   */
+  find(element: PageElement, index: number | null = element.getIndex()): UiNode | null {
+    const i = (index ?? 1) - 1;
+    return this.queryAll(element).find(({ nodes }) => nodes.length > i)?.nodes[i] ?? null;
+  }
+}
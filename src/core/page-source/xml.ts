@@ -0,0 +1,120 @@
+/** Прямоугольник элемента на экране. */
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Узел снимка page source. */
+export interface UiNode {
+  tag: string;
+  attributes: Record<string, string>;
+  children: UiNode[];
+  parent: UiNode | null;
+  /** Положение на экране: Android — атрибут bounds, iOS — x/y/width/height. */
+  bounds: Bounds | null;
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (m, e: string) => {
+    if (e.startsWith("#x")) return String.fromCodePoint(parseInt(e.slice(2), 16));
+    if (e.startsWith("#")) return String.fromCodePoint(parseInt(e.slice(1), 10));
+    return ENTITIES[e] ?? m;
+  });
+}
+
+/** Android: bounds="[0,63][1080,200]"; iOS: x, y, width, height. */
+export function parseBounds(attributes: Record<string, string>): Bounds | null {
+  const m = attributes.bounds?.match(/^\[(-?\d+),(-?\d+)\]\[(-?\d+),(-?\d+)\]$/);
+  if (m) {
+    const [x1, y1, x2, y2] = m.slice(1).map(Number);
+    return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+  }
+  const [x, y, width, height] = ["x", "y", "width", "height"].map((k) => Number(attributes[k]));
+  if ([x, y, width, height].every((n) => Number.isFinite(n)) && attributes.width !== undefined) {
+    return { x, y, width, height };
+  }
+  return null;
+}
+
+/**
+ * Разбор XML page source (UiAutomator2/XCUITest) без внешних зависимостей.
+ * Поддерживаются элементы, атрибуты, комментарии, <?xml?>, <!DOCTYPE>, CDATA и сущности;
+ * текстовое содержимое не сохраняется — у Appium текст лежит в атрибутах.
+ */
+export function parseXml(xml: string): UiNode {
+  const root: UiNode = { tag: "#document", attributes: {}, children: [], parent: null, bounds: null };
+  const stack: UiNode[] = [root];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = xml.slice(0, pos).split("\n").length;
+    throw new Error(`Некорректный XML (строка ${line}): ${message}`);
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    if (lt < 0) break;
+    pos = lt;
+    if (xml.startsWith("<!--", pos)) {
+      const end = xml.indexOf("-->", pos);
+      if (end < 0) fail("незакрытый комментарий");
+      pos = end + 3;
+    } else if (xml.startsWith("<![CDATA[", pos)) {
+      const end = xml.indexOf("]]>", pos);
+      if (end < 0) fail("незакрытый CDATA");
+      pos = end + 3;
+    } else if (xml.startsWith("<?", pos) || xml.startsWith("<!", pos)) {
+      const end = xml.indexOf(">", pos);
+      if (end < 0) fail("незакрытая декларация");
+      pos = end + 1;
+    } else if (xml.startsWith("</", pos)) {
+      const m = /^<\/([^\s>]+)\s*>/.exec(xml.slice(pos, pos + 512));
+      if (!m) fail("некорректный закрывающий тег");
+      const open = stack.pop()!;
+      if (open === root || open.tag !== m![1]) fail(`закрывающий тег </${m![1]}> без открывающего`);
+      pos += m![0].length;
+    } else {
+      const tagMatch = /^<([^\s/>]+)/.exec(xml.slice(pos, pos + 512));
+      if (!tagMatch) fail("некорректный открывающий тег");
+      pos += tagMatch![0].length;
+      const attributes: Record<string, string> = {};
+      const attrRe = /\s*([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')|\s*(\/?)>/y;
+      for (;;) {
+        attrRe.lastIndex = pos;
+        const a = attrRe.exec(xml);
+        if (!a) fail(`некорректные атрибуты тега <${tagMatch![1]}>`);
+        pos = attrRe.lastIndex;
+        if (a![1] === undefined) {
+          const parent = stack[stack.length - 1];
+          const node: UiNode = {
+            tag: tagMatch![1],
+            attributes,
+            children: [],
+            parent,
+            bounds: parseBounds(attributes),
+          };
+          parent.children.push(node);
+          if (a![5] !== "/") stack.push(node);
+          break;
+        }
+        attributes[a![1]] = decodeEntities(a![3] ?? a![4]);
+      }
+    }
+  }
+  if (stack.length > 1) fail(`незакрытый тег <${stack[stack.length - 1].tag}>`);
+  if (!root.children.length) fail("нет корневого элемента");
+  return root;
+}
+
+/** Все узлы поддерева в порядке документа (без самого документа). */
+export function descendants(node: UiNode, out: UiNode[] = []): UiNode[] {
+  for (const child of node.children) {
+    out.push(child);
+    descendants(child, out);
+  }
+  return out;
+}
@@ -0,0 +1,586 @@
+import { descendants, type UiNode } from "./xml";
+
+/**
+ * Подмножество XPath 1.0 для поиска по снимку page source:
+ * - пути: /, //, ., .., @attr, *, node(), text(), оси child, descendant, descendant-or-self,
+ *   self, parent, ancestor, ancestor-or-self, following-sibling, preceding-sibling, attribute
+ * - предикаты: [n], [last()], [@a='v'], and, or, =, !=, <, <=, >, >=, объединение |
+ * - функции: contains, starts-with, ends-with, concat, not, normalize-space, string-length,
+ *   translate, string, number, boolean, true, false, count, position, last, name, local-name
+ * Арифметика, переменные, оси following/preceding и пространства имён не поддерживаются — будет ошибка.
+ */
+
+interface AttrNode {
+  attr: true;
+  name: string;
+  value: string;
+  owner: UiNode;
+}
+
+type XNode = UiNode | AttrNode;
+type Value = XNode[] | string | number | boolean;
+
+type Axis =
+  | "child"
+  | "descendant"
+  | "descendant-or-self"
+  | "self"
+  | "parent"
+  | "ancestor"
+  | "ancestor-or-self"
+  | "following-sibling"
+  | "preceding-sibling"
+  | "attribute";
+
+const AXES: readonly Axis[] = [
+  "child",
+  "descendant",
+  "descendant-or-self",
+  "self",
+  "parent",
+  "ancestor",
+  "ancestor-or-self",
+  "following-sibling",
+  "preceding-sibling",
+  "attribute",
+];
+
+interface Step {
+  axis: Axis;
+  /** "*", имя тега/атрибута, "node()" или "text()". */
+  test: string;
+  predicates: Expr[];
+}
+
+type Expr =
+  | { kind: "or" | "and"; left: Expr; right: Expr }
+  | { kind: "cmp"; op: string; left: Expr; right: Expr }
+  | { kind: "union"; parts: Expr[] }
+  | { kind: "path"; absolute: boolean; filter?: Expr; filterPredicates: Expr[]; steps: Step[] }
+  | { kind: "literal"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "call"; name: string; args: Expr[] };
+
+// -------------------------------------------------------------
+// Разбор
+// -------------------------------------------------------------
+
+type Token = { type: "name" | "string" | "number" | "op"; value: string };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /\s*(?:(\.\.|::|\/\/|!=|<=|>=|[/[\]()@,|=<>*.])|("[^"]*"|'[^']*')|(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?))/y;
+  let pos = 0;
+  while (pos < src.length) {
+    if (/^\s*$/.test(src.slice(pos))) break;
+    re.lastIndex = pos;
+    const m = re.exec(src);
+    if (!m) throw new Error(`неожиданный символ '${src.slice(pos).trim()[0]}' в позиции ${pos + 1}`);
+    pos = re.lastIndex;
+    if (m[1]) tokens.push({ type: "op", value: m[1] });
+    else if (m[2]) tokens.push({ type: "string", value: m[2].slice(1, -1) });
+    else if (m[3]) tokens.push({ type: "number", value: m[3] });
+    else tokens.push({ type: "name", value: m[4] });
+  }
+  return tokens;
+}
+
+const NODE_TYPES = ["node", "text"];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {
+  }
+
+  parse(): Expr {
+    const expr = this.or();
+    if (this.pos < this.tokens.length) throw new Error(`неожиданный токен '${this.peek()!.value}'`);
+    return expr;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private isOp(value: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return t?.type === "op" && t.value === value;
+  }
+
+  private isName(value: string): boolean {
+    const t = this.peek();
+    return t?.type === "name" && t.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isOp(value)) throw new Error(`ожидалось '${value}', получено '${this.peek()?.value ?? "конец выражения"}'`);
+    this.pos++;
+  }
+
+  private or(): Expr {
+    let left = this.and();
+    while (this.isName("or")) {
+      this.pos++;
+      left = { kind: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Expr {
+    let left = this.comparison();
+    while (this.isName("and")) {
+      this.pos++;
+      left = { kind: "and", left, right: this.comparison() };
+    }
+    return left;
+  }
+
+  private comparison(): Expr {
+    let left = this.union();
+    while (["=", "!=", "<", "<=", ">", ">="].some((op) => this.isOp(op))) {
+      const op = this.tokens[this.pos++].value;
+      left = { kind: "cmp", op, left, right: this.union() };
+    }
+    return left;
+  }
+
+  private union(): Expr {
+    const parts = [this.path()];
+    while (this.isOp("|")) {
+      this.pos++;
+      parts.push(this.path());
+    }
+    return parts.length === 1 ? parts[0] : { kind: "union", parts };
+  }
+
+  private path(): Expr {
+    if (this.isOp("/")) {
+      this.pos++;
+      const steps = this.startsStep() ? this.relativeSteps() : [];
+      return { kind: "path", absolute: true, filterPredicates: [], steps };
+    }
+    if (this.isOp("//")) {
+      this.pos++;
+      return { kind: "path", absolute: true, filterPredicates: [], steps: [descendantOrSelf(), ...this.relativeSteps()] };
+    }
+    if (this.startsPrimary()) {
+      const filter = this.primary();
+      const filterPredicates = this.predicates();
+      const steps: Step[] = [];
+      if (this.isOp("/") || this.isOp("//")) {
+        if (this.tokens[this.pos++].value === "//") steps.push(descendantOrSelf());
+        steps.push(...this.relativeSteps());
+      }
+      if (!steps.length && !filterPredicates.length) return filter;
+      return { kind: "path", absolute: false, filter, filterPredicates, steps };
+    }
+    return { kind: "path", absolute: false, filterPredicates: [], steps: this.relativeSteps() };
+  }
+
+  private startsPrimary(): boolean {
+    const t = this.peek();
+    if (!t) return false;
+    if (t.type === "string" || t.type === "number") return true;
+    if (t.type === "op") return t.value === "(";
+    return this.isOp("(", 1) && !NODE_TYPES.includes(t.value) && !this.isOp("::", 1);
+  }
+
+  private startsStep(): boolean {
+    const t = this.peek();
+    return Boolean(t && (t.type === "name" || (t.type === "op" && [".", "..", "@", "*"].includes(t.value))));
+  }
+
+  private primary(): Expr {
+    const t = this.tokens[this.pos++];
+    if (t.type === "string") return { kind: "literal", value: t.value };
+    if (t.type === "number") return { kind: "number", value: Number(t.value) };
+    if (t.type === "op") {
+      const inner = this.or();
+      this.expect(")");
+      return inner;
+    }
+    this.expect("(");
+    const args: Expr[] = [];
+    if (!this.isOp(")")) {
+      args.push(this.or());
+      while (this.isOp(",")) {
+        this.pos++;
+        args.push(this.or());
+      }
+    }
+    this.expect(")");
+    return { kind: "call", name: t.value, args };
+  }
+
+  private relativeSteps(): Step[] {
+    const steps = [this.step()];
+    while (this.isOp("/") || this.isOp("//")) {
+      if (this.tokens[this.pos++].value === "//") steps.push(descendantOrSelf());
+      steps.push(this.step());
+    }
+    return steps;
+  }
+
+  private step(): Step {
+    if (this.isOp(".")) {
+      this.pos++;
+      return { axis: "self", test: "node()", predicates: [] };
+    }
+    if (this.isOp("..")) {
+      this.pos++;
+      return { axis: "parent", test: "node()", predicates: [] };
+    }
+    let axis: Axis = "child";
+    if (this.isOp("@")) {
+      this.pos++;
+      axis = "attribute";
+    } else if (this.peek()?.type === "name" && this.isOp("::", 1)) {
+      const name = this.tokens[this.pos].value;
+      if (!(AXES as readonly string[]).includes(name)) throw new Error(`ось '${name}' не поддерживается`);
+      axis = name as Axis;
+      this.pos += 2;
+    }
+    const t = this.tokens[this.pos++];
+    if (!t || (t.type !== "name" && !(t.type === "op" && t.value === "*"))) {
+      throw new Error(`ожидался шаг пути, получено '${t?.value ?? "конец выражения"}'`);
+    }
+    let test = t.value;
+    if (t.type === "name" && NODE_TYPES.includes(t.value) && this.isOp("(")) {
+      this.expect("(");
+      this.expect(")");
+      test = `${t.value}()`;
+    }
+    return { axis, test, predicates: this.predicates() };
+  }
+
+  private predicates(): Expr[] {
+    const out: Expr[] = [];
+    while (this.isOp("[")) {
+      this.pos++;
+      out.push(this.or());
+      this.expect("]");
+    }
+    return out;
+  }
+}
+
+function descendantOrSelf(): Step {
+  return { axis: "descendant-or-self", test: "node()", predicates: [] };
+}
+
+const cache = new Map<string, Expr>();
+
+/** Разбор выражения (с кэшем: одни и те же локаторы проверяются многократно). */
+export function compileXPath(xpath: string): Expr {
+  let expr = cache.get(xpath);
+  if (!expr) {
+    try {
+      expr = new Parser(tokenize(xpath)).parse();
+    } catch (e) {
+      throw new Error(`Некорректный или неподдерживаемый XPath '${xpath}': ${(e as Error).message}`);
+    }
+    if (cache.size > 500) cache.clear();
+    cache.set(xpath, expr);
+  }
+  return expr;
+}
+
+// -------------------------------------------------------------
+// Вычисление
+// -------------------------------------------------------------
+
+interface Context {
+  node: XNode;
+  position: number;
+  size: number;
+  order: Map<UiNode, number>;
+  document: UiNode;
+}
+
+function isAttr(node: XNode): node is AttrNode {
+  return (node as AttrNode).attr === true;
+}
+
+function stringValue(node: XNode): string {
+  // у Appium текст элемента хранится в атрибутах, текстовых узлов нет
+  return isAttr(node) ? node.value : "";
+}
+
+function toStr(v: Value): string {
+  if (Array.isArray(v)) return v.length ? stringValue(v[0]) : "";
+  return String(v);
+}
+
+function toNum(v: Value): number {
+  if (typeof v === "number") return v;
+  if (typeof v === "boolean") return v ? 1 : 0;
+  const s = toStr(v).trim();
+  return s === "" ? NaN : Number(s);
+}
+
+function toBool(v: Value): boolean {
+  if (Array.isArray(v)) return v.length > 0;
+  if (typeof v === "string") return v.length > 0;
+  if (typeof v === "number") return v !== 0 && !Number.isNaN(v);
+  return v;
+}
+
+function compareAtoms(op: string, a: string | number | boolean, b: string | number | boolean): boolean {
+  if (op === "=" || op === "!=") {
+    let eq: boolean;
+    if (typeof a === "boolean" || typeof b === "boolean") eq = toBool(a) === toBool(b);
+    else if (typeof a === "number" || typeof b === "number") eq = toNum(a) === toNum(b);
+    else eq = a === b;
+    return op === "=" ? eq : !eq;
+  }
+  const x = toNum(a);
+  const y = toNum(b);
+  switch (op) {
+    case "<":
+      return x < y;
+    case "<=":
+      return x <= y;
+    case ">":
+      return x > y;
+    default:
+      return x >= y;
+  }
+}
+
+const INVERSE_OPS: Record<string, string> = { "=": "=", "!=": "!=", "<": ">", "<=": ">=", ">": "<", ">=": "<=" };
+
+function compare(op: string, a: Value, b: Value): boolean {
+  if (!Array.isArray(a) && Array.isArray(b)) return compare(INVERSE_OPS[op], b, a);
+  if (!Array.isArray(a)) return compareAtoms(op, a, b as string | number | boolean);
+  if (Array.isArray(b)) {
+    return a.some((x) => b.some((y) => compareAtoms(op, stringValue(x), stringValue(y))));
+  }
+  if (typeof b === "boolean") return compareAtoms(op, toBool(a), b);
+  return a.some((x) => compareAtoms(op, typeof b === "number" ? toNum(stringValue(x)) : stringValue(x), b));
+}
+
+function axisNodes(node: XNode, axis: Axis): XNode[] {
+  if (isAttr(node)) {
+    if (axis === "self" || axis === "descendant-or-self") return [node];
+    if (axis === "parent") return [node.owner];
+    if (axis === "ancestor" || axis === "ancestor-or-self") {
+      return [...(axis === "ancestor-or-self" ? [node] : []), node.owner, ...ancestors(node.owner)];
+    }
+    return [];
+  }
+  switch (axis) {
+    case "child":
+      return node.children;
+    case "descendant":
+      return descendants(node);
+    case "descendant-or-self":
+      return [node, ...descendants(node)];
+    case "self":
+      return [node];
+    case "parent":
+      return node.parent ? [node.parent] : [];
+    case "ancestor":
+      return ancestors(node);
+    case "ancestor-or-self":
+      return [node, ...ancestors(node)];
+    case "following-sibling": {
+      const siblings = node.parent?.children ?? [];
+      return siblings.slice(siblings.indexOf(node) + 1);
+    }
+    case "preceding-sibling": {
+      const siblings = node.parent?.children ?? [];
+      return siblings.slice(0, siblings.indexOf(node)).reverse();
+    }
+    case "attribute":
+      return Object.entries(node.attributes).map(([name, value]) => ({ attr: true, name, value, owner: node }));
+  }
+}
+
+function ancestors(node: UiNode): UiNode[] {
+  const out: UiNode[] = [];
+  for (let p = node.parent; p; p = p.parent) out.push(p);
+  return out;
+}
+
+function matchesTest(node: XNode, step: Step): boolean {
+  if (step.test === "node()") return true;
+  if (step.test === "text()") return false;
+  if (step.axis === "attribute") return isAttr(node) && (step.test === "*" || node.name === step.test);
+  if (isAttr(node) || node.tag === "#document") return false;
+  return step.test === "*" || node.tag === step.test;
+}
+
+function applyPredicates(nodes: XNode[], predicates: Expr[], ctx: Context): XNode[] {
+  let current = nodes;
+  for (const predicate of predicates) {
+    const size = current.length;
+    current = current.filter((node, i) => {
+      const v = evaluate(predicate, { ...ctx, node, position: i + 1, size });
+      return typeof v === "number" ? v === i + 1 : toBool(v);
+    });
+  }
+  return current;
+}
+
+function docOrder(nodes: XNode[], order: Map<UiNode, number>): XNode[] {
+  const unique = [...new Set(nodes)];
+  const rank = (n: XNode) => (isAttr(n) ? (order.get(n.owner) ?? 0) + 0.5 : (order.get(n) ?? -1));
+  return unique.sort((a, b) => rank(a) - rank(b));
+}
+
+function evalPath(expr: Extract<Expr, { kind: "path" }>, ctx: Context): XNode[] {
+  let nodes: XNode[];
+  if (expr.absolute) {
+    nodes = [ctx.document];
+  } else if (expr.filter) {
+    const v = evaluate(expr.filter, ctx);
+    if (!Array.isArray(v)) throw new Error("фильтр пути должен возвращать узлы");
+    nodes = applyPredicates(v, expr.filterPredicates, ctx);
+  } else {
+    nodes = [ctx.node];
+  }
+  for (const step of expr.steps) {
+    const next: XNode[] = [];
+    for (const node of nodes) {
+      const candidates = axisNodes(node, step.axis).filter((n) => matchesTest(n, step));
+      // предикаты считают позицию в порядке оси: для обратных осей — от ближайшего
+      next.push(...applyPredicates(candidates, step.predicates, ctx));
+    }
+    nodes = docOrder(next, ctx.order);
+  }
+  return nodes;
+}
+
+function arity(name: string, args: Expr[], min: number, max = min) {
+  if (args.length < min || args.length > max) throw new Error(`${name}(): неверное число аргументов`);
+}
+
+function call(name: string, args: Expr[], ctx: Context): Value {
+  const arg = (i: number) => evaluate(args[i], ctx);
+  const str = (i: number) => (args.length > i ? toStr(arg(i)) : stringValue(ctx.node));
+  switch (name) {
+    case "last":
+      return ctx.size;
+    case "position":
+      return ctx.position;
+    case "count": {
+      arity(name, args, 1);
+      const v = arg(0);
+      if (!Array.isArray(v)) throw new Error("count() ожидает узлы");
+      return v.length;
+    }
+    case "string":
+      arity(name, args, 0, 1);
+      return str(0);
+    case "number":
+      arity(name, args, 0, 1);
+      return toNum(args.length ? arg(0) : stringValue(ctx.node));
+    case "boolean":
+      arity(name, args, 1);
+      return toBool(arg(0));
+    case "not":
+      arity(name, args, 1);
+      return !toBool(arg(0));
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "concat":
+      if (args.length < 2) throw new Error("concat(): нужно не меньше двух аргументов");
+      return args.map((_, i) => str(i)).join("");
+    case "contains":
+      arity(name, args, 2);
+      return str(0).includes(str(1));
+    case "starts-with":
+      arity(name, args, 2);
+      return str(0).startsWith(str(1));
+    case "ends-with":
+      arity(name, args, 2);
+      return str(0).endsWith(str(1));
+    case "normalize-space":
+      arity(name, args, 0, 1);
+      return str(0).trim().replace(/\s+/g, " ");
+    case "string-length":
+      arity(name, args, 0, 1);
+      return [...str(0)].length;
+    case "translate": {
+      arity(name, args, 3);
+      const [s, from, to] = [str(0), str(1), str(2)];
+      return [...s]
+        .map((c) => {
+          const i = from.indexOf(c);
+          return i < 0 ? c : (to[i] ?? "");
+        })
+        .join("");
+    }
+    case "name":
+    case "local-name": {
+      arity(name, args, 0, 1);
+      const v = args.length ? arg(0) : [ctx.node];
+      if (!Array.isArray(v)) throw new Error(`${name}() ожидает узлы`);
+      const n = v[0];
+      return !n ? "" : isAttr(n) ? n.name : n.tag;
+    }
+    default:
+      throw new Error(`функция ${name}() не поддерживается`);
+  }
+}
+
+function evaluate(expr: Expr, ctx: Context): Value {
+  switch (expr.kind) {
+    case "or":
+      return toBool(evaluate(expr.left, ctx)) || toBool(evaluate(expr.right, ctx));
+    case "and":
+      return toBool(evaluate(expr.left, ctx)) && toBool(evaluate(expr.right, ctx));
+    case "cmp":
+      return compare(expr.op, evaluate(expr.left, ctx), evaluate(expr.right, ctx));
+    case "union": {
+      const all: XNode[] = [];
+      for (const part of expr.parts) {
+        const v = evaluate(part, ctx);
+        if (!Array.isArray(v)) throw new Error("операнды | должны быть узлами");
+        all.push(...v);
+      }
+      return docOrder(all, ctx.order);
+    }
+    case "path":
+      return evalPath(expr, ctx);
+    case "literal":
+      return expr.value;
+    case "number":
+      return expr.value;
+    case "call":
+      return call(expr.name, expr.args, ctx);
+  }
+}
+
+const orders = new WeakMap<UiNode, Map<UiNode, number>>();
+
+function documentOf(node: UiNode): UiNode {
+  let root = node;
+  while (root.parent) root = root.parent;
+  return root;
+}
+
+/**
+ * Узлы, найденные XPath. context — узел, от которого считаются относительные пути
+ * (по умолчанию документ); абсолютный путь всегда ищется от корня документа.
+ */
+export function evaluateXPath(xpath: string, context: UiNode): UiNode[] {
+  const expr = compileXPath(xpath);
+  const document = documentOf(context);
+  let order = orders.get(document);
+  if (!order) {
+    order = new Map([document, ...descendants(document)].map((n, i) => [n, i]));
+    orders.set(document, order);
+  }
+  let result: Value;
+  try {
+    result = evaluate(expr, { node: context, position: 1, size: 1, order, document });
+  } catch (e) {
+    throw new Error(`Некорректный или неподдерживаемый XPath '${xpath}': ${(e as Error).message}`);
+  }
+  if (!Array.isArray(result)) throw new Error(`XPath '${xpath}' должен возвращать элементы, а не значение`);
+  return result.filter((n): n is UiNode => !isAttr(n) && n.tag !== "#document");
+}
@@ -0,0 +1,27 @@
+/** Расстояние Левенштейна — для подсказок при опечатках и сравнения текстов. */
+export function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+/** Ближайший вариант из списка, если он достаточно похож. */
+export function suggest(input: string, candidates: readonly string[]): string | undefined {
+  const needle = input.toLowerCase();
+  let best: { value: string; dist: number } | undefined;
+  for (const c of candidates) {
+    const dist = editDistance(needle, c.toLowerCase());
+    if (!best || dist < best.dist) best = { value: c, dist };
+  }
+  if (!best) return undefined;
+  const limit = Math.max(2, Math.floor(needle.length / 3));
+  return best.dist <= limit ? best.value : undefined;
+}
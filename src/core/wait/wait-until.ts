@@ -0,0 +1,128 @@
+import { DEFAULT_POLLING_INTERVAL } from "../constants";
+
+export interface WaitUntilOptions<T> {
+  /** Максимум секунд ожидания. При 0 условие проверяется один раз. */
+  timeout: number;
+  /** Пауза между попытками, мс. */
+  interval?: number;
+  /** Множитель паузы после каждой неудачной попытки (1 — без роста). */
+  backoff?: number;
+  /** Потолок паузы при backoff, мс. */
+  maxInterval?: number;
+  /** Что ждали — начало текста ошибки. */
+  message?: string | (() => string);
+  /** Отмена ожидания: например, при завершении теста. */
+  signal?: AbortSignal;
+  /** Когда значение условия считается успехом. По умолчанию — любое truthy. */
+  until?: (value: T) => boolean;
+  /** Последнее значение для текста ошибки. По умолчанию JSON, false/null/undefined не показываются. */
+  describe?: (value: T) => string;
+}
+
+/** Условие не выполнилось за timeout; в ошибке — сколько ждали и что видели последним. */
+export class WaitTimeoutError<T = unknown> extends Error {
+  constructor(
+    message: string,
+    readonly elapsed: number,
+    readonly attempts: number,
+    readonly lastValue: T | undefined,
+    readonly lastError: unknown
+  ) {
+    super(message);
+    this.name = "WaitTimeoutError";
+  }
+}
+
+/** Ожидание отменено через AbortSignal. */
+export class WaitAbortedError extends Error {
+  constructor(message: string, readonly elapsed: number) {
+    super(message);
+    this.name = "WaitAbortedError";
+  }
+}
+
+/** Пауза, которую можно прервать сигналом; при отмене завершается сразу. */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+function defaultDescribe(value: unknown): string | null {
+  if (value === undefined || value === null || value === false) return null;
+  if (typeof value === "string") return JSON.stringify(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} с`;
+
+/**
+ * Опрашивает condition, пока результат не станет успешным (см. until), и возвращает его.
+ * Исключение из condition — неудачная попытка; последнее попадёт в WaitTimeoutError.lastError.
+ *
+ *   const badge = await waitUntil(() => cart.getBadge(), { timeout: 5, message: "бейдж корзины" });
+ */
+export function waitUntil<T>(
+  condition: (attempt: number) => Promise<T> | T,
+  options: WaitUntilOptions<T> & { until: (value: T) => boolean }
+): Promise<T>;
+export function waitUntil<T>(condition: (attempt: number) => Promise<T> | T, options: WaitUntilOptions<T>): Promise<NonNullable<T>>;
+export async function waitUntil<T>(
+  condition: (attempt: number) => Promise<T> | T,
+  options: WaitUntilOptions<T>
+): Promise<T> {
+  const { timeout, backoff = 1, signal, until = Boolean } = options;
+  const maxInterval = options.maxInterval ?? Infinity;
+  if (!(timeout >= 0)) throw new Error(`waitUntil(): timeout=${timeout}, ожидалось число секунд ≥ 0`);
+  if (!(backoff >= 1)) throw new Error(`waitUntil(): backoff=${backoff}, ожидалось ≥ 1`);
+
+  const what = () => (typeof options.message === "function" ? options.message() : options.message) ?? "Условие";
+  const start = Date.now();
+  let interval = options.interval ?? DEFAULT_POLLING_INTERVAL;
+  let lastValue: T | undefined;
+  let lastError: unknown;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new WaitAbortedError(`${what()}: ожидание прервано через ${seconds(Date.now() - start)}`, Date.now() - start);
+    }
+    try {
+      lastValue = await condition(attempt);
+      lastError = undefined;
+      if (until(lastValue)) return lastValue;
+    } catch (e) {
+      lastError = e;
+    }
+
+    const elapsed = Date.now() - start;
+    const left = timeout * 1000 - elapsed;
+    if (left <= 0) {
+      const value = lastValue === undefined ? null : options.describe ? options.describe(lastValue) : defaultDescribe(lastValue);
+      const detail = lastError
+        ? `; последняя ошибка: ${(lastError as Error)?.message ?? lastError}`
+        : value
+          ? `; последнее значение: ${value}`
+          : "";
+      throw new WaitTimeoutError(
+        `${what()}: не дождались за ${timeout} с (прошло ${seconds(elapsed)}, попыток: ${attempt + 1})${detail}`,
+        elapsed,
+        attempt + 1,
+        lastValue,
+        lastError
+      );
+    }
+    await abortableSleep(Math.min(interval, left), signal);
+    interval = Math.min(interval * backoff, maxInterval);
+  }
+}
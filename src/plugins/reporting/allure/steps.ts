@@ -1,5 +1,6 @@
 import * as allure from "allure-js-commons";
 import { ContentType } from "allure-js-commons";
+import { maskSecretArgs } from "../../../core/input/keyboard";
 
 /** Безопасное имя шага из template literal */
 function interpolate(strings: TemplateStringsArray, exprs: any[]) {
@@ -67,16 +68,20 @@ export function withStep<T extends object>(title: string, target: T): T {
   });
 }
 
-/** Фабрика: оборачивает ВСЕ методы объекта в автошаги (дефолтные названия). */
+/**
+ * Фабрика: оборачивает ВСЕ методы объекта в автошаги (дефолтные названия).
+ * Строковые аргументы вызова с опцией { secret: true } в названия шагов не попадают.
+ */
 export function createAlluredProxy<T extends object>(target: T, titleFn?: (method: string, args: any[]) => string): T {
   return new Proxy(target, {
     get(obj, prop, receiver) {
       const orig: any = Reflect.get(obj, prop, receiver);
       if (typeof orig !== "function") return orig;
       return async (...args: any[]) => {
+        const shown = maskSecretArgs(args);
         const title = titleFn
-          ? titleFn(String(prop), args)
-          : `${String(prop)}(${args.map(a => JSON.stringify(a)).join(", ")})`;
+          ? titleFn(String(prop), shown)
+          : `${String(prop)}(${shown.map(a => JSON.stringify(a)).join(", ")})`;
         return await step(title, () => orig.apply(obj, args));
       };
     },
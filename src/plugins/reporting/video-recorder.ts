@@ -1,4 +1,4 @@
-import { AppConfig } from "../../config/app-config";
+import { AppConfig, type AppConfiguration, currentConfig } from "../../config/app-config";
 import { Platform } from "../../core/platform";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
@@ -11,14 +11,17 @@ import * as path from "node:path";
 class _VideoRecorder {
   private currentVideoPath: string | null = null;
   private isRecording = false;
+  /** Конфигурация, с которой начата запись, — остановка использует её же, даже если override уже снят. */
+  private recordingConfig: AppConfiguration | null = null;
 
   /**
    * Запускает запись видео для текущего теста.
    * Возвращает true, если запись реально началась.
    */
   async startRecording(driver: WebdriverIO.Browser, testName: string): Promise<boolean> {
-    if (!AppConfig.isVideoRecordingEnabled()) {
-      const platform = AppConfig.getPlatform();
+    const config = currentConfig();
+    if (!config.isVideoRecordingEnabled()) {
+      const platform = config.getPlatform();
       console.info(
         `Запись видео отключена для платформы ${platform}. Включите параметр ${String(
           platform
@@ -35,7 +38,7 @@ class _VideoRecorder {
     try {
       console.info(`[VideoRecorder] Запуск записи видео: ${testName}`);
 
-      const outDir = AppConfig.getVideoRecordingOutputDir();
+      const outDir = config.getVideoRecordingOutputDir();
       await fs.mkdir(outDir, { recursive: true });
 
       const timestamp = new Date()
@@ -46,19 +49,19 @@ class _VideoRecorder {
       const safeTestName = testName.replace(/[^a-zA-Z0-9_-]/g, "_");
       this.currentVideoPath = path.resolve(outDir, `${safeTestName}_${timestamp}.mp4`);
 
-      const platform = AppConfig.getPlatform();
+      const platform = config.getPlatform();
       if (platform === Platform.ANDROID) {
         // Android 10+: системная запись экрана через MediaProjection
         await driver.execute("mobile: startMediaProjectionRecording", {
-          videoSize: AppConfig.getVideoRecordingSize(), // "640x360"
-          videoQuality: String(AppConfig.getVideoRecordingQuality()), // "70"
+          videoSize: config.getVideoRecordingSize(), // "640x360"
+          videoQuality: String(config.getVideoRecordingQuality()), // "70"
           timeLimit: "1800",
           forceRestart: "true",
-          bitRate: String(AppConfig.getVideoRecordingBitrate()),
+          bitRate: String(config.getVideoRecordingBitrate()),
         });
         console.info(
-          `[VideoRecorder] Android запись начата (${AppConfig.getVideoRecordingSize()}, q=${AppConfig.getVideoRecordingQuality()}, ` +
-          `bitrate=${AppConfig.getVideoRecordingBitrate() / 1000} Kbps)`
+          `[VideoRecorder] Android запись начата (${config.getVideoRecordingSize()}, q=${config.getVideoRecordingQuality()}, ` +
+          `bitrate=${config.getVideoRecordingBitrate() / 1000} Kbps)`
         );
       } else if (platform === Platform.IOS) {
         // Appium: startRecordingScreen -> base64 при stop
@@ -73,6 +76,7 @@ class _VideoRecorder {
       }
 
       this.isRecording = true;
+      this.recordingConfig = config;
       return true;
     } catch (e: any) {
       console.error(`[VideoRecorder] Не удалось начать запись видео: ${e?.message || e}`);
@@ -97,7 +101,9 @@ class _VideoRecorder {
       console.info(`[VideoRecorder] Остановка записи видео: ${testName}`);
 
       let base64Video = "";
-      const platform = AppConfig.getPlatform();
+      const config = this.recordingConfig ?? currentConfig();
+      this.recordingConfig = null;
+      const platform = config.getPlatform();
 
       if (platform === Platform.ANDROID) {
         base64Video = (await driver.execute("mobile: stopMediaProjectionRecording")) as string;
@@ -115,7 +121,7 @@ class _VideoRecorder {
       this.isRecording = false;
 
       const buffer = Buffer.from(base64Video, "base64");
-      const videoPath = this.currentVideoPath ?? path.resolve(AppConfig.getVideoRecordingOutputDir(), "unknown_test.mp4");
+      const videoPath = this.currentVideoPath ?? path.resolve(config.getVideoRecordingOutputDir(), "unknown_test.mp4");
       await fs.writeFile(videoPath, buffer);
       console.info(`[VideoRecorder] Видео сохранено: ${videoPath}`);
 
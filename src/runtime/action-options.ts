@@ -0,0 +1,188 @@
+import { actionDefaults } from "../core/defaults";
+import { ScrollDirection } from "../core/gestures/scroll-direction";
+import { PageElement } from "../core/locators/page-element";
+import { suggest } from "../core/string-similarity";
+
+/** Скролл при поиске элемента; для swipeDown/swipeUp и т.п. — сами свайпы. */
+export interface ScrollOptions {
+  /** Допустимое число скроллов. 0 — без скролла. */
+  count?: number;
+  /** Доля экрана (элемента) за один скролл, (0; 1]. */
+  capacity?: number;
+  direction?: ScrollDirection;
+  /** Прокручивать этот элемент (список, карусель), а не весь экран. */
+  container?: PageElement | null;
+  /** Не найдя элемент в direction, искать и в обратную сторону. */
+  bidirectional?: boolean;
+  /** Прекращать скролл, когда содержимое перестало прокручиваться. */
+  detectEnd?: boolean;
+  /** mobile: scrollGesture / mobile: scroll вместо свайпа. */
+  native?: boolean;
+}
+
+/**
+ * Опции действий MobileActions вместо длинного списка позиционных параметров:
+ *
+ *   await mobileTest.click(el, { index: 2, timeout: 20, scroll: { count: 3, direction: ScrollDirection.Up } });
+ *
+ * Не указанные поля берутся из действующих значений по умолчанию (см. actionDefaults).
+ */
+export interface ActionOptions {
+  /** Номер элемента среди найденных, с 1. */
+  index?: number | null;
+  /** Максимум секунд поиска элемента. */
+  timeout?: number;
+  /** Секунды ожидания стабильного UI перед поиском. */
+  before?: number;
+  /** Частота опроса (мс). */
+  polling?: number;
+  scroll?: ScrollOptions;
+}
+
+/** Поиск элемента по точному тексту или подстроке. */
+export interface TextQuery {
+  text?: string;
+  containsText?: string;
+}
+
+/** Опции со всеми значениями. */
+export interface ResolvedActionOptions {
+  index: number | null;
+  timeout: number;
+  before: number;
+  polling: number;
+  scroll: Required<ScrollOptions>;
+}
+
+const OPTION_KEYS = ["index", "timeout", "before", "polling", "scroll"];
+const SCROLL_KEYS = ["count", "capacity", "direction", "container", "bidirectional", "detectEnd", "native"];
+
+/** Объект опций, а не позиционный elementNumber (number | null | undefined). */
+export function isActionOptions(value: unknown): value is ActionOptions {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function checkKeys(obj: object, allowed: string[], prefix: string, errors: string[]) {
+  for (const key of Object.keys(obj)) {
+    if (allowed.includes(key)) continue;
+    const hint = suggest(key, allowed);
+    errors.push(`неизвестная опция '${prefix}${key}'${hint ? ` — возможно, '${prefix}${hint}'?` : ""}`);
+  }
+}
+
+function checkNumber(
+  name: string,
+  value: unknown,
+  rule: { integer?: boolean; min: number; exclusiveMin?: boolean; max?: number },
+  errors: string[]
+) {
+  if (value === undefined) return;
+  const ok =
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    (!rule.integer || Number.isInteger(value)) &&
+    (rule.exclusiveMin ? value > rule.min : value >= rule.min) &&
+    (rule.max === undefined || value <= rule.max);
+  if (ok) return;
+  const range = `${rule.exclusiveMin ? ">" : "≥"} ${rule.min}${rule.max !== undefined ? ` и ≤ ${rule.max}` : ""}`;
+  errors.push(`${name}=${JSON.stringify(value)}: ожидалось ${rule.integer ? "целое " : ""}число ${range}`);
+}
+
+/**
+ * Строгая проверка опций: неизвестные ключи, типы и диапазоны. Все ошибки сообщаются разом.
+ * @param method имя действия для сообщения об ошибке
+ */
+export function resolveActionOptions(method: string, options: ActionOptions = {}): ResolvedActionOptions {
+  const errors: string[] = [];
+  if (!isActionOptions(options)) {
+    throw new Error(`${method}(): опции должны быть объектом, получено ${String(options)}`);
+  }
+  checkKeys(options, OPTION_KEYS, "", errors);
+
+  if (options.index !== undefined && options.index !== null) {
+    checkNumber("index", options.index, { integer: true, min: 1 }, errors);
+  }
+  checkNumber("timeout", options.timeout, { min: 0 }, errors);
+  checkNumber("before", options.before, { min: 0 }, errors);
+  checkNumber("polling", options.polling, { min: 0, exclusiveMin: true }, errors);
+
+  const scroll = options.scroll ?? {};
+  if (!isActionOptions(scroll)) {
+    errors.push(`scroll: ожидался объект { count, capacity, direction }`);
+  } else {
+    checkKeys(scroll, SCROLL_KEYS, "scroll.", errors);
+    checkNumber("scroll.count", scroll.count, { integer: true, min: 0 }, errors);
+    checkNumber("scroll.capacity", scroll.capacity, { min: 0, exclusiveMin: true, max: 1 }, errors);
+    if (scroll.direction !== undefined && !Object.values(ScrollDirection).includes(scroll.direction)) {
+      errors.push(
+        `scroll.direction=${JSON.stringify(scroll.direction)}: допустимые значения ${Object.values(ScrollDirection).join(", ")}`
+      );
+    }
+    if (scroll.container !== undefined && scroll.container !== null && !(scroll.container instanceof PageElement)) {
+      errors.push("scroll.container: ожидался PageElement");
+    }
+    for (const key of ["bidirectional", "detectEnd", "native"] as const) {
+      if (scroll[key] !== undefined && typeof scroll[key] !== "boolean") {
+        errors.push(`scroll.${key}=${JSON.stringify(scroll[key])}: ожидалось true или false`);
+      }
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Некорректные опции ${method}():\n${errors.map((e) => ` - ${e}`).join("\n")}`);
+  }
+
+  const d = actionDefaults();
+  return {
+    index: options.index ?? null,
+    timeout: options.timeout ?? d.timeoutExpectation,
+    before: options.before ?? d.timeoutBeforeExpectation,
+    polling: options.polling ?? d.pollingInterval,
+    scroll: {
+      count: scroll.count ?? d.scrollCount,
+      capacity: scroll.capacity ?? d.scrollCapacity,
+      direction: scroll.direction ?? d.scrollDirection,
+      container: scroll.container ?? null,
+      bidirectional: scroll.bidirectional ?? d.scrollBidirectional,
+      detectEnd: scroll.detectEnd ?? d.scrollDetectEnd,
+      native: scroll.native ?? d.scrollNative,
+    },
+  };
+}
+
+/** Позиционный аргумент: null и undefined — «по умолчанию». */
+function positional<T>(value: unknown): T | undefined {
+  return value === null || value === undefined ? undefined : (value as T);
+}
+
+/**
+ * Приводит хвост аргументов к опциям. Позиционные значения проверяются так же строго,
+ * как объект опций: click(el, "2") — ошибка, а не строка в драйвере.
+ */
+export function actionOptionsFromArgs(method: string, args: readonly unknown[]): ResolvedActionOptions {
+  if (isActionOptions(args[0])) {
+    if (args.slice(1).some((a) => a !== undefined)) {
+      throw new Error(`${method}(): после объекта опций не ожидается других аргументов`);
+    }
+    return resolveActionOptions(method, args[0]);
+  }
+  const [index, before, timeout, polling, count, capacity, direction] = args;
+  return resolveActionOptions(method, {
+    index: positional<number>(index),
+    before: positional<number>(before),
+    timeout: positional<number>(timeout),
+    polling: positional<number>(polling),
+    scroll: {
+      count: positional<number>(count),
+      capacity: positional<number>(capacity),
+      direction: positional<ScrollDirection>(direction),
+    },
+  });
+}
+
+/** Позиционные scrollCount и scrollCapacity свайпов/скроллов с той же проверкой, что и scroll.* в опциях. */
+export function scrollFromArgs(method: string, count: unknown, capacity: unknown): Required<ScrollOptions> {
+  return resolveActionOptions(method, {
+    scroll: { count: positional<number>(count), capacity: positional<number>(capacity) },
+  }).scroll;
+}
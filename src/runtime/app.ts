@@ -4,6 +4,15 @@ import { IosDriver } from "../adapters/appium/drivers/ios-driver";
 import { Platform } from "../core/platform";
 import WebServer from "../proxy/web-server";
 import { DriverRegistry } from "../adapters/appium/drivers/driver-registry";
+import type { CapabilityOverride } from "../adapters/appium/drivers/capabilities";
+
+/** Параметры запуска сессии. */
+export interface LaunchOptions {
+  /** Имя теста — передаётся в функции overrideCapabilities(...). */
+  testName?: string;
+  /** Capabilities поверх сгенерированных, caps.* из конфигурации и overrideCapabilities. */
+  capabilities?: CapabilityOverride;
+}
 
 export class App {
   static current: App;
@@ -23,27 +32,27 @@ export class App {
    * - создаёт новый драйвер для выбранной платформы
    * - запускает локальный WebServer
    */
-  async launch(): Promise<this> {
+  async launch(options: LaunchOptions = {}): Promise<this> {
     if (this.driver) {
       await this.close();
     }
 
-    await this.createDriver(); // дожидаемся полноценного старта драйвера
+    await this.createDriver(options); // дожидаемся полноценного старта драйвера
     // старт веб-сервера (если метод синхронный — Promise.resolve не помешает)
     await Promise.resolve(this.webServer.start());
 
     return this;
   }
 
-  private async createDriver(): Promise<void> {
+  private async createDriver(options: LaunchOptions): Promise<void> {
     const platform = AppConfig.getPlatform();
 
     if (platform === Platform.ANDROID) {
       console.info("[App] Инициализация Android-драйвера");
-      this.driver = await new AndroidDriver(true).getAndroidDriver(3);
+      this.driver = await new AndroidDriver(true, AppConfig, options).getAndroidDriver(3);
     } else if (platform === Platform.IOS) {
       console.info("[App] Инициализация iOS-драйвера");
-      this.driver = await new IosDriver(true).getIOSDriver(3);
+      this.driver = await new IosDriver(true, AppConfig, options).getIOSDriver(3);
     } else {
       throw new Error(`[App] Неподдерживаемая платформа: ${platform}`);
     }
@@ -0,0 +1,67 @@
+import { AppConfig } from "../config/app-config";
+import type { PageElement } from "../core/locators/page-element";
+import { diagnoseElement, formatDiagnosis, summarizeDiagnosis } from "../core/page-source/diagnostics";
+import { PageSource } from "../core/page-source/page-source";
+
+function attach(name: string, content: Buffer, type: string) {
+  const g = globalThis as any;
+  if (!g.allure?.attachment) return;
+  try {
+    g.allure.attachment(name, content, type);
+  } catch (e: any) {
+    console.warn(`[ElementDiagnostics] Не удалось приложить '${name}' к отчёту: ${e?.message}`);
+  }
+}
+
+/**
+ * Диагностика «элемент не найден» на момент ошибки: снимок экрана, page source и отчёт
+ * (локаторы, видимость, похожие элементы) прикладываются к Allure.
+ * Возвращает краткую сводку для текста ошибки; если снять page source не удалось — null.
+ */
+export async function reportElementNotFound(
+  driver: WebdriverIO.Browser,
+  element: PageElement,
+  index: number | null
+): Promise<string | null> {
+  let xml: string;
+  try {
+    xml = await driver.getPageSource();
+  } catch (e) {
+    console.warn(`[ElementDiagnostics] Page source недоступен: ${(e as Error).message}`);
+    return null;
+  }
+  attach("pageSource.xml", Buffer.from(xml, "utf8"), "application/xml");
+
+  try {
+    const png = await driver.takeScreenshot();
+    attach("screenshot.png", Buffer.from(png, "base64"), "image/png");
+  } catch (e) {
+    console.warn(`[ElementDiagnostics] Скриншот не снят: ${(e as Error).message}`);
+  }
+
+  try {
+    const diagnosis = diagnoseElement(PageSource.parse(xml, AppConfig.getPlatform()), element, { index });
+    const report = formatDiagnosis(diagnosis);
+    attach("Диагностика поиска элемента", Buffer.from(report, "utf8"), "text/plain");
+    console.info(`[ElementDiagnostics]\n${report}`);
+    return summarizeDiagnosis(diagnosis);
+  } catch (e) {
+    console.warn(`[ElementDiagnostics] Не удалось разобрать page source: ${(e as Error).message}`);
+    return null;
+  }
+}
+
+/** Снимок экрана и page source в отчёт с префиксом имени — состояние экрана в момент ошибки. */
+export async function attachScreenState(driver: WebdriverIO.Browser, prefix: string): Promise<void> {
+  try {
+    const png = await driver.takeScreenshot();
+    attach(`${prefix}: screenshot.png`, Buffer.from(png, "base64"), "image/png");
+  } catch (e) {
+    console.warn(`[ElementDiagnostics] Скриншот не снят: ${(e as Error).message}`);
+  }
+  try {
+    attach(`${prefix}: pageSource.xml`, Buffer.from(await driver.getPageSource(), "utf8"), "application/xml");
+  } catch (e) {
+    console.warn(`[ElementDiagnostics] Page source недоступен: ${(e as Error).message}`);
+  }
+}
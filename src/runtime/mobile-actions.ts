@@ -12,13 +12,34 @@ import { App } from "./app";
 import { AppiumServerManager } from "../adapters/appium/service-manager";
 import { AppConfig } from "../config/app-config";
 import { Platform } from "../core/platform";
-import { PageElement } from "../core/locators/page-element";
+import { type Locator, PageElement, relativeXPath } from "../core/locators/page-element";
 import { ScrollDirection } from "../core/gestures/scroll-direction";
+import { ScrollSearch } from "../core/gestures/scroll-search";
+import { type NativeGesture, nativeGestureCommand, nativeScrollCommand } from "../core/gestures/native-gestures";
+import {
+  type DragGesture,
+  dragActions,
+  type LongPressGesture,
+  longPressActions,
+  type PathGesture,
+  pathActions,
+  type PinchGesture,
+  pinchActions,
+  pointIn,
+  type PointerSequence,
+  type Rect,
+  type RelativePoint,
+  type RotateGesture,
+  rotateActions,
+  type TapGesture,
+  tapActions,
+} from "../core/gestures/pointer-actions";
 import { AlertHandler } from "../core/interaction/alert-handler";
 import { EventStorage } from "../domain/events/storage";
-import type { EventData } from "../domain/events/model";
+import type { Event, EventData } from "../domain/events/model";
 import { DriverRegistry } from "../adapters/appium/drivers/driver-registry";
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { Terminal } from "../adapters/system/terminal";
@@ -26,81 +47,165 @@ import { VideoRecorder } from "../plugins/reporting/video-recorder";
 import { LogCapture } from "../plugins/reporting/log-capture";
 import { AnrWatcher } from "../plugins/android/anr-watcher";
 import { EmulatorManager } from "../adapters/devices/emulator-manager";
+import { DeviceSettings } from "../adapters/devices/device-settings";
+import { Permissions } from "../adapters/devices/permissions";
 
+import { actionDefaults } from "../core/defaults";
+import { PageSource } from "../core/page-source/page-source";
+import {
+  type CountExpectation,
+  describeCountExpectation,
+  describeTextExpectation,
+  matchesCount,
+  matchesText,
+  type TextExpectation,
+} from "../core/assertions/expectations";
+import { formatSoftFailures, SoftAssertionCollector } from "../core/assertions/soft-assertions";
+import {
+  appIdArgs,
+  AppState,
+  appStateName,
+  installAppArgs,
+  launchAppCommand,
+  type LaunchAppOptions,
+} from "../core/app/app-lifecycle";
+import { abortableSleep, waitUntil, WaitTimeoutError, type WaitUntilOptions } from "../core/wait/wait-until";
+import {
+  ANDROID_KEYCODE,
+  displayText,
+  type ImeAction,
+  imeActionCommand,
+  IOS_HIDE_KEYBOARD_KEYS,
+  iosReturnKeyLocator,
+  type TypingOptions,
+} from "../core/input/keyboard";
+import { attachScreenState, reportElementNotFound } from "./element-diagnostics";
+import { appendHealingReport, type HealingRecord, KnownGoodStore } from "../core/healing/known-good-store";
+import { findHealingCandidate, fingerprintOf, healingLocator } from "../core/healing/locator-healing";
 import {
-  DEFAULT_POLLING_INTERVAL,
-  DEFAULT_SCROLL_CAPACITY,
-  DEFAULT_SCROLL_COEFFICIENT,
-  DEFAULT_SCROLL_COUNT,
-  DEFAULT_SCROLL_DIRECTION,
-  DEFAULT_SWIPE_COEFFICIENT,
-  DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-  DEFAULT_TIMEOUT_EXPECTATION,
-  DEFAULT_TIMEOUT_EVENT_CHECK_EXPECTATION,
-} from "../core/constants";
-
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+  type ActionOptions,
+  actionOptionsFromArgs,
+  isActionOptions,
+  resolveActionOptions,
+  type ResolvedActionOptions,
+  scrollFromArgs,
+  type TextQuery,
+} from "./action-options";
+
+/** Частота опроса EventStorage (мс). */
+const EVENT_POLLING_INTERVAL = 500;
+
+/** Данные события: путь к JSON-файлу или сама JSON-строка. */
+function readEventData(eventDataOrFile: string | null | undefined): string | null {
+  if (typeof eventDataOrFile !== "string") return null;
+  const maybePath = path.resolve(eventDataOrFile);
+  if (fs.existsSync(maybePath) && fs.statSync(maybePath).isFile()) return fs.readFileSync(maybePath, "utf8");
+  return eventDataOrFile;
+}
+
+/** Опции ввода из хвоста аргументов typeText: позиционная форма их не поддерживает. */
+function splitTypingOptions(rest: readonly unknown[]): [TypingOptions, unknown[]] {
+  if (!isActionOptions(rest[0])) return [{}, [...rest]];
+  const { secret, delay, ...find } = rest[0] as ActionOptions & TypingOptions;
+  return [{ secret, delay }, [find, ...rest.slice(1)]];
+}
+
+/** Результат одной попытки проверки: прошла ли и что увидели (для сообщения об ошибке). */
+interface CheckProbe {
+  ok: boolean;
+  actual: string;
+}
+
+/** Внутри softly(): проверки записывают ошибки в сборщик вместо исключения. */
+const softScope = new AsyncLocalStorage<SoftAssertionCollector>();
+
+/** Page source после последнего скролла — чтобы не снимать его дважды. */
+interface ScrollState {
+  source: string | null;
+}
 
 function getDrv(): WebdriverIO.Browser {
   return DriverRegistry.get();
 }
 
-async function waitForUIStable(timeoutSec: number, pollMs = DEFAULT_POLLING_INTERVAL) {
+/** Ждём, пока два снимка page source подряд совпадут; не дождались за timeoutSec — продолжаем как есть. */
+async function waitForUIStable(timeoutSec: number, pollMs = actionDefaults().pollingInterval, signal?: AbortSignal) {
   if (timeoutSec <= 0) return;
-  const timeoutMs = timeoutSec * 1000;
   const d = getDrv();
-  let prev = await d.getPageSource();
-  const start = Date.now();
-  while (Date.now() - start < timeoutMs) {
-    await sleep(pollMs);
-    const cur = await d.getPageSource();
-    if (cur === prev) return;
-    prev = cur;
+  let prev: string | null = null;
+  try {
+    await waitUntil(
+      async () => {
+        const cur = await d.getPageSource();
+        const stable = cur === prev;
+        prev = cur;
+        return stable;
+      },
+      { timeout: timeoutSec, interval: pollMs, signal, message: "Стабилизация UI" }
+    );
+  } catch (e) {
+    if (!(e instanceof WaitTimeoutError)) throw e;
+    if (e.lastError) throw e.lastError;
   }
 }
 
-// Универсальный поиск по локатору
+// Универсальный поиск по локатору; root — родительский элемент (иначе поиск от корня)
 async function findAllByLocator(
   loc: any,
   timeoutSec: number,
-  pollMs: number
+  pollMs: number,
+  root?: WebdriverIO.Element,
+  signal?: AbortSignal
 ): Promise<WebdriverIO.ElementArray> {
-  const timeoutMs = timeoutSec * 1000;
   const d = getDrv();
-  const start = Date.now();
-  let lastErr: any;
 
-  while (Date.now() - start < timeoutMs) {
-    try {
-      if (typeof loc === "string") {
-        // через any, чтобы обойти тип ChainablePromiseArray
-        const els = (await (d as any).$$(loc)) as any[];
-        if (els && els.length > 0) return els as unknown as WebdriverIO.ElementArray;
-      } else if (loc && typeof loc.using === "string" && typeof loc.value === "string") {
-        // findElements возвращает «сырые» референсы — оборачиваем в элементы
-        const refs: any[] = await (d as any).findElements(loc.using, loc.value);
-        if (refs && refs.length) {
-          const wrap = await Promise.all(
-            refs.map((ref: any) =>
-              (d as any).$({
-                ELEMENT: ref.ELEMENT,
-                "element-6066-11e4-a52e-4f735466cecf": ref["element-6066-11e4-a52e-4f735466cecf"],
-              })
-            )
-          );
-          return wrap as unknown as WebdriverIO.ElementArray;
+  // абсолютный XPath внутри родителя искал бы по всей странице — делаем его относительным;
+  // строка считается XPath, если начинается с "/" или "(" — как у WebdriverIO
+  if (root) {
+    if (typeof loc === "string" && /^[/(]/.test(loc)) loc = relativeXPath(loc);
+    else if (loc?.using === "xpath") loc = { ...loc, value: relativeXPath(loc.value) };
+  }
+  // от корня — драйвер, внутри родителя — сам элемент (у обоих есть $$ / findElements*)
+  const scope: any = root ?? d;
+  const findRefs = (using: string, value: string): Promise<any[]> =>
+    root
+      ? (d as any).findElementsFromElement(root.elementId, using, value)
+      : (d as any).findElements(using, value);
+
+  // при timeout 0 — одна попытка; ошибка последней попытки пробрасывается как есть
+  try {
+    return await waitUntil(
+      async () => {
+        if (typeof loc === "string") {
+          // через any, чтобы обойти тип ChainablePromiseArray
+          const els = (await scope.$$(loc)) as any[];
+          if (els && els.length > 0) return els as unknown as WebdriverIO.ElementArray;
+        } else if (loc && typeof loc.using === "string" && typeof loc.value === "string") {
+          // findElements возвращает «сырые» референсы — оборачиваем в элементы
+          const refs: any[] = await findRefs(loc.using, loc.value);
+          if (refs && refs.length) {
+            const wrap = await Promise.all(
+              refs.map((ref: any) =>
+                (d as any).$({
+                  ELEMENT: ref.ELEMENT,
+                  "element-6066-11e4-a52e-4f735466cecf": ref["element-6066-11e4-a52e-4f735466cecf"],
+                })
+              )
+            );
+            return wrap as unknown as WebdriverIO.ElementArray;
+          }
+        } else if (loc && typeof loc.selector === "string") {
+          const els = (await scope.$$(loc.selector)) as any[];
+          if (els && els.length > 0) return els as unknown as WebdriverIO.ElementArray;
         }
-      } else if (loc && typeof loc.selector === "string") {
-        const els = (await (d as any).$$(loc.selector)) as any[];
-        if (els && els.length > 0) return els as unknown as WebdriverIO.ElementArray;
-      }
-    } catch (e) {
-      lastErr = e;
-    }
-    await sleep(pollMs);
+        return null;
+      },
+      { timeout: timeoutSec, interval: pollMs, signal, message: "Поиск элементов" }
+    );
+  } catch (e) {
+    if (!(e instanceof WaitTimeoutError)) throw e;
+    if (e.lastError) throw e.lastError;
   }
-
-  if (lastErr) throw lastErr;
   // Явно приводим пустой массив к типу ElementArray
   return [] as unknown as WebdriverIO.ElementArray;
 }
@@ -186,6 +291,21 @@ function matchJsonElement(eventElement: any, searchElement: any): boolean {
   return false;
 }
 
+/** Элемент по тексту: ровно одно из text / containsText. */
+function textQueryElement(method: string, query: TextQuery): PageElement {
+  if (!isActionOptions(query) || !("text" in query || "containsText" in query)) {
+    throw new Error(`Неверная перегрузка ${method}(...): ожидался PageElement или { text } / { containsText }`);
+  }
+  if (!query.text && !query.containsText) throw new Error("Нужно указать 'text' или 'containsText'");
+  if (query.text && query.containsText) throw new Error("Нельзя одновременно 'text' и 'containsText'");
+
+  return new PageElement(
+    query.text
+      ? { android: PageElement.ExactMatch(query.text), ios: PageElement.ExactMatch(query.text) }
+      : { android: PageElement.Contains(query.containsText!), ios: PageElement.Contains(query.containsText!) }
+  );
+}
+
 // -------------------------------------------------------------
 // Класс MobileActions (без DSL)
 // -------------------------------------------------------------
@@ -197,7 +317,11 @@ export class MobileActions {
   }
 
   private eventsFileStorage = EventStorage;
+  private knownGood: KnownGoodStore | null = null;
+  private currentTest: string | null = null;
   private jobs: Array<Promise<void>> = [];
+  private readonly soft = new SoftAssertionCollector();
+  private testAbort = new AbortController();
   private static emulatorStarted = false;
 
   // -------- Suite lifecycle (вызывается из registerMobileHooks) --------
@@ -245,6 +369,9 @@ export class MobileActions {
 
   // -------- Test lifecycle (вызывается из registerMobileHooks) --------
   async setUp(testName: string) {
+    this.currentTest = testName;
+    this.soft.clear();
+    this.testAbort = new AbortController();
     LogCapture.clearLogs();
     LogCapture.initialize();
     this.eventsFileStorage.clear();
@@ -258,7 +385,7 @@ export class MobileActions {
       }
     }
 
-    this.app = await new App().launch();
+    this.app = await new App().launch({ testName });
 
     await VideoRecorder.startRecording(this.drv as any, testName);
 
@@ -268,24 +395,149 @@ export class MobileActions {
   }
 
   async tearDown(testName: string) {
-    await this.awaitAllEventChecks();
-    await VideoRecorder.stopRecording(this.drv as any, testName);
+    let failure: unknown;
+    try {
+      await this.finishTest(testName);
+    } catch (e) {
+      failure = e;
+    }
+    // после освобождения ресурсов: падение теста не должно оставить запущенным приложение
+    try {
+      this.verifySoftAssertions();
+    } catch (soft) {
+      if (failure === undefined) throw soft;
+      // сбой завершения не должен скрыть сводку мягких проверок — и наоборот
+      const message = failure instanceof Error ? failure.message : String(failure);
+      throw new Error(`${message}\n\n${(soft as Error).message}`, { cause: failure });
+    }
+    if (failure !== undefined) throw failure;
+  }
 
-    if (AppConfig.getPlatform() === Platform.ANDROID) {
-      await AnrWatcher.stop();
+  /** Отчёты теста и откат устройства; сессия закрывается при любой ошибке по пути. */
+  private async finishTest(testName: string) {
+    try {
+      await this.awaitAllEventChecks();
+      // ожидания, оставшиеся от теста (например, после таймаута vitest), больше не нужны
+      this.testAbort.abort();
+      await VideoRecorder.stopRecording(this.drv as any, testName);
+
+      if (AppConfig.getPlatform() === Platform.ANDROID) {
+        await AnrWatcher.stop();
+      }
+
+      await LogCapture.attachLogsToAllureReport();
+    } finally {
+      this.testAbort.abort();
+      // и при ошибке выше: иначе поворот, тема или локаль перейдут в следующие тесты
+      try {
+        // до закрытия сессии: ориентацию возвращает драйвер
+        await DeviceSettings.restore();
+      } finally {
+        try {
+          // разрешения — независимо от настроек устройства
+          await Permissions.restore();
+        } finally {
+          await this.app?.close();
+          DriverRegistry.clear();
+        }
+      }
     }
+  }
 
-    await LogCapture.attachLogsToAllureReport();
+  /** Системные настройки устройства; изменения откатываются в tearDown. */
+  get device(): typeof DeviceSettings {
+    return DeviceSettings;
+  }
+
+  /** Разрешения приложения; изменения откатываются в tearDown. */
+  get permissions(): typeof Permissions {
+    return Permissions;
+  }
 
-    await this.app.close();
-    DriverRegistry.clear();
+  /** Сигнал текущего теста: срабатывает в tearDown и прерывает незавершённые ожидания. */
+  get signal(): AbortSignal {
+    return this.testAbort.signal;
+  }
+
+  /**
+   * Общее ожидание условия (см. core/wait/wait-until) с отменой по завершении теста:
+   *
+   *   await mobileTest.waitUntil(async () => (await mobileTest.getText(cart.badge)) === "3", {
+   *     timeout: 10,
+   *     message: "бейдж корзины = 3",
+   *   });
+   */
+  waitUntil<T>(
+    condition: (attempt: number) => Promise<T> | T,
+    options: WaitUntilOptions<T> & { until: (value: T) => boolean }
+  ): Promise<T>;
+  waitUntil<T>(condition: (attempt: number) => Promise<T> | T, options: WaitUntilOptions<T>): Promise<NonNullable<T>>;
+  waitUntil<T>(condition: (attempt: number) => Promise<T> | T, options: WaitUntilOptions<T>): Promise<T> {
+    const signal = options.signal ? AbortSignal.any([options.signal, this.signal]) : this.signal;
+    return waitUntil(condition, { ...options, signal });
+  }
+
+  // -------------------------------------------------------------
+  // Мягкие проверки
+  // -------------------------------------------------------------
+
+  /**
+   * Внутри body проверки (check*, checkHasEvent) не прерывают тест: ошибка записывается
+   * вместе со снимком экрана и page source, а tearDown роняет тест со сводкой всех ошибок.
+   *
+   *   await mobileTest.softly(async () => {
+   *     await mobileTest.checkVisible(onboarding.title);
+   *     await mobileTest.checkText(onboarding.subtitle, { contains: "бонус" });
+   *   });
+   */
+  async softly<T>(body: () => Promise<T>): Promise<T> {
+    return softScope.run(this.soft, body);
+  }
+
+  /** Ошибки мягких проверок текущего теста. */
+  get softFailures() {
+    return this.soft.failures;
+  }
+
+  /** Если мягкие проверки не прошли — приложить сводку к отчёту и упасть; сборщик очищается. */
+  verifySoftAssertions(): void {
+    if (!this.soft.failures.length) {
+      this.soft.clear();
+      return;
+    }
+    const report = formatSoftFailures(this.soft.failures, this.soft.checks);
+    this.soft.clear();
+    const g = globalThis as any;
+    if (g.allure?.attachment) {
+      try {
+        g.allure.attachment("Мягкие проверки", Buffer.from(report, "utf8"), "text/plain");
+      } catch { /* ignore */
+      }
+    }
+    throw new Error(report);
+  }
+
+  /** Проверка: вне softly() ошибка пробрасывается, внутри — записывается. */
+  private async assertion(check: string, body: () => Promise<void>): Promise<void> {
+    const collector = softScope.getStore();
+    if (!collector) return body();
+    try {
+      await body();
+      collector.passed();
+    } catch (e) {
+      collector.record(check, e);
+      console.warn(`[SoftAssert] ${check}: ${(e as Error).message}`);
+      const driver = DriverRegistry.peek();
+      if (driver) await attachScreenState(driver, `Мягкая проверка ${collector.failures.length}`);
+    }
   }
 
   // -------------------------------------------------------------
   // click(...) — перегрузки без DSL
   // -------------------------------------------------------------
 
-  // 1) click(element, ...)
+  // 1) click(element, { index, timeout, ... }) / click(element, elementNumber, ...)
+  click(element: PageElement | null | undefined, options: ActionOptions): Promise<void>;
   click(
     element: PageElement | null | undefined,
     elementNumber?: number | null,
@@ -312,8 +564,9 @@ export class MobileActions {
   ): Promise<void>;
 
   // 3) click({text|containsText}, ...)
+  click(opts: TextQuery, options: ActionOptions): Promise<void>;
   click(
-    opts: { text?: string; containsText?: string },
+    opts: TextQuery,
     elementNumber?: number | null,
     timeoutBeforeExpectation?: number,
     timeoutExpectation?: number,
@@ -323,17 +576,17 @@ export class MobileActions {
     scrollDirection?: ScrollDirection
   ): Promise<void>;
 
-  async click(a: any, b?: any, ...rest: any[]): Promise<void> {
+  async click(a: PageElement | TextQuery | string | null | undefined, b?: unknown, ...rest: unknown[]): Promise<void> {
     // Вариант 2: eventName:string
     if (typeof a === "string") {
       const [
-        timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-        timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-        timeoutEventExpectation = DEFAULT_TIMEOUT_EVENT_CHECK_EXPECTATION,
-        _pollingInterval = DEFAULT_POLLING_INTERVAL,
-        scrollCount = 1,
-        scrollCapacity = 0.7,
-        scrollDirection = DEFAULT_SCROLL_DIRECTION,
+        timeoutBeforeExpectation = actionDefaults().timeoutBeforeExpectation,
+        timeoutExpectation = actionDefaults().timeoutExpectation,
+        timeoutEventExpectation = actionDefaults().timeoutEventExpectation,
+        _pollingInterval = actionDefaults().pollingInterval,
+        scrollCount = actionDefaults().scrollCount,
+        scrollCapacity = actionDefaults().scrollCapacity,
+        scrollDirection = actionDefaults().scrollDirection,
         eventPosition = "first",
       ] = rest as [
           number | undefined,
@@ -346,7 +599,7 @@ export class MobileActions {
           "first" | "last" | undefined
       ];
       await this._clickFromEvent(
-        a as string,
+        a,
         b as string,
         timeoutBeforeExpectation,
         timeoutExpectation,
@@ -359,85 +612,33 @@ export class MobileActions {
       return;
     }
 
-    // Вариант 1: PageElement
-    if (a == null || typeof a === "object") {
-      const element = a as PageElement | null | undefined;
-      if (element && !("get" in element || "getAll" in element || "android" in element || "ios" in element)) {
-        // это не PageElement — пойдём в вариант 3
-      } else {
-        const elementNumber = (b as number | null | undefined) ?? null;
-        const [
-          timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-          timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-          pollingInterval = DEFAULT_POLLING_INTERVAL,
-          scrollCount = DEFAULT_SCROLL_COUNT,
-          scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-          scrollDirection = DEFAULT_SCROLL_DIRECTION,
-        ] = rest as [number?, number?, number?, number?, number?, ScrollDirection?];
-
-        const el = await this.waitForElements(
-          element,
-          elementNumber,
-          timeoutBeforeExpectation,
-          timeoutExpectation,
-          pollingInterval,
-          scrollCount,
-          scrollCapacity,
-          scrollDirection
-        );
-        await el.click();
-        return;
-      }
-    }
-
-    // Вариант 3: по тексту
-    if (typeof a === "object" && ("text" in a || "containsText" in a)) {
-      const opts = a as { text?: string; containsText?: string };
-      const elementNumber = (b as number | null | undefined) ?? null;
-      const [
-        timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-        timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-        pollingInterval = DEFAULT_POLLING_INTERVAL,
-        scrollCount = DEFAULT_SCROLL_COUNT,
-        scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-        scrollDirection = DEFAULT_SCROLL_DIRECTION,
-      ] = rest as [number?, number?, number?, number?, number?, ScrollDirection?];
-
-      if (!opts.text && !opts.containsText) throw new Error("Нужно указать 'text' или 'containsText'");
-      if (opts.text && opts.containsText) throw new Error("Нельзя одновременно 'text' и 'containsText'");
-
-      const element = new PageElement(
-        opts.text
-          ? { android: PageElement.ExactMatch(opts.text), ios: PageElement.ExactMatch(opts.text) }
-          : { android: PageElement.Contains(opts.containsText!), ios: PageElement.Contains(opts.containsText!) }
-      );
-
-      const found = await this.waitForElements(
-        element,
-        elementNumber,
-        timeoutBeforeExpectation,
-        timeoutExpectation,
-        pollingInterval,
-        scrollCount,
-        scrollCapacity,
-        scrollDirection
-      );
-      await found.click();
-      return;
-    }
+    // Варианты 1 и 3: PageElement или поиск по тексту
+    const el = await this.findTarget("click", a, [b, ...rest]);
+    await el.click();
+  }
 
-    throw new Error("Неверная перегрузка click(...)");
+  /**
+   * Элемент для действия: PageElement или {text|containsText}, хвост аргументов —
+   * объект опций или прежние позиционные параметры.
+   */
+  private async findTarget(
+    method: string,
+    target: PageElement | TextQuery | null | undefined,
+    args: readonly unknown[]
+  ): Promise<WebdriverIO.Element> {
+    const element = target == null || target instanceof PageElement ? target : textQueryElement(method, target);
+    return this.findElement(element, actionOptionsFromArgs(method, args));
   }
 
   private async _clickFromEvent(
     eventName: string,
     eventData: string,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-    timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-    timeoutEventExpectation = DEFAULT_TIMEOUT_EVENT_CHECK_EXPECTATION,
-    scrollCount = 1,
-    scrollCapacity = 0.7,
-    scrollDirection: ScrollDirection = DEFAULT_SCROLL_DIRECTION,
+    timeoutBeforeExpectation = actionDefaults().timeoutBeforeExpectation,
+    timeoutExpectation = actionDefaults().timeoutExpectation,
+    timeoutEventExpectation = actionDefaults().timeoutEventExpectation,
+    scrollCount = actionDefaults().scrollCount,
+    scrollCapacity = actionDefaults().scrollCapacity,
+    scrollDirection: ScrollDirection = actionDefaults().scrollDirection,
     eventPosition: "first" | "last" = "first"
   ) {
     await this.checkHasEvent(eventName, eventData, timeoutEventExpectation);
@@ -478,7 +679,7 @@ export class MobileActions {
       null,
       timeoutBeforeExpectation,
       timeoutExpectation,
-      DEFAULT_POLLING_INTERVAL,
+      actionDefaults().pollingInterval,
       scrollCount,
       scrollCapacity,
       scrollDirection
@@ -492,19 +693,20 @@ export class MobileActions {
   async tapArea(
     x: number,
     y: number,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
+    timeoutBeforeExpectation = actionDefaults().timeoutBeforeExpectation,
     waitCondition?: () => Promise<boolean> | boolean
   ) {
     if (waitCondition) {
-      const timeoutMs = timeoutBeforeExpectation * 1000;
-      const start = Date.now();
-      while (Date.now() - start < timeoutMs) {
-        const ok = await Promise.resolve(waitCondition());
-        if (ok) break;
-        await sleep(DEFAULT_POLLING_INTERVAL);
-      }
+      // условие не выполнилось — всё равно нажимаем, как и раньше
+      await this.waitUntil(() => waitCondition(), {
+        timeout: timeoutBeforeExpectation,
+        interval: actionDefaults().pollingInterval,
+        message: "tapArea: условие перед нажатием",
+      }).catch((e) => {
+        if (!(e instanceof WaitTimeoutError)) throw e;
+      });
     } else if (timeoutBeforeExpectation > 0) {
-      await waitForUIStable(timeoutBeforeExpectation);
+      await waitForUIStable(timeoutBeforeExpectation, undefined, this.signal);
     }
 
     await this.drv.performActions([
@@ -522,58 +724,145 @@ export class MobileActions {
     await this.drv.releaseActions();
   }
 
-  async tapElementArea(
+  tapElementArea(element: PageElement | null | undefined, x: number, y: number, options: ActionOptions): Promise<void>;
+  tapElementArea(
     element: PageElement | null | undefined,
     x: number,
     y: number,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-    timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-    pollingInterval = DEFAULT_POLLING_INTERVAL,
-    scrollCount = DEFAULT_SCROLL_COUNT,
-    scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-    scrollDirection: ScrollDirection = DEFAULT_SCROLL_DIRECTION
-  ) {
-    const found = await this.waitForElements(
-      element,
-      null,
-      timeoutBeforeExpectation,
-      timeoutExpectation,
-      pollingInterval,
-      scrollCount,
-      scrollCapacity,
-      scrollDirection
-    );
+    timeoutBeforeExpectation?: number,
+    timeoutExpectation?: number,
+    pollingInterval?: number,
+    scrollCount?: number,
+    scrollCapacity?: number,
+    scrollDirection?: ScrollDirection
+  ): Promise<void>;
+
+  async tapElementArea(element: PageElement | null | undefined, x: number, y: number, ...rest: unknown[]) {
+    // в позиционной форме номера элемента нет — всегда первый найденный
+    const args = isActionOptions(rest[0]) ? rest : [null, ...rest];
+    const found = await this.findTarget("tapElementArea", element, args);
     const loc = await found.getLocation();
     await this.tapArea(Math.round(loc.x) + x, Math.round(loc.y) + y, 0);
   }
 
-  async typeText(
+  typeText(element: PageElement | null | undefined, text: string, options: ActionOptions & TypingOptions): Promise<void>;
+  typeText(
     element: PageElement | null | undefined,
     text: string,
-    elementNumber: number | null = null,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-    timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-    pollingInterval = DEFAULT_POLLING_INTERVAL,
-    scrollCount = DEFAULT_SCROLL_COUNT,
-    scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-    scrollDirection: ScrollDirection = DEFAULT_SCROLL_DIRECTION
-  ) {
-    const el = await this.waitForElements(
-      element,
-      elementNumber,
-      timeoutBeforeExpectation,
-      timeoutExpectation,
-      pollingInterval,
-      scrollCount,
-      scrollCapacity,
-      scrollDirection
+    elementNumber?: number | null,
+    timeoutBeforeExpectation?: number,
+    timeoutExpectation?: number,
+    pollingInterval?: number,
+    scrollCount?: number,
+    scrollCapacity?: number,
+    scrollDirection?: ScrollDirection
+  ): Promise<void>;
+
+  /** Заменить текст поля. С { delay } — посимвольно, с { secret } — текст маскируется в логах. */
+  async typeText(element: PageElement | null | undefined, text: string, ...rest: unknown[]) {
+    const [typing, args] = splitTypingOptions(rest);
+    const el = await this.findTarget("typeText", element, args);
+    console.info(`[Input] typeText: ${displayText(text, typing.secret)} → ${this.subjectOf(element, null)}`);
+    if (typing.delay) {
+      await el.clearValue();
+      await this.typeByChar("typeText", el, text, typing.delay);
+    } else {
+      await el.setValue(text);
+    }
+  }
+
+  // -------------------------------------------------------------
+  // Ввод текста и клавиатура
+  // -------------------------------------------------------------
+
+  /** Дописать текст к уже введённому. */
+  async appendText(element: PageElement | null | undefined, text: string, options: ActionOptions & TypingOptions = {}) {
+    const { secret, delay, ...find } = options;
+    const el = await this.findElement(element, resolveActionOptions("appendText", find));
+    console.info(`[Input] appendText: ${displayText(text, secret)} → ${this.subjectOf(element, null)}`);
+    if (delay) await this.typeByChar("appendText", el, text, delay);
+    else await el.addValue(text);
+  }
+
+  /** Очистить поле. Если clearValue не помог (бывает у полей с маской) — стираем клавишей удаления. */
+  async clearText(element: PageElement | null | undefined, options: ActionOptions = {}) {
+    const el = await this.findElement(element, resolveActionOptions("clearText", options));
+    await el.clearValue();
+    const left = await this.fieldText(el);
+    if (!left) return;
+
+    console.warn(`[Input] clearText: после clearValue осталось символов: ${left.length}, стираем клавишами`);
+    await el.click();
+    if (AppConfig.getPlatform() === Platform.IOS) {
+      await el.addValue("\b".repeat(left.length));
+      return;
+    }
+    await this.drv.execute("mobile: pressKey", { keycode: ANDROID_KEYCODE.MOVE_END });
+    for (let i = 0; i < left.length; i++) await this.drv.execute("mobile: pressKey", { keycode: ANDROID_KEYCODE.DEL });
+  }
+
+  async isKeyboardShown(): Promise<boolean> {
+    return Boolean(await this.drv.isKeyboardShown());
+  }
+
+  /** Скрыть клавиатуру, если она открыта, и дождаться, пока она пропадёт. */
+  async hideKeyboard() {
+    if (!(await this.isKeyboardShown())) return;
+    if (AppConfig.getPlatform() === Platform.IOS) {
+      // у XCUITest hideKeyboard без кнопок работает не на всех клавиатурах
+      await this.drv.execute("mobile: hideKeyboard", { keys: IOS_HIDE_KEYBOARD_KEYS });
+    } else {
+      await this.drv.hideKeyboard();
+    }
+    await this.waitUntil(async () => !(await this.isKeyboardShown()), {
+      timeout: 3,
+      interval: 200,
+      message: "Скрытие клавиатуры",
+    });
+  }
+
+  /**
+   * Действие клавиши Enter клавиатуры: Done, Search, Next… Android — mobile: performEditorAction,
+   * iOS — кнопка Return с такой подписью; если её нет — просто Return.
+   */
+  async pressImeAction(action: ImeAction) {
+    if (AppConfig.getPlatform() !== Platform.IOS) {
+      const { script, args } = imeActionCommand(action);
+      await this.drv.execute(script, args);
+      return;
+    }
+    const [key] = await findAllByLocator(iosReturnKeyLocator(action), 0, actionDefaults().pollingInterval, undefined, this.signal).catch(
+      () => []
     );
-    await el.setValue(text);
+    if (key) {
+      await key.click();
+      return;
+    }
+    console.info(`[Input] pressImeAction: кнопки '${action}' на клавиатуре нет, нажимаем Return`);
+    await this.drv.keys("\n");
+  }
+
+  /** Посимвольный ввод: для полей, которые форматируют или подсказывают по мере набора. */
+  private async typeByChar(method: string, el: WebdriverIO.Element, text: string, delay: number) {
+    if (!(Number.isFinite(delay) && delay >= 0)) throw new Error(`${method}(): delay=${delay}, ожидалось число мс ≥ 0`);
+    for (const ch of text) {
+      await el.addValue(ch);
+      await abortableSleep(delay, this.signal);
+    }
+  }
+
+  /** Введённый текст без подсказки: пустое поле Android отдаёт hint, iOS — placeholderValue. */
+  private async fieldText(el: WebdriverIO.Element): Promise<string> {
+    const text = String((await el.getText()) ?? "");
+    const hintAttribute = AppConfig.getPlatform() === Platform.IOS ? "placeholderValue" : "hint";
+    const hint = await el.getAttribute(hintAttribute).catch(() => null);
+    return text === hint ? "" : text;
   }
 
   // -------------------------------------------------------------
   // checkVisible(...) — перегрузки
   // -------------------------------------------------------------
+  checkVisible(element: PageElement | null | undefined, options: ActionOptions): Promise<void>;
   checkVisible(
     element: PageElement | null | undefined,
     elementNumber?: number | null,
@@ -584,8 +873,9 @@ export class MobileActions {
     scrollCapacity?: number,
     scrollDirection?: ScrollDirection
   ): Promise<void>;
+  checkVisible(opts: TextQuery, options: ActionOptions): Promise<void>;
   checkVisible(
-    opts: { text?: string; containsText?: string },
+    opts: TextQuery,
     elementNumber?: number | null,
     timeoutBeforeExpectation?: number,
     timeoutExpectation?: number,
@@ -595,159 +885,282 @@ export class MobileActions {
     scrollDirection?: ScrollDirection
   ): Promise<void>;
 
-  async checkVisible(a: any, b?: any, ...rest: any[]): Promise<void> {
-    if (a == null || (typeof a === "object" && ("get" in a || "getAll" in a || "android" in a || "ios" in a))) {
-      const element = a as PageElement | null | undefined;
-      const elementNumber = (b as number | null | undefined) ?? null;
-      const [
-        timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-        timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-        pollingInterval = DEFAULT_POLLING_INTERVAL,
-        scrollCount = DEFAULT_SCROLL_COUNT,
-        scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-        scrollDirection = DEFAULT_SCROLL_DIRECTION,
-      ] = rest as [number?, number?, number?, number?, number?, ScrollDirection?];
-
-      const el = await this.waitForElements(
-        element,
-        elementNumber,
-        timeoutBeforeExpectation,
-        timeoutExpectation,
-        pollingInterval,
-        scrollCount,
-        scrollCapacity,
-        scrollDirection
-      );
+  async checkVisible(a: PageElement | TextQuery | null | undefined, ...rest: unknown[]): Promise<void> {
+    await this.assertion("checkVisible", async () => {
+      const el = await this.findTarget("checkVisible", a, rest);
       if (!(await el.isDisplayed())) throw new Error("Элемент найден, но не отображается");
-      return;
-    }
-
-    if (typeof a === "object" && ("text" in a || "containsText" in a)) {
-      // Реюз ожидания из клика по тексту (без клика)
-      await this.click(a, b, ...rest);
-      return;
-    }
-
-    throw new Error("Неверная перегрузка checkVisible(...)");
+    });
   }
 
   // -------------------------------------------------------------
-  // Проверки событий — перегрузки (string | filePath)
+  // Проверки с повтором: условие опрашивается каждые polling мс до timeout,
+  // при неудаче — ошибка с ожидаемым и последним фактическим значением.
+  // Элемент ищется заново на каждой попытке: экран мог перерисоваться.
+  // Внутри softly() проверки (кроме waitForDisappear — это ожидание) мягкие.
   // -------------------------------------------------------------
-  checkHasEvent(eventName: string, eventData?: string | null, timeoutEventExpectation?: number): Promise<void>;
-  checkHasEvent(eventName: string, eventDataFilePath?: string | null, timeoutEventExpectation?: number): Promise<void>;
 
-  async checkHasEvent(
-    eventName: string,
-    eventDataOrFile?: string | null,
-    timeoutEventExpectation: number = DEFAULT_TIMEOUT_EVENT_CHECK_EXPECTATION
-  ): Promise<void> {
-    let data: string | null = null;
-    if (typeof eventDataOrFile === "string") {
-      const maybePath = path.resolve(eventDataOrFile);
-      if (fs.existsSync(maybePath) && fs.statSync(maybePath).isFile()) {
-        data = fs.readFileSync(maybePath, "utf8");
-      } else {
-        data = eventDataOrFile; // это JSON-строка
-      }
-    }
+  /** Элемент отсутствует или скрыт. */
+  async checkNotVisible(element: PageElement | null | undefined, options: ActionOptions = {}) {
+    await this.assertion("checkNotVisible", () => this.checkAbsent("checkNotVisible", element, options));
+  }
 
-    const pollingInterval = 500;
-    const timeoutMs = timeoutEventExpectation * 1000;
-    const started = Date.now();
+  /** Дождаться, пока элемент пропадёт с экрана (лоадер, тост, закрывающийся диалог). */
+  async waitForDisappear(element: PageElement | null | undefined, options: ActionOptions = {}) {
+    await this.checkAbsent("waitForDisappear", element, options);
+  }
 
-    while (Date.now() - started < timeoutMs) {
-      const allEvents = this.eventsFileStorage.getEvents();
+  /**
+   * Текст элемента: строка — точное совпадение, RegExp — поиск по выражению,
+   * либо { equals | contains | matches, ignoreCase }. Пробелы и переводы строк схлопываются.
+   *
+   *   await mobileTest.checkText(cart.badge, { contains: "3 товара" });
+   */
+  async checkText(element: PageElement | null | undefined, expected: TextExpectation, options: ActionOptions = {}) {
+    const description = describeTextExpectation(expected);
+    await this.retryElementCheck("checkText", element, `текст ${description}`, options, async (el) => {
+      const text = String(await el.getText());
+      return { ok: matchesText(text, expected), actual: JSON.stringify(text) };
+    });
+  }
 
-      for (const ev of allEvents) {
-        if (this.eventsFileStorage.isEventAlreadyMatched(ev.event_num)) continue;
-        if (ev.name !== eventName) continue;
+  async checkAttribute(
+    element: PageElement | null | undefined,
+    attribute: string,
+    expected: TextExpectation,
+    options: ActionOptions = {}
+  ) {
+    const description = describeTextExpectation(expected);
+    await this.retryElementCheck("checkAttribute", element, `${attribute} ${description}`, options, async (el) => {
+      const value = await el.getAttribute(attribute);
+      return value == null
+        ? { ok: false, actual: `атрибута '${attribute}' нет` }
+        : { ok: matchesText(String(value), expected), actual: JSON.stringify(String(value)) };
+    });
+  }
 
-        if (!data) {
-          this.eventsFileStorage.markEventAsMatched(ev.event_num);
-          console.log(`Ожидаемое событие '${eventName}' найдено.`);
-          return;
-        }
+  async checkEnabled(element: PageElement | null | undefined, expected = true, options: ActionOptions = {}) {
+    await this.checkState("checkEnabled", "enabled", element, expected, options, (el) => el.isEnabled());
+  }
+
+  /** Переключатель / чекбокс: Android — атрибут checked, iOS — value "1". */
+  async checkChecked(element: PageElement | null | undefined, expected = true, options: ActionOptions = {}) {
+    await this.checkState("checkChecked", "checked", element, expected, options, async (el) => {
+      if (AppConfig.getPlatform() === Platform.IOS) return ["1", "true"].includes(String(await el.getAttribute("value")));
+      return String(await el.getAttribute("checked")) === "true";
+    });
+  }
 
-        const evDataJson = ev.data ? JSON.stringify(ev.data) : null;
-        if (evDataJson && containsJsonData(evDataJson, data)) {
-          this.eventsFileStorage.markEventAsMatched(ev.event_num);
-          console.log(`Ожидаемое событие '${eventName}' найдено (по данным).`);
-          return;
+  async checkSelected(element: PageElement | null | undefined, expected = true, options: ActionOptions = {}) {
+    await this.checkState("checkSelected", "selected", element, expected, options, (el) => el.isSelected());
+  }
+
+  /** Число найденных элементов: точное или { min, max }. Без скролла — считаются элементы на экране. */
+  async checkCount(element: PageElement | null | undefined, expected: CountExpectation, options: ActionOptions = {}) {
+    const resolved = resolveActionOptions("checkCount", options);
+    const description = `элементов: ${describeCountExpectation(expected)}`;
+    await this.assertion("checkCount", () =>
+      this.retryCheck("checkCount", this.subjectOf(element, null), description, resolved, async () => {
+        const count = (await this.findAllQuick(element, resolved)).length;
+        return { ok: matchesCount(count, expected), actual: `элементов: ${count}` };
+      })
+    );
+  }
+
+  /** Элементы расположены на экране в заданном порядке: сверху вниз, в одной строке — слева направо. */
+  async checkOrder(elements: readonly PageElement[], options: ActionOptions = {}) {
+    if (elements.length < 2) throw new Error(`checkOrder(): нужно минимум два элемента, передано ${elements.length}`);
+    const resolved = resolveActionOptions("checkOrder", options);
+    const names = elements.map((e) => e.describe());
+    const noScroll = { ...resolved, scroll: { ...resolved.scroll, count: 0 } };
+    await this.assertion("checkOrder", () =>
+      this.retryCheck("checkOrder", names.join(", "), names.join(" → "), resolved, async (attempt) => {
+        const found = await Promise.all(elements.map((e) => this.probeElement(e, noScroll, attempt)));
+        const missing = found.flatMap((el, i) => (el ? [] : [names[i]]));
+        if (missing.length) return { ok: false, actual: `не найдены: ${missing.join(", ")}` };
+        const points = await Promise.all(found.map((el) => el!.getLocation()));
+        const order = names.map((name, i) => ({ name, ...points[i] })).sort((a, b) => a.y - b.y || a.x - b.x);
+        return {
+          ok: order.every((p, i) => p.name === names[i]),
+          actual: order.map((p) => `${p.name} (${p.x}, ${p.y})`).join(" → "),
+        };
+      })
+    );
+  }
+
+  private async checkAbsent(method: string, element: PageElement | null | undefined, options: ActionOptions) {
+    const resolved = resolveActionOptions(method, options);
+    const noScroll = { ...resolved, scroll: { ...resolved.scroll, count: 0 } };
+    await this.retryCheck(method, this.subjectOf(element, resolved.index), "элемент не отображается", resolved, async (attempt) => {
+      const el = await this.probeElement(element, noScroll, attempt);
+      return { ok: !el, actual: "элемент отображается" };
+    });
+  }
+
+  private async checkState(
+    method: string,
+    state: string,
+    element: PageElement | null | undefined,
+    expected: boolean,
+    options: ActionOptions,
+    read: (el: WebdriverIO.Element) => Promise<boolean>
+  ) {
+    await this.retryElementCheck(method, element, `${state}=${expected}`, options, async (el) => {
+      const actual = await read(el);
+      return { ok: actual === expected, actual: `${state}=${actual}` };
+    });
+  }
+
+  /** Проверка свойства видимого элемента; пока элемента нет — попытка неудачна. */
+  private async retryElementCheck(
+    method: string,
+    element: PageElement | null | undefined,
+    expected: string,
+    options: ActionOptions,
+    check: (el: WebdriverIO.Element) => Promise<CheckProbe>
+  ) {
+    const resolved = resolveActionOptions(method, options);
+    await this.assertion(method, () =>
+      this.retryCheck(method, this.subjectOf(element, resolved.index), expected, resolved, async (attempt) => {
+        const el = await this.probeElement(element, resolved, attempt);
+        if (!el) return { ok: false, actual: "элемент не найден или не отображается" };
+        try {
+          return await check(el);
+        } catch (e) {
+          // элемент перерисовался между поиском и чтением — следующая попытка найдёт его заново
+          return { ok: false, actual: `ошибка чтения: ${(e as Error).message}` };
         }
-      }
-      await sleep(pollingInterval);
-    }
+      })
+    );
+  }
 
-    if (data) {
+  private async retryCheck(
+    method: string,
+    subject: string,
+    expected: string,
+    options: ResolvedActionOptions,
+    probe: (attempt: number) => Promise<CheckProbe>
+  ) {
+    await waitForUIStable(options.before, options.polling, this.signal);
+    try {
+      await this.waitUntil(probe, { timeout: options.timeout, interval: options.polling, until: (p) => p.ok });
+    } catch (e) {
+      if (!(e instanceof WaitTimeoutError)) throw e;
+      const last = e.lastValue as CheckProbe | undefined;
+      const actual = last?.actual ?? `ошибка: ${(e.lastError as Error)?.message ?? e.lastError}`;
       throw new Error(
-        `Ожидаемое событие '${eventName}' с данными '${data}' не обнаружено за ${timeoutEventExpectation} секунд.`
+        `${method}: проверка не прошла за ${options.timeout} с (прошло ${(e.elapsed / 1000).toFixed(1)} с). ` +
+          `Элемент: ${subject}\n  Ожидалось: ${expected}\n  Фактически: ${actual}`
       );
-    } else {
-      throw new Error(`Ожидаемое событие '${eventName}' не обнаружено за ${timeoutEventExpectation} секунд.`);
     }
   }
 
-  checkHasEventAsync(eventName: string, eventData?: string | null, timeoutEventExpectation?: number): void;
-  checkHasEventAsync(eventName: string, eventDataFilePath?: string | null, timeoutEventExpectation?: number): void;
+  /**
+   * Одна попытка найти видимый элемент, без диагностики.
+   * Скроллит, если задано, только первая попытка — дальше элемент уже на экране или его нет.
+   */
+  private async probeElement(
+    element: PageElement | null | undefined,
+    options: ResolvedActionOptions,
+    attempt: number
+  ): Promise<WebdriverIO.Element | null> {
+    const quick: ResolvedActionOptions = {
+      ...options,
+      before: 0,
+      timeout: 0,
+      scroll: attempt === 0 ? options.scroll : { ...options.scroll, count: 0 },
+    };
+    try {
+      return await this.findElement(element, quick, false);
+    } catch {
+      return null;
+    }
+  }
 
-  checkHasEventAsync(
-    eventName: string,
-    eventDataOrFile?: string | null,
-    timeoutEventExpectation: number = DEFAULT_TIMEOUT_EVENT_CHECK_EXPECTATION
-  ): void {
-    let data: string | null = null;
-    if (typeof eventDataOrFile === "string") {
-      const maybePath = path.resolve(eventDataOrFile);
-      if (fs.existsSync(maybePath) && fs.statSync(maybePath).isFile()) {
-        data = fs.readFileSync(maybePath, "utf8");
-      } else {
-        data = eventDataOrFile;
+  /** Все элементы по первому сработавшему локатору (внутри родителя, если он задан); одна попытка. */
+  private async findAllQuick(element: PageElement | null | undefined, options: ResolvedActionOptions): Promise<WebdriverIO.Element[]> {
+    const parent = element?.getParent() ?? null;
+    let root: WebdriverIO.Element | undefined;
+    if (parent) {
+      const found = await this.probeElement(parent, { ...options, index: null, scroll: { ...options.scroll, count: 0 } }, 1);
+      if (!found) return [];
+      root = found;
+    }
+    for (const loc of element?.getAll() ?? []) {
+      try {
+        const els = await findAllByLocator(loc, 0, options.polling, root, this.signal);
+        if (els.length) return [...els];
+      } catch {
+        /* пробуем следующий локатор */
       }
     }
+    return [];
+  }
 
-    const pollingInterval = 500;
-    const timeoutMs = timeoutEventExpectation * 1000;
-
-    const job = (async () => {
-      const initialCount = this.eventsFileStorage.getEvents().length;
-      const started = Date.now();
+  private subjectOf(element: PageElement | null | undefined, index: number | null): string {
+    if (!element) return "—";
+    return (index ? element.nth(index) : element).describe();
+  }
 
-      while (Date.now() - started < timeoutMs) {
-        const newEvents = this.eventsFileStorage.getEvents().slice(initialCount);
+  // -------------------------------------------------------------
+  // Проверки событий — перегрузки (string | filePath)
+  // -------------------------------------------------------------
+  checkHasEvent(eventName: string, eventData?: string | null, timeoutEventExpectation?: number): Promise<void>;
+  checkHasEvent(eventName: string, eventDataFilePath?: string | null, timeoutEventExpectation?: number): Promise<void>;
 
-        for (const ev of newEvents) {
-          if (this.eventsFileStorage.isEventAlreadyMatched(ev.event_num)) continue;
-          if (ev.name !== eventName) continue;
+  async checkHasEvent(
+    eventName: string,
+    eventDataOrFile?: string | null,
+    timeoutEventExpectation: number = actionDefaults().timeoutEventExpectation
+  ): Promise<void> {
+    const data = readEventData(eventDataOrFile);
+    await this.assertion("checkHasEvent", () => this.waitForEvent(eventName, data, timeoutEventExpectation, 0, ""));
+  }
 
-          if (!data) {
-            this.eventsFileStorage.markEventAsMatched(ev.event_num);
-            console.log(`Ожидаемое событие '${eventName}' найдено (async).`);
-            return;
-          }
+  checkHasEventAsync(eventName: string, eventData?: string | null, timeoutEventExpectation?: number): void;
+  checkHasEventAsync(eventName: string, eventDataFilePath?: string | null, timeoutEventExpectation?: number): void;
 
-          const evDataJson = ev.data ? JSON.stringify(ev.data) : null;
-          if (evDataJson && containsJsonData(evDataJson, data)) {
-            this.eventsFileStorage.markEventAsMatched(ev.event_num);
-            console.log(`Ожидаемое событие '${eventName}' найдено (async, по данным).`);
-            return;
-          }
-        }
-        await sleep(pollingInterval);
-      }
+  checkHasEventAsync(
+    eventName: string,
+    eventDataOrFile?: string | null,
+    timeoutEventExpectation: number = actionDefaults().timeoutEventExpectation
+  ): void {
+    const data = readEventData(eventDataOrFile);
+    // ищем только среди событий, пришедших после вызова
+    const initialCount = this.eventsFileStorage.getEvents().length;
 
-      if (data) {
-        throw new Error(
-          `Событие '${eventName}' с данными '${data}' не было обнаружено за ${timeoutEventExpectation} секунд (async).`
-        );
-      } else {
-        throw new Error(`Событие '${eventName}' не было обнаружено за ${timeoutEventExpectation} секунд (async).`);
-      }
-    })();
+    // мягкость определяется в момент вызова: job унаследует контекст softly()
+    const job = this.assertion("checkHasEventAsync", () =>
+      this.waitForEvent(eventName, data, timeoutEventExpectation, initialCount, " (async)")
+    );
 
     this.jobs.push(job);
   }
 
+  /** Ждём несопоставленное событие eventName (с данными data, если заданы) среди событий начиная с from. */
+  private async waitForEvent(eventName: string, data: string | null, timeoutSec: number, from: number, suffix: string) {
+    const matches = (ev: Event) =>
+      ev.name === eventName &&
+      !this.eventsFileStorage.isEventAlreadyMatched(ev.event_num) &&
+      (!data || (Boolean(ev.data) && containsJsonData(JSON.stringify(ev.data), data)));
+    const withData = data ? ` с данными '${data}'` : "";
+    try {
+      const ev = await this.waitUntil(() => this.eventsFileStorage.getEvents().slice(from).find(matches), {
+        timeout: timeoutSec,
+        interval: EVENT_POLLING_INTERVAL,
+        message: `Событие '${eventName}'${withData}`,
+      });
+      this.eventsFileStorage.markEventAsMatched(ev.event_num);
+      console.log(`Ожидаемое событие '${eventName}' найдено${suffix}${data ? " (по данным)" : ""}.`);
+    } catch (e) {
+      if (!(e instanceof WaitTimeoutError)) throw e;
+      const seen = this.eventsFileStorage.getEvents().slice(from).filter((ev) => ev.name === eventName).length;
+      throw new Error(
+        `Ожидаемое событие '${eventName}'${withData} не обнаружено за ${timeoutSec} секунд${suffix} ` +
+          `(прошло ${(e.elapsed / 1000).toFixed(1)} с, событий '${eventName}' получено: ${seen}).`
+      );
+    }
+  }
+
   async awaitAllEventChecks() {
     const toWait = [...this.jobs];
     this.jobs.length = 0;
@@ -757,74 +1170,56 @@ export class MobileActions {
   // -------------------------------------------------------------
   // Геттеры
   // -------------------------------------------------------------
-  async getText(
+  getText(element: PageElement | null | undefined, options: ActionOptions): Promise<string>;
+  getText(
     element: PageElement | null | undefined,
-    elementNumber: number | null = null,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-    timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-    pollingInterval = DEFAULT_POLLING_INTERVAL,
-    scrollCount = DEFAULT_SCROLL_COUNT,
-    scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-    scrollDirection: ScrollDirection = DEFAULT_SCROLL_DIRECTION
-  ): Promise<string> {
-    const el = await this.waitForElements(
-      element,
-      elementNumber,
-      timeoutBeforeExpectation,
-      timeoutExpectation,
-      pollingInterval,
-      scrollCount,
-      scrollCapacity,
-      scrollDirection
-    );
+    elementNumber?: number | null,
+    timeoutBeforeExpectation?: number,
+    timeoutExpectation?: number,
+    pollingInterval?: number,
+    scrollCount?: number,
+    scrollCapacity?: number,
+    scrollDirection?: ScrollDirection
+  ): Promise<string>;
+
+  async getText(element: PageElement | null | undefined, ...rest: unknown[]): Promise<string> {
+    const el = await this.findTarget("getText", element, rest);
     return String(await el.getText());
   }
 
-  async getPrice(
+  getPrice(element: PageElement | null | undefined, options: ActionOptions): Promise<number | null>;
+  getPrice(
     element: PageElement | null | undefined,
-    elementNumber: number | null = null,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-    timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-    pollingInterval = DEFAULT_POLLING_INTERVAL,
-    scrollCount = DEFAULT_SCROLL_COUNT,
-    scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-    scrollDirection: ScrollDirection = DEFAULT_SCROLL_DIRECTION
-  ): Promise<number | null> {
-    const text = await this.getText(
-      element,
-      elementNumber,
-      timeoutBeforeExpectation,
-      timeoutExpectation,
-      pollingInterval,
-      scrollCount,
-      scrollCapacity,
-      scrollDirection
-    );
-    const digits = text.replace(/\D+/g, "");
+    elementNumber?: number | null,
+    timeoutBeforeExpectation?: number,
+    timeoutExpectation?: number,
+    pollingInterval?: number,
+    scrollCount?: number,
+    scrollCapacity?: number,
+    scrollDirection?: ScrollDirection
+  ): Promise<number | null>;
+
+  async getPrice(element: PageElement | null | undefined, ...rest: unknown[]): Promise<number | null> {
+    const el = await this.findTarget("getPrice", element, rest);
+    const digits = String(await el.getText()).replace(/\D+/g, "");
     return digits ? parseInt(digits, 10) : null;
   }
 
-  async getAttributeValue(
+  getAttributeValue(element: PageElement | null | undefined, attribute: string, options: ActionOptions): Promise<string>;
+  getAttributeValue(
     element: PageElement | null | undefined,
     attribute: string,
-    elementNumber: number | null = null,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-    timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-    pollingInterval = DEFAULT_POLLING_INTERVAL,
-    scrollCount = DEFAULT_SCROLL_COUNT,
-    scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-    scrollDirection: ScrollDirection = DEFAULT_SCROLL_DIRECTION
-  ): Promise<string> {
-    const el = await this.waitForElements(
-      element,
-      elementNumber,
-      timeoutBeforeExpectation,
-      timeoutExpectation,
-      pollingInterval,
-      scrollCount,
-      scrollCapacity,
-      scrollDirection
-    );
+    elementNumber?: number | null,
+    timeoutBeforeExpectation?: number,
+    timeoutExpectation?: number,
+    pollingInterval?: number,
+    scrollCount?: number,
+    scrollCapacity?: number,
+    scrollDirection?: ScrollDirection
+  ): Promise<string>;
+
+  async getAttributeValue(element: PageElement | null | undefined, attribute: string, ...rest: unknown[]): Promise<string> {
+    const el = await this.findTarget("getAttributeValue", element, rest);
     const val = await el.getAttribute(attribute);
     return String(val ?? "");
   }
@@ -832,66 +1227,354 @@ export class MobileActions {
   // -------------------------------------------------------------
   // Скролл/свайпы
   // -------------------------------------------------------------
-  async scrollDown(scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
+  async scrollDown(scrollCount = actionDefaults().scrollCount, scrollCapacity = actionDefaults().scrollCapacity) {
     await this.performScroll(null, scrollCount, scrollCapacity, ScrollDirection.Down);
   }
 
-  async scrollUp(scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
+  async scrollUp(scrollCount = actionDefaults().scrollCount, scrollCapacity = actionDefaults().scrollCapacity) {
     await this.performScroll(null, scrollCount, scrollCapacity, ScrollDirection.Up);
   }
 
-  async scrollRight(scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
+  async scrollRight(scrollCount = actionDefaults().scrollCount, scrollCapacity = actionDefaults().scrollCapacity) {
     await this.performScroll(null, scrollCount, scrollCapacity, ScrollDirection.Right);
   }
 
-  async scrollLeft(scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
+  async scrollLeft(scrollCount = actionDefaults().scrollCount, scrollCapacity = actionDefaults().scrollCapacity) {
     await this.performScroll(null, scrollCount, scrollCapacity, ScrollDirection.Left);
   }
 
-  async swipeDown(element: PageElement | null | undefined, scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
-    await this.performScroll(element, scrollCount, scrollCapacity, ScrollDirection.Down);
+  /**
+   * Свайпы по элементу. В объекте опций scroll.count / scroll.capacity задают сами свайпы,
+   * index / timeout / before / polling — поиск элемента; направление задаёт метод.
+   */
+  swipeDown(element: PageElement | null | undefined, options: ActionOptions): Promise<void>;
+  swipeDown(element: PageElement | null | undefined, scrollCount?: number, scrollCapacity?: number): Promise<void>;
+  async swipeDown(element: PageElement | null | undefined, ...rest: unknown[]) {
+    await this.swipe("swipeDown", element, ScrollDirection.Down, rest);
+  }
+
+  swipeUp(element: PageElement | null | undefined, options: ActionOptions): Promise<void>;
+  swipeUp(element: PageElement | null | undefined, scrollCount?: number, scrollCapacity?: number): Promise<void>;
+  async swipeUp(element: PageElement | null | undefined, ...rest: unknown[]) {
+    await this.swipe("swipeUp", element, ScrollDirection.Up, rest);
+  }
+
+  swipeRight(element: PageElement | null | undefined, options: ActionOptions): Promise<void>;
+  swipeRight(element: PageElement | null | undefined, scrollCount?: number, scrollCapacity?: number): Promise<void>;
+  async swipeRight(element: PageElement | null | undefined, ...rest: unknown[]) {
+    await this.swipe("swipeRight", element, ScrollDirection.Right, rest);
+  }
+
+  swipeLeft(element: PageElement | null | undefined, options: ActionOptions): Promise<void>;
+  swipeLeft(element: PageElement | null | undefined, scrollCount?: number, scrollCapacity?: number): Promise<void>;
+  async swipeLeft(element: PageElement | null | undefined, ...rest: unknown[]) {
+    await this.swipe("swipeLeft", element, ScrollDirection.Left, rest);
+  }
+
+  private async swipe(method: string, element: PageElement | null | undefined, direction: ScrollDirection, rest: unknown[]) {
+    const [first] = rest;
+    if (!isActionOptions(first)) {
+      const scroll = scrollFromArgs(method, rest[0], rest[1]);
+      await this.performScroll(element, scroll.count, scroll.capacity, direction);
+      return;
+    }
+    if (first.scroll?.direction !== undefined && first.scroll.direction !== direction) {
+      throw new Error(`${method}(): scroll.direction задаётся самим методом (${direction})`);
+    }
+    const options = actionOptionsFromArgs(method, rest);
+    // scroll.* относится к свайпам, элемент ищем без скролла экрана
+    const findOptions = { ...options, scroll: { ...options.scroll, count: 0 } };
+    await this.performScroll(element, options.scroll.count, options.scroll.capacity, direction, findOptions);
+  }
+
+  // -------------------------------------------------------------
+  // Жесты: W3C actions, при ошибке — нативные команды драйвера.
+  // Точки задаются долями элемента ({ x: 0.5, y: 0.5 } — центр);
+  // остальные поля опций — поиск элемента, как у click.
+  // -------------------------------------------------------------
+  async longPress(element: PageElement | null | undefined, options: ActionOptions & LongPressGesture = {}) {
+    const { at, duration = 1000, ...find } = options;
+    const point = pointIn(await this.rectOf(await this.findElement(element, resolveActionOptions("longPress", find))), at);
+    await this.performGesture("longPress", [longPressActions(point, duration)], { kind: "longPress", point, duration });
+  }
+
+  async doubleTap(element: PageElement | null | undefined, options: ActionOptions & TapGesture = {}) {
+    const { at, interval = 100, ...find } = options;
+    const point = pointIn(await this.rectOf(await this.findElement(element, resolveActionOptions("doubleTap", find))), at);
+    await this.performGesture("doubleTap", [tapActions(point, 2, interval)], { kind: "doubleTap", point });
+  }
+
+  /** Перетащить source на target: удержание, движение, отпускание. */
+  async dragAndDrop(
+    source: PageElement | null | undefined,
+    target: PageElement | null | undefined,
+    options: ActionOptions & DragGesture = {}
+  ) {
+    const { from: fromAt, to: toAt, speed, hold = 600, ...find } = options;
+    const resolved = resolveActionOptions("dragAndDrop", find);
+    const from = pointIn(await this.rectOf(await this.findElement(source, resolved)), fromAt);
+    const to = pointIn(await this.rectOf(await this.findElement(target, resolved)), toAt);
+    await this.performGesture("dragAndDrop", [dragActions(from, to, { speed, hold })], { kind: "drag", from, to, hold, speed });
   }
 
-  async swipeUp(element: PageElement | null | undefined, scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
-    await this.performScroll(element, scrollCount, scrollCapacity, ScrollDirection.Up);
+  /** Сжатие двумя пальцами (scale < 1, по умолчанию 0.5). */
+  async pinch(element: PageElement | null | undefined, options: ActionOptions & PinchGesture = {}) {
+    const { scale = 0.5 } = options;
+    if (!(scale > 0 && scale < 1)) throw new Error(`pinch(): scale=${scale}, ожидалось (0; 1) — для увеличения используйте zoom()`);
+    await this.scaleGesture("pinch", element, { ...options, scale });
   }
 
-  async swipeRight(element: PageElement | null | undefined, scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
-    await this.performScroll(element, scrollCount, scrollCapacity, ScrollDirection.Right);
+  /** Растяжение двумя пальцами (scale > 1, по умолчанию 2). */
+  async zoom(element: PageElement | null | undefined, options: ActionOptions & PinchGesture = {}) {
+    const { scale = 2 } = options;
+    if (!(scale > 1)) throw new Error(`zoom(): scale=${scale}, ожидалось > 1 — для уменьшения используйте pinch()`);
+    await this.scaleGesture("zoom", element, { ...options, scale });
   }
 
-  async swipeLeft(element: PageElement | null | undefined, scrollCount = DEFAULT_SCROLL_COUNT, scrollCapacity = DEFAULT_SCROLL_CAPACITY) {
-    await this.performScroll(element, scrollCount, scrollCapacity, ScrollDirection.Left);
+  /** Поворот двумя пальцами на degrees (положительные — по часовой стрелке). */
+  async rotate(element: PageElement | null | undefined, degrees: number, options: ActionOptions & RotateGesture = {}) {
+    const { radius, duration = 1000, ...find } = options;
+    const el = await this.findElement(element, resolveActionOptions("rotate", find));
+    const sequences = rotateActions(await this.rectOf(el), degrees, { radius, duration });
+    await this.performGesture("rotate", sequences, { kind: "rotate", elementId: el.elementId, degrees, duration });
+  }
+
+  /**
+   * Движение пальца по траектории через points — доли элемента или, если element не задан, экрана:
+   *
+   *   await mobileTest.gesturePath(signature, [{ x: 0.1, y: 0.5 }, { x: 0.5, y: 0.2 }, { x: 0.9, y: 0.5 }], { speed: 600 });
+   */
+  async gesturePath(
+    element: PageElement | null | undefined,
+    points: readonly RelativePoint[],
+    options: ActionOptions & PathGesture = {}
+  ) {
+    const { speed, hold, ...find } = options;
+    let rect: Rect;
+    if (element) {
+      rect = await this.rectOf(await this.findElement(element, resolveActionOptions("gesturePath", find)));
+    } else {
+      resolveActionOptions("gesturePath", find);
+      const size = await this.drv.getWindowSize();
+      rect = { x: 0, y: 0, width: size.width, height: size.height };
+    }
+    const sequence = pathActions(points.map((p) => pointIn(rect, p)), { speed, hold });
+    await this.performGesture("gesturePath", [sequence], { kind: "path" });
+  }
+
+  private async scaleGesture(
+    method: string,
+    element: PageElement | null | undefined,
+    options: ActionOptions & PinchGesture & { scale: number }
+  ) {
+    const { scale, speed, angle, ...find } = options;
+    const el = await this.findElement(element, resolveActionOptions(method, find));
+    const sequences = pinchActions(await this.rectOf(el), { scale, speed, angle });
+    await this.performGesture(method, sequences, { kind: "pinch", elementId: el.elementId, scale, speed });
+  }
+
+  private async rectOf(el: WebdriverIO.Element): Promise<Rect> {
+    const [loc, size] = await Promise.all([el.getLocation(), el.getSize()]);
+    return { x: loc.x, y: loc.y, width: size.width, height: size.height };
+  }
+
+  /** W3C actions; если драйвер их не выполнил — нативная команда платформы, если она есть. */
+  private async performGesture(method: string, sequences: PointerSequence[], native: NativeGesture) {
+    try {
+      await this.drv.performActions(sequences);
+      await this.drv.releaseActions();
+    } catch (e) {
+      const command = nativeGestureCommand(AppConfig.getPlatform(), native);
+      if (!command) throw e;
+      console.warn(`[Gestures] ${method}: W3C actions не выполнены (${(e as Error).message}), используем ${command.script}`);
+      await this.drv.releaseActions().catch(() => {});
+      await this.drv.execute(command.script, command.args);
+    }
   }
 
   // -------------------------------------------------------------
   // Базовые функции поиска элементов
   // -------------------------------------------------------------
-  async waitForElements(
+  waitForElements(element: PageElement | null | undefined, options: ActionOptions): Promise<WebdriverIO.Element>;
+  waitForElements(
     element: PageElement | null | undefined,
-    elementNumber: number | null = null,
-    timeoutBeforeExpectation = DEFAULT_TIMEOUT_BEFORE_EXPECTATION,
-    timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION,
-    pollingInterval = DEFAULT_POLLING_INTERVAL,
-    scrollCount = DEFAULT_SCROLL_COUNT,
-    scrollCapacity = DEFAULT_SCROLL_CAPACITY,
-    scrollDirection: ScrollDirection = DEFAULT_SCROLL_DIRECTION
-  ): Promise<WebdriverIO.Element> {
-    await waitForUIStable(timeoutBeforeExpectation, pollingInterval);
+    elementNumber?: number | null,
+    timeoutBeforeExpectation?: number,
+    timeoutExpectation?: number,
+    pollingInterval?: number,
+    scrollCount?: number,
+    scrollCapacity?: number,
+    scrollDirection?: ScrollDirection
+  ): Promise<WebdriverIO.Element>;
+
+  async waitForElements(element: PageElement | null | undefined, ...rest: unknown[]): Promise<WebdriverIO.Element> {
+    return this.findElement(element, actionOptionsFromArgs("waitForElements", rest));
+  }
+
+  /** Снимок текущего экрана для офлайн-поиска по локаторам (см. PageSource). */
+  async pageSource(): Promise<PageSource> {
+    return PageSource.parse(await this.drv.getPageSource(), AppConfig.getPlatform());
+  }
+
+  /**
+   * Запасные локаторы в порядке «сначала найденные в снимке экрана»: один запрос page source
+   * вместо ожидания таймаута на каждом отсутствующем локаторе. Если снимок не удался — порядок прежний.
+   */
+  private async rankLocators(element: PageElement, locators: Locator[], elementNumber: number | null): Promise<Locator[]> {
+    try {
+      const source = await this.pageSource();
+      const matches = source.queryAll(element);
+      const found = new Set(matches.filter((m) => m.nodes.length >= (elementNumber ?? 1)).map((m) => m.locator));
+      if (!found.size) return locators;
+      return [...locators.filter((l) => found.has(l)), ...locators.filter((l) => !found.has(l))];
+    } catch (e) {
+      console.warn(`[waitForElements] Снимок экрана для выбора локатора не получен: ${(e as Error).message}`);
+      return locators;
+    }
+  }
+
+  private healingStore(): KnownGoodStore {
+    const file = AppConfig.getHealingStorePath();
+    if (this.knownGood?.file !== file) this.knownGood = new KnownGoodStore(file);
+    return this.knownGood;
+  }
+
+  /** Ключ в хранилище атрибутов: с номером элемента — иначе элементы одного списка затрут друг друга. */
+  private knownGoodKey(element: PageElement, index: number | null): string {
+    return index ? element.nth(index).describe() : element.describe();
+  }
+
+  /**
+   * Запоминает атрибуты найденного элемента — по ним его можно будет узнать после смены локаторов.
+   * Снимок экрана — только если атрибутов нет или они ещё не обновлялись в этом запуске.
+   */
+  private async rememberKnownGood(element: PageElement, index: number | null) {
+    const key = this.knownGoodKey(element, index);
+    const store = this.healingStore();
+    if (!store.isStale(AppConfig.getPlatform(), key)) return;
+    try {
+      const source = await this.pageSource();
+      const node = source.find(element, index);
+      if (node) store.put(source.platform, key, fingerprintOf(node));
+    } catch (e) {
+      console.warn(`[Healing] Не удалось сохранить атрибуты '${key}': ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Все локаторы не сработали: ищем на экране узел, похожий на сохранённые атрибуты элемента,
+   * и берём его по построенному локатору. Каждое восстановление попадает в отчёт healing.report.
+   */
+  private async healElement(
+    element: PageElement,
+    index: number | null,
+    failed: Locator[],
+    options: ResolvedActionOptions
+  ): Promise<WebdriverIO.Element | null> {
+    const key = this.knownGoodKey(element, index);
+    try {
+      const platform = AppConfig.getPlatform();
+      const previous = this.healingStore().get(platform, key);
+      if (!previous) {
+        console.info(`[Healing] Для '${key}' нет сохранённых атрибутов — восстановление невозможно`);
+        return null;
+      }
+      const source = await this.pageSource();
+      const candidate = findHealingCandidate(source, previous, AppConfig.getHealingThreshold());
+      if (!candidate) {
+        console.info(`[Healing] Для '${key}' на экране нет достаточно похожего элемента`);
+        return null;
+      }
+
+      const locator = healingLocator(source, candidate.node);
+      const [el] = await findAllByLocator(locator, Math.min(options.timeout, 1), options.polling, undefined, this.signal);
+      if (!el || !(await el.isDisplayed())) return null;
+
+      const current = fingerprintOf(candidate.node);
+      const record: HealingRecord = {
+        test: this.currentTest,
+        platform,
+        element: key,
+        failedLocators: [...new Set(failed.map(PageElement.describeLocator))],
+        suggestedLocator: PageElement.describeLocator(locator),
+        score: Number(candidate.score.toFixed(3)),
+        previous,
+        current,
+        healedAt: new Date().toISOString(),
+      };
+      const report = appendHealingReport(AppConfig.getHealingReportPath(), record);
+      this.healingStore().put(platform, key, current);
+
+      console.warn(
+        `[Healing] '${record.element}' найден по сохранённым атрибутам (сходство ${record.score}). ` +
+          `Обновите локатор: ${record.suggestedLocator}. Отчёт: ${report}`
+      );
+      const g = globalThis as any;
+      if (g.allure?.attachment) {
+        try {
+          g.allure.attachment("Восстановленный локатор", Buffer.from(JSON.stringify(record, null, 2), "utf8"), "application/json");
+        } catch { /* ignore */
+        }
+      }
+      return el;
+    } catch (e) {
+      console.warn(`[Healing] Восстановление '${key}' не удалось: ${(e as Error).message}`);
+      return null;
+    }
+  }
 
-    let currentScroll = 0;
-    const attempted: any[] = [];
-    const failed: any[] = [];
+  /**
+   * @param diagnose при ошибке снять диагностику (page source, скриншот, похожие элементы);
+   *                 для родителя не нужно — её снимет сам элемент
+   */
+  private async findElement(
+    element: PageElement | null | undefined,
+    options: ResolvedActionOptions,
+    diagnose = true
+  ): Promise<WebdriverIO.Element> {
+    const {
+      before: timeoutBeforeExpectation,
+      timeout: timeoutExpectation,
+      polling: pollingInterval,
+      scroll: { count: scrollCount, direction: scrollDirection },
+    } = options;
+    const elementNumber = options.index ?? element?.getIndex() ?? null;
+    const parent = element?.getParent() ?? null;
+
+    await waitForUIStable(timeoutBeforeExpectation, pollingInterval, this.signal);
+
+    const search = new ScrollSearch(scrollDirection, scrollCount, options.scroll.bidirectional);
+    const scrollState: ScrollState = { source: null };
+    const attempted: Locator[] = [];
+    const failed: Locator[] = [];
+    const describe = (list: Locator[]) => list.map(PageElement.describeLocator).join(", ");
     let lastErr: any;
 
     while (true) {
-      const locators =
-        (element?.getAll && (await element.getAll())) ?? [element?.get ? await element.get() : null];
+      // родителя ищем заново на каждой итерации: после скролла он мог сместиться.
+      // Скроллит только внешний цикл, поэтому сам родитель ищется без скролла.
+      let root: WebdriverIO.Element | undefined;
+      if (parent) {
+        try {
+          root = await this.findElement(
+            parent,
+            { ...options, index: null, before: 0, scroll: { ...options.scroll, count: 0 } },
+            false
+          );
+        } catch (e) {
+          lastErr = new Error(`Родитель '${parent.describe()}' не найден: ${(e as Error).message}`);
+        }
+      }
 
-      for (const loc of (locators || []).filter(Boolean)) {
+      let locators = ((parent && !root ? [] : element?.getAll?.()) ?? [element?.get ? element.get() : null]).filter(
+        (l): l is Locator => Boolean(l)
+      );
+      if (element && !parent && locators.length > 1) locators = await this.rankLocators(element, locators, elementNumber);
+
+      for (const loc of locators) {
         try {
           attempted.push(loc);
-          const els = await findAllByLocator(loc, timeoutExpectation, pollingInterval);
+          const els = await findAllByLocator(loc, timeoutExpectation, pollingInterval, root, this.signal);
           if (!els.length) throw new Error("elements not found");
           const safeIndex = elementNumber ?? 1;
           if (safeIndex < 1 || safeIndex > els.length) {
@@ -900,14 +1583,15 @@ export class MobileActions {
 
           if (failed.length) {
             console.info(
-              `[waitForElements] Не найдены локаторы: ${failed.map(String).join(", ")}. Успешный локатор: ${String(
-                loc
-              )}`
+              `[waitForElements] Не найдены локаторы: ${describe(failed)}. Успешный локатор: ${PageElement.describeLocator(loc)}`
             );
           }
           const el = els[safeIndex - 1];
           const displayed = await el.isDisplayed();
-          if (displayed) return el;
+          if (displayed) {
+            if (element && diagnose && AppConfig.isHealingEnabled()) await this.rememberKnownGood(element, elementNumber);
+            return el;
+          }
           throw new Error("Элемент найден, но не видим");
         } catch (e) {
           lastErr = e;
@@ -915,40 +1599,93 @@ export class MobileActions {
         }
       }
 
-      if (scrollCount > 0 && currentScroll < scrollCount) {
-        await this.performScroll(null, 1, scrollCapacity, scrollDirection);
-        currentScroll++;
+      const direction = search.next();
+      if (direction) {
+        search.record(await this.scrollStep(direction, options, scrollState));
       } else {
+        const scrolled = `'${search.total}' скроллов${search.reachedEnd ? " (достигнут конец списка)" : ""}`;
         const locatorsInfo =
           failed.length > 0
-            ? `Локаторы не найдены: ${failed.map(String).join(", ")} из списка ${attempted.map(String).join(", ")}`
+            ? `Локаторы не найдены: ${describe(failed)} из списка ${describe(attempted)}`
             : attempted.length > 0
-              ? `Пробовали локаторы: ${attempted.map(String).join(", ")}`
-              : "Локаторов нет";
+              ? `Пробовали локаторы: ${describe(attempted)}`
+              : parent
+                ? "Поиск внутри родителя не выполнялся"
+                : "Локаторов нет";
+        const target = element ? ` Элемент: ${(options.index ? element.nth(options.index) : element).describe()}.` : "";
 
         const msg = lastErr
-          ? `Элементы не найдены за '${timeoutExpectation}' секунд после '${currentScroll}' скроллов. ${locatorsInfo}. Причина: ${
+          ? `Элементы не найдены за '${timeoutExpectation}' секунд после ${scrolled}.${target} ${locatorsInfo}. Причина: ${
             (lastErr as any)?.message
           }`
-          : `Элементы не найдены за '${timeoutExpectation}' секунд после '${currentScroll}' скроллов. ${locatorsInfo}`;
+          : `Элементы не найдены за '${timeoutExpectation}' секунд после ${scrolled}.${target} ${locatorsInfo}`;
 
-        throw new Error(msg);
+        if (element && diagnose && AppConfig.isHealingEnabled()) {
+          const healed = await this.healElement(element, elementNumber, attempted, options);
+          if (healed) return healed;
+        }
+
+        const diagnosis = element && diagnose ? await reportElementNotFound(this.drv, element, options.index) : null;
+        throw new Error(diagnosis ? `${msg}\n${diagnosis}` : msg);
       }
     }
   }
 
+  /**
+   * Один скролл при поиске элемента — экрана или scroll.container, свайпом или нативной командой.
+   * Возвращает true, если дальше в этом направлении содержимое не прокручивается:
+   * так сообщил mobile: scrollGesture или page source после скролла не изменился.
+   */
+  private async scrollStep(direction: ScrollDirection, options: ResolvedActionOptions, state: ScrollState): Promise<boolean> {
+    const { capacity, container, detectEnd, native } = options.scroll;
+    // контейнер ищем без скролла: крутим именно его
+    const containerOptions = { ...options, index: null, before: 0, scroll: { ...options.scroll, count: 0, container: null } };
+    if (detectEnd && state.source === null) state.source = await this.drv.getPageSource();
+
+    let canScrollMore: boolean | null = null;
+    if (native) {
+      const platform = AppConfig.getPlatform();
+      let command;
+      if (container) {
+        const el = await this.findElement(container, containerOptions, false);
+        command = nativeScrollCommand(platform, direction, { elementId: el.elementId, percent: capacity });
+      } else {
+        // без контейнера — середина экрана: края заняты статус-баром и навигацией
+        const size = await this.drv.getWindowSize();
+        const area = { left: 0, top: Math.round(size.height * 0.1), width: size.width, height: Math.round(size.height * 0.8) };
+        command = nativeScrollCommand(platform, direction, { area, percent: capacity });
+      }
+      if (!command) throw new Error("Нативный скролл не поддерживается на этой платформе");
+      const result = await this.drv.execute(command.script, command.args);
+      if (typeof result === "boolean") canScrollMore = result;
+    } else {
+      await this.performScroll(container, 1, capacity, direction, container ? containerOptions : undefined);
+    }
+
+    if (!detectEnd) return false;
+    if (canScrollMore === false) {
+      state.source = null;
+      return true;
+    }
+    const before = state.source;
+    state.source = await this.drv.getPageSource();
+    return state.source === before;
+  }
+
   private async performScroll(
     element: PageElement | null | undefined,
     scrollCount: number,
     scrollCapacity: number,
-    scrollDirection: ScrollDirection
+    scrollDirection: ScrollDirection,
+    findOptions?: ResolvedActionOptions
   ) {
     if (!(scrollCapacity > 0 && scrollCapacity <= 1.0)) {
       throw new Error(`scrollCapacity=${scrollCapacity}, допустимый диапазон (0.0; 1.0]`);
     }
+    const { scrollCoefficient, swipeCoefficient } = actionDefaults();
 
     if (element) {
-      const el = await this.waitForElements(element);
+      const el = findOptions ? await this.findElement(element, findOptions) : await this.waitForElements(element);
       const [loc, size] = await Promise.all([el.getLocation(), el.getSize()]);
       const rect = { x: loc.x, y: loc.y, width: size.width, height: size.height };
 
@@ -958,10 +1695,10 @@ export class MobileActions {
           const width = rect.width * scrollCapacity;
           const centerY = Math.round(rect.y + rect.height / 2);
           const startX = Math.round(
-            rect.x + (isRight ? width * DEFAULT_SWIPE_COEFFICIENT : width * (1 - DEFAULT_SWIPE_COEFFICIENT))
+            rect.x + (isRight ? width * swipeCoefficient : width * (1 - swipeCoefficient))
           );
           const endX = Math.round(
-            rect.x + (isRight ? width * (1 - DEFAULT_SWIPE_COEFFICIENT) : width * DEFAULT_SWIPE_COEFFICIENT)
+            rect.x + (isRight ? width * (1 - swipeCoefficient) : width * swipeCoefficient)
           );
           await this.touchAndMoveHorizontal(centerY, startX, endX);
         } else {
@@ -969,10 +1706,10 @@ export class MobileActions {
           const height = rect.height * scrollCapacity;
           const centerX = Math.round(rect.x + rect.width / 2);
           const startY = Math.round(
-            rect.y + (isDown ? height * DEFAULT_SWIPE_COEFFICIENT : height * (1 - DEFAULT_SWIPE_COEFFICIENT))
+            rect.y + (isDown ? height * swipeCoefficient : height * (1 - swipeCoefficient))
           );
           const endY = Math.round(
-            rect.y + (isDown ? height * (1 - DEFAULT_SWIPE_COEFFICIENT) : height * DEFAULT_SWIPE_COEFFICIENT)
+            rect.y + (isDown ? height * (1 - swipeCoefficient) : height * swipeCoefficient)
           );
           await this.touchAndMoveVertical(centerX, startY, endY);
         }
@@ -984,14 +1721,14 @@ export class MobileActions {
           const isRight = scrollDirection === ScrollDirection.Right;
           const width = size.width * scrollCapacity;
           const centerY = Math.round(size.height / 2);
-          const startX = Math.round(isRight ? width * DEFAULT_SCROLL_COEFFICIENT : width * (1 - DEFAULT_SCROLL_COEFFICIENT));
+          const startX = Math.round(isRight ? width * scrollCoefficient : width * (1 - scrollCoefficient));
           const endX = Math.round(isRight ? 0 : width);
           await this.touchAndMoveHorizontal(centerY, startX, endX);
         } else {
           const isDown = scrollDirection === ScrollDirection.Down;
           const height = size.height * scrollCapacity;
           const centerX = Math.round(size.width / 2);
-          const startY = Math.round(isDown ? height * DEFAULT_SCROLL_COEFFICIENT : height * (1 - DEFAULT_SCROLL_COEFFICIENT));
+          const startY = Math.round(isDown ? height * scrollCoefficient : height * (1 - scrollCoefficient));
           const endY = Math.round(isDown ? 0 : height);
           await this.touchAndMoveVertical(centerX, startY, endY);
         }
@@ -1035,6 +1772,105 @@ export class MobileActions {
     await this.drv.releaseActions();
   }
 
+  // -------------------------------------------------------------
+  // Жизненный цикл приложения: пакет и bundleId — из AppConfig,
+  // сборка для переустановки — android.app.name / ios.app.name
+  // -------------------------------------------------------------
+  async queryAppState(): Promise<AppState> {
+    return (await this.drv.execute("mobile: queryAppState", this.appIdArgs())) as AppState;
+  }
+
+  /** Свернуть приложение на seconds секунд; при seconds < 0 оно остаётся в фоне до activateApp(). */
+  async backgroundApp(seconds: number) {
+    if (!Number.isFinite(seconds)) throw new Error(`backgroundApp(): seconds=${seconds}, ожидалось число секунд`);
+    console.info(`[App] Приложение в фоне${seconds < 0 ? " до activateApp()" : ` на ${seconds} с`}`);
+    await this.drv.execute("mobile: backgroundApp", { seconds });
+  }
+
+  /** Вывести приложение на передний план (запустить, если не запущено). */
+  async activateApp() {
+    console.info(`[App] Активация ${this.currentAppId()}`);
+    await this.drv.execute("mobile: activateApp", this.appIdArgs());
+    await this.waitForAppState(AppState.RUNNING_IN_FOREGROUND);
+  }
+
+  /** Завершить приложение; false — если оно не было запущено. */
+  async terminateApp(): Promise<boolean> {
+    console.info(`[App] Завершение ${this.currentAppId()}`);
+    const terminated = Boolean(await this.drv.execute("mobile: terminateApp", this.appIdArgs()));
+    if (terminated) await this.waitForAppState(AppState.NOT_RUNNING);
+    return terminated;
+  }
+
+  /**
+   * Запуск с параметрами: intent extras на Android, processArguments и окружение на iOS.
+   * Уже запущенное приложение сначала завершается, иначе параметры не применятся.
+   *
+   *   await mobileTest.launchApp({ extras: { onboarding: false } });
+   *   await mobileTest.launchApp({ arguments: ["-uiTests"], environment: { MOCK_API: "1" } });
+   */
+  async launchApp(options: LaunchAppOptions = {}) {
+    const platform = AppConfig.getPlatform();
+    const appId = this.currentAppId();
+    const command = launchAppCommand(platform, { appId, activity: AppConfig.getAppActivity() }, options);
+    if (platform === Platform.IOS) await this.terminateApp();
+    console.info(`[App] Запуск ${appId}: ${command.script} ${JSON.stringify(command.args)}`);
+    await this.drv.execute(command.script, command.args);
+    await this.waitForAppState(AppState.RUNNING_IN_FOREGROUND);
+  }
+
+  /** Перезапуск: завершить и запустить снова (с параметрами — через launchApp). */
+  async relaunchApp(options?: LaunchAppOptions) {
+    if (options) return this.launchApp(options);
+    await this.terminateApp();
+    await this.activateApp();
+  }
+
+  /** Удалить и заново установить приложение из сборки, указанной в конфигурации, затем запустить. */
+  async reinstallApp() {
+    const platform = AppConfig.getPlatform();
+    const appPath = path.resolve(AppConfig.getAppName());
+    if (!fs.existsSync(appPath)) throw new Error(`reinstallApp(): сборка приложения не найдена: ${appPath}`);
+
+    await this.terminateApp();
+    console.info(`[App] Переустановка ${this.currentAppId()} из ${appPath}`);
+    await this.drv.execute("mobile: removeApp", this.appIdArgs());
+    await this.drv.execute("mobile: installApp", installAppArgs(platform, appPath));
+    await this.activateApp();
+  }
+
+  /**
+   * Сбросить данные приложения и запустить его «с нуля».
+   * Android — mobile: clearApp (pm clear), iOS — удаление и установка заново:
+   * у симулятора нет отдельной очистки контейнера без потери установки.
+   */
+  async clearAppData() {
+    if (AppConfig.getPlatform() === Platform.IOS) return this.reinstallApp();
+    console.info(`[App] Очистка данных ${this.currentAppId()}`);
+    await this.drv.execute("mobile: clearApp", this.appIdArgs());
+    await this.activateApp();
+  }
+
+  private currentAppId(): string {
+    const appId = AppConfig.getPlatform() === Platform.ANDROID ? AppConfig.getAppPackage() : AppConfig.getBundleId();
+    if (!appId) throw new Error(`Не задан ${AppConfig.getPlatform() === Platform.ANDROID ? "app.package" : "bundle.id"} в конфигурации`);
+    return appId;
+  }
+
+  private appIdArgs(): Record<string, string> {
+    return appIdArgs(AppConfig.getPlatform(), this.currentAppId());
+  }
+
+  private async waitForAppState(expected: AppState) {
+    await this.waitUntil(() => this.queryAppState(), {
+      timeout: actionDefaults().timeoutExpectation,
+      interval: actionDefaults().pollingInterval,
+      until: (state) => state === expected,
+      message: `Приложение ${this.currentAppId()} ${appStateName(expected)}`,
+      describe: (state) => appStateName(state),
+    });
+  }
+
   // -------------------------------------------------------------
   // Deeplink (Android/iOS через mobile: deepLink + fallback)
   // -------------------------------------------------------------
@@ -1076,7 +1912,7 @@ export class MobileActions {
           ios: { using: "css selector", value: "#deeplink" },
         });
 
-        const btn = await this.waitForElements(locator, null, 0, 15, DEFAULT_POLLING_INTERVAL, 0, 1, DEFAULT_SCROLL_DIRECTION);
+        const btn = await this.waitForElements(locator, null, 0, 15, actionDefaults().pollingInterval, 0, 1, actionDefaults().scrollDirection);
         await btn.click();
         return;
       }
@@ -1088,8 +1924,8 @@ export class MobileActions {
   // -------------------------------------------------------------
   // Алерты и нативные действия
   // -------------------------------------------------------------
-  alert(timeoutExpectation = DEFAULT_TIMEOUT_EXPECTATION, pollingInterval = DEFAULT_POLLING_INTERVAL): AlertHandler {
-    return new AlertHandler(this.drv as any, timeoutExpectation, pollingInterval);
+  alert(timeoutExpectation = actionDefaults().timeoutExpectation, pollingInterval = actionDefaults().pollingInterval): AlertHandler {
+    return new AlertHandler(this.drv as any, timeoutExpectation, pollingInterval, this.signal);
   }
 
   async performNativeAction(opts: { androidKey?: number | string; iosKey?: string }) {
@@ -0,0 +1,275 @@
+import {
+  type CountExpectation,
+  describeCountExpectation,
+  describeTextExpectation,
+  type TextExpectation,
+} from "../core/assertions/expectations";
+import { displayText, type TypingOptions } from "../core/input/keyboard";
+import type { DragGesture, LongPressGesture, PinchGesture, RotateGesture, TapGesture } from "../core/gestures/pointer-actions";
+import { type Locator, PageElement } from "../core/locators/page-element";
+import { step } from "../plugins/reporting/allure/steps";
+import type { ActionOptions } from "./action-options";
+import { type MobileActions, mobileActions } from "./mobile-actions";
+
+/** Локаторы элемента по платформам: один локатор или список запасных. */
+export interface ElementLocators {
+  android?: Locator | Locator[] | null;
+  ios?: Locator | Locator[] | null;
+}
+
+export interface ElementOptions {
+  /** Имя для шагов отчёта. По умолчанию — имя свойства экрана. */
+  name?: string;
+  /** Элемент-маркер: по нему waitLoaded() определяет, что экран открыт. */
+  marker?: boolean;
+}
+
+function toPageElement(locators: ElementLocators | PageElement): PageElement {
+  if (locators instanceof PageElement) return locators;
+  const { android, ios } = locators;
+  return new PageElement({
+    android: Array.isArray(android) ? null : android,
+    androidList: Array.isArray(android) ? android : null,
+    ios: Array.isArray(ios) ? null : ios,
+    iosList: Array.isArray(ios) ? ios : null,
+  });
+}
+
+/**
+ * Элемент экрана с привязанными действиями. Каждое действие — шаг Allure
+ * с именем вида «Экран входа › loginButton: нажатие».
+ */
+export class ScreenElement {
+  constructor(
+    private readonly screen: Screen,
+    readonly pageElement: PageElement,
+    private readonly options: ElementOptions = {}
+  ) {
+  }
+
+  /** Имя элемента: явное или имя свойства, в котором он объявлен. */
+  get name(): string {
+    return this.options.name ?? this.screen.propertyNameOf(this) ?? "element";
+  }
+
+  get isMarker(): boolean {
+    return this.options.marker === true;
+  }
+
+  toString(): string {
+    return `${this.screen.name} › ${this.name}`;
+  }
+
+  /** Элемент внутри текущего: screen.card.nth(3).child(PageElement.ResourceId("price"), { name: "цена" }). */
+  child(target: PageElement | Locator, options: ElementOptions = {}): ScreenElement {
+    const child = this.pageElement.child(target);
+    const name = options.name ?? (target instanceof PageElement ? target.describe() : PageElement.describeLocator(target));
+    return new ScreenElement(this.screen, child, { ...options, name: `${this.name} › ${name}` });
+  }
+
+  /** Тот же элемент, i-й среди найденных (с 1). */
+  nth(i: number): ScreenElement {
+    return new ScreenElement(this.screen, this.pageElement.nth(i), { ...this.options, name: `${this.name}[${i}]` });
+  }
+
+  private step<T>(action: string, body: () => Promise<T>): Promise<T> {
+    return step(`${this}: ${action}`, body);
+  }
+
+  private get actions(): MobileActions {
+    return this.screen.actions;
+  }
+
+  /** Дождаться элемента (MobileActions.waitForElements). */
+  waitFor(options: ActionOptions = {}): Promise<WebdriverIO.Element> {
+    return this.step("ожидание", () => this.actions.waitForElements(this.pageElement, options));
+  }
+
+  click(options: ActionOptions = {}): Promise<void> {
+    return this.step("нажатие", () => this.actions.click(this.pageElement, options));
+  }
+
+  typeText(text: string, options: ActionOptions & TypingOptions = {}): Promise<void> {
+    return this.step(`ввод текста ${displayText(text, options.secret)}`, () =>
+      this.actions.typeText(this.pageElement, text, options)
+    );
+  }
+
+  appendText(text: string, options: ActionOptions & TypingOptions = {}): Promise<void> {
+    return this.step(`дописывание текста ${displayText(text, options.secret)}`, () =>
+      this.actions.appendText(this.pageElement, text, options)
+    );
+  }
+
+  clearText(options: ActionOptions = {}): Promise<void> {
+    return this.step("очистка поля", () => this.actions.clearText(this.pageElement, options));
+  }
+
+  checkVisible(options: ActionOptions = {}): Promise<void> {
+    return this.step("проверка видимости", () => this.actions.checkVisible(this.pageElement, options));
+  }
+
+  checkNotVisible(options: ActionOptions = {}): Promise<void> {
+    return this.step("проверка отсутствия", () => this.actions.checkNotVisible(this.pageElement, options));
+  }
+
+  waitForDisappear(options: ActionOptions = {}): Promise<void> {
+    return this.step("ожидание исчезновения", () => this.actions.waitForDisappear(this.pageElement, options));
+  }
+
+  checkText(expected: TextExpectation, options: ActionOptions = {}): Promise<void> {
+    return this.step(`проверка текста: ${describeTextExpectation(expected)}`, () =>
+      this.actions.checkText(this.pageElement, expected, options)
+    );
+  }
+
+  checkAttribute(attribute: string, expected: TextExpectation, options: ActionOptions = {}): Promise<void> {
+    return this.step(`проверка атрибута '${attribute}': ${describeTextExpectation(expected)}`, () =>
+      this.actions.checkAttribute(this.pageElement, attribute, expected, options)
+    );
+  }
+
+  checkEnabled(expected = true, options: ActionOptions = {}): Promise<void> {
+    return this.step(expected ? "проверка доступности" : "проверка недоступности", () =>
+      this.actions.checkEnabled(this.pageElement, expected, options)
+    );
+  }
+
+  checkChecked(expected = true, options: ActionOptions = {}): Promise<void> {
+    return this.step(expected ? "проверка включения" : "проверка выключения", () =>
+      this.actions.checkChecked(this.pageElement, expected, options)
+    );
+  }
+
+  checkSelected(expected = true, options: ActionOptions = {}): Promise<void> {
+    return this.step(expected ? "проверка выбора" : "проверка снятия выбора", () =>
+      this.actions.checkSelected(this.pageElement, expected, options)
+    );
+  }
+
+  checkCount(expected: CountExpectation, options: ActionOptions = {}): Promise<void> {
+    return this.step(`проверка количества: ${describeCountExpectation(expected)}`, () =>
+      this.actions.checkCount(this.pageElement, expected, options)
+    );
+  }
+
+  getText(options: ActionOptions = {}): Promise<string> {
+    return this.step("получение текста", () => this.actions.getText(this.pageElement, options));
+  }
+
+  getAttributeValue(attribute: string, options: ActionOptions = {}): Promise<string> {
+    return this.step(`получение атрибута '${attribute}'`, () =>
+      this.actions.getAttributeValue(this.pageElement, attribute, options)
+    );
+  }
+
+  tapArea(x: number, y: number, options: ActionOptions = {}): Promise<void> {
+    return this.step(`нажатие в точку (${x}, ${y})`, () => this.actions.tapElementArea(this.pageElement, x, y, options));
+  }
+
+  longPress(options: ActionOptions & LongPressGesture = {}): Promise<void> {
+    return this.step("долгое нажатие", () => this.actions.longPress(this.pageElement, options));
+  }
+
+  doubleTap(options: ActionOptions & TapGesture = {}): Promise<void> {
+    return this.step("двойное нажатие", () => this.actions.doubleTap(this.pageElement, options));
+  }
+
+  dragTo(target: ScreenElement | PageElement, options: ActionOptions & DragGesture = {}): Promise<void> {
+    const [element, name] = target instanceof ScreenElement ? [target.pageElement, target.name] : [target, target.describe()];
+    return this.step(`перетаскивание на ${name}`, () => this.actions.dragAndDrop(this.pageElement, element, options));
+  }
+
+  pinch(options: ActionOptions & PinchGesture = {}): Promise<void> {
+    return this.step("сжатие", () => this.actions.pinch(this.pageElement, options));
+  }
+
+  zoom(options: ActionOptions & PinchGesture = {}): Promise<void> {
+    return this.step("растяжение", () => this.actions.zoom(this.pageElement, options));
+  }
+
+  rotate(degrees: number, options: ActionOptions & RotateGesture = {}): Promise<void> {
+    return this.step(`поворот на ${degrees}°`, () => this.actions.rotate(this.pageElement, degrees, options));
+  }
+
+  /** Свайпы по элементу: без scroll.count — один свайп, а не scroll.count из настроек (по умолчанию 0). */
+  swipeUp(options: ActionOptions = {}): Promise<void> {
+    return this.step("свайп вверх", () => this.actions.swipeUp(this.pageElement, oneSwipe(options)));
+  }
+
+  swipeDown(options: ActionOptions = {}): Promise<void> {
+    return this.step("свайп вниз", () => this.actions.swipeDown(this.pageElement, oneSwipe(options)));
+  }
+
+  swipeLeft(options: ActionOptions = {}): Promise<void> {
+    return this.step("свайп влево", () => this.actions.swipeLeft(this.pageElement, oneSwipe(options)));
+  }
+
+  swipeRight(options: ActionOptions = {}): Promise<void> {
+    return this.step("свайп вправо", () => this.actions.swipeRight(this.pageElement, oneSwipe(options)));
+  }
+}
+
+function oneSwipe(options: ActionOptions): ActionOptions {
+  return { ...options, scroll: { count: 1, ...options.scroll } };
+}
+
+/**
+ * Базовый класс экрана (page object). Элементы объявляются один раз полями класса:
+ *
+ *   class LoginScreen extends Screen {
+ *     readonly title = "Экран входа";
+ *     readonly header = this.element({ android: PageElement.Text("Вход"), ios: PageElement.Label("Вход") }, { marker: true });
+ *     readonly loginButton = this.element({ android: PageElement.Id("login"), ios: PageElement.AccessibilityId("login") });
+ *   }
+ *
+ *   const login = await new LoginScreen().waitLoaded();
+ *   await login.loginButton.click();
+ */
+export abstract class Screen {
+  /** Имя экрана для шагов отчёта. По умолчанию — имя класса. */
+  readonly title?: string;
+
+  constructor(readonly actions: MobileActions = mobileActions) {
+  }
+
+  get name(): string {
+    return this.title ?? this.constructor.name;
+  }
+
+  /** Объявить элемент экрана. */
+  protected element(locators: ElementLocators | PageElement, options: ElementOptions = {}): ScreenElement {
+    return new ScreenElement(this, toPageElement(locators), options);
+  }
+
+  /** Все элементы, объявленные полями экрана. */
+  elements(): ScreenElement[] {
+    return Object.values(this).filter((v): v is ScreenElement => v instanceof ScreenElement);
+  }
+
+  /** Маркеры загруженности экрана. По умолчанию — элементы с { marker: true }. */
+  protected markers(): ScreenElement[] {
+    return this.elements().filter((e) => e.isMarker);
+  }
+
+  /** Имя свойства, в котором объявлен элемент (для шагов отчёта). */
+  propertyNameOf(element: ScreenElement): string | undefined {
+    return Object.entries(this).find(([, v]) => v === element)?.[0];
+  }
+
+  /** Дождаться, пока отобразятся все маркеры экрана. */
+  async waitLoaded(options: ActionOptions = {}): Promise<this> {
+    const markers = this.markers();
+    if (!markers.length) {
+      throw new Error(
+        `У экрана '${this.name}' не объявлены маркеры: отметьте элементы { marker: true } или переопределите markers()`
+      );
+    }
+    await step(`${this.name}: ожидание загрузки`, async () => {
+      for (const marker of markers) {
+        await this.actions.waitForElements(marker.pageElement, options);
+      }
+    });
+    return this;
+  }
+}
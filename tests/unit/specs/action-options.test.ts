@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resetTestEnv, useConfig } from "../support/test-env";
+
+import { AppConfiguration, setDefaultConfig } from "../../../src/config/app-config";
+import { ScrollDirection } from "../../../src/core/gestures/scroll-direction";
+import { EventStorage } from "../../../src/domain/events/storage";
+import { actionOptionsFromArgs, resolveActionOptions, scrollFromArgs } from "../../../src/runtime/action-options";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+describe("action-options: объект опций MobileActions", () => {
+  afterEach(() => setDefaultConfig(null));
+
+  it("не указанные поля берутся из действующих значений по умолчанию", () => {
+    setDefaultConfig(AppConfiguration.fromObject({ "timeout.expectation": 25, "scroll.count": 2 }));
+
+    expect(resolveActionOptions("click", { index: 2, scroll: { direction: ScrollDirection.Up } })).toEqual({
+      index: 2,
+      timeout: 25,
+      before: 0,
+      polling: 1000,
+      scroll: { count: 2, capacity: 1, direction: ScrollDirection.Up, container: null, bidirectional: false, detectEnd: true, native: false },
+    });
+  });
+
+  it("строгая проверка: все ошибки сразу, с подсказкой для опечаток", () => {
+    const call = () =>
+      resolveActionOptions("click", {
+        timout: 5,
+        index: 0,
+        polling: 0,
+        scroll: { count: 1.5, capacity: 2, direction: "Sideways" },
+      } as any);
+
+    expect(call).toThrow(/Некорректные опции click\(\)/);
+    try {
+      call();
+    } catch (e: any) {
+      expect(e.message).toContain("неизвестная опция 'timout' — возможно, 'timeout'?");
+      expect(e.message).toContain("index=0");
+      expect(e.message).toContain("polling=0");
+      expect(e.message).toContain("scroll.count=1.5");
+      expect(e.message).toContain("scroll.capacity=2");
+      expect(e.message).toContain('scroll.direction="Sideways"');
+    }
+  });
+
+  it("позиционная форма отображается на те же поля", () => {
+    setDefaultConfig(AppConfiguration.fromObject());
+
+    expect(actionOptionsFromArgs("click", [null, 0, 10, 1000, 3, 0.7, ScrollDirection.Up])).toEqual({
+      index: null,
+      before: 0,
+      timeout: 10,
+      polling: 1000,
+      scroll: { count: 3, capacity: 0.7, direction: ScrollDirection.Up, container: null, bidirectional: false, detectEnd: true, native: false },
+    });
+    expect(actionOptionsFromArgs("click", [{ timeout: 3 }]).timeout).toBe(3);
+  });
+
+  it("позиционные значения проверяются так же строго, как объект опций", () => {
+    setDefaultConfig(AppConfiguration.fromObject());
+
+    expect(() => actionOptionsFromArgs("click", ["2"])).toThrow(/Некорректные опции click\(\):\n - index="2": ожидалось целое число ≥ 1/);
+    try {
+      actionOptionsFromArgs("getText", [0, -1, 5, 0, 1.5, 2, "Sideways"]);
+      expect.unreachable();
+    } catch (e: any) {
+      expect(e.message).toContain("index=0");
+      expect(e.message).toContain("before=-1");
+      expect(e.message).toContain("polling=0");
+      expect(e.message).toContain("scroll.count=1.5");
+      expect(e.message).toContain("scroll.capacity=2");
+      expect(e.message).toContain('scroll.direction="Sideways"');
+    }
+    expect(() => scrollFromArgs("swipeLeft", "3", undefined)).toThrow(/scroll.count="3"/);
+    expect(scrollFromArgs("swipeLeft", 2, null)).toMatchObject({ count: 2, capacity: 1 });
+  });
+
+  it("после объекта опций позиционные аргументы недопустимы", () => {
+    expect(() => actionOptionsFromArgs("typeText", [{ timeout: 3 }, 5])).toThrow(/после объекта опций/);
+  });
+});
+
+describe("click(eventName, eventData): позиционные значения по умолчанию", () => {
+  afterEach(() => {
+    resetTestEnv();
+    EventStorage.clear();
+  });
+
+  it("скролл берётся из actionDefaults() в момент вызова", async () => {
+    useConfig({ platform: "ANDROID", "scroll.count": 3, "scroll.capacity": 0.5 });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const body = { event: { data: { items: [{ name: "Молоко", sku: "42" }] } } };
+    EventStorage.addEvents([
+      {
+        event_time: "2024-01-01T00:00:00Z",
+        event_num: 1,
+        name: "catalog_shown",
+        data: { uri: "/m/batch", remoteAddress: null, headers: {}, body: JSON.stringify(body) },
+      },
+    ]);
+    const click = vi.fn(async () => {});
+    const wait = vi
+      .spyOn(mobileActions, "waitForElements")
+      .mockResolvedValue({ click } as unknown as WebdriverIO.Element);
+
+    await mobileActions.click("catalog_shown", '{"sku":"42"}');
+    expect(wait.mock.calls[0].slice(5, 7)).toEqual([3, 0.5]);
+    expect(click).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import {
+  AppConfig,
+  AppConfiguration,
+  currentConfig,
+  overrideConfig,
+  setDefaultConfig,
+  withConfig,
+} from "../../../src/config/app-config";
+import { ConfigValidationError } from "../../../src/config/config-schema";
+import { Platform } from "../../../src/core/platform";
+import { PageElement } from "../../../src/core/locators/page-element";
+
+describe("AppConfiguration: фабрики и переопределения", () => {
+  afterEach(() => setDefaultConfig(null));
+
+  it("fromObject не читает файлы и env, остальное — значения по умолчанию", () => {
+    const cfg = AppConfiguration.fromObject({ platform: "IOS", "video.recording.quality": 30 });
+
+    expect(cfg.getPlatform()).toBe(Platform.IOS);
+    expect(cfg.getVideoRecordingQuality()).toBe(30);
+    expect(cfg.getAppPackage()).toBe("com.dev");
+    expect(cfg.getOrigin("platform")).toEqual({ layer: "override", source: "fromObject" });
+    expect(cfg.getOrigin("app.package")).toEqual({ layer: "default", source: "default" });
+  });
+
+  it("fromObject валидирует значения", () => {
+    expect(() => AppConfiguration.fromObject({ "video.recording.quality": "abc" })).toThrow(ConfigValidationError);
+  });
+
+  it("fromFile читает только указанный файл и учитывает переданный env", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cfg-"));
+    const file = path.join(dir, "suite.properties");
+    fs.writeFileSync(file, "platform=IOS\napp.package=com.suite\n");
+    try {
+      const cfg = AppConfiguration.fromFile(file, { env: { APP_PACKAGE: "com.env" } });
+      expect(cfg.getPlatform()).toBe(Platform.IOS);
+      expect(cfg.getAppPackage()).toBe("com.env");
+      expect(cfg.getConfigFiles()).toEqual([{ layer: "base", path: file }]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("with() не меняет исходный экземпляр", () => {
+    const base = AppConfiguration.fromObject({ platform: "ANDROID" });
+    const derived = base.with({ platform: "IOS" });
+
+    expect(base.getPlatform()).toBe(Platform.ANDROID);
+    expect(derived.getPlatform()).toBe(Platform.IOS);
+    expect(derived.getOrigin("platform")).toEqual({ layer: "override", source: "withConfig" });
+  });
+
+  it("withConfig действует внутри асинхронного потока и на PageElement", async () => {
+    setDefaultConfig(AppConfiguration.fromObject({ platform: "ANDROID" }));
+    const el = new PageElement({ android: "~android", ios: "~ios" });
+
+    const inside = await withConfig({ platform: "IOS" }, async () => {
+      await new Promise((r) => setTimeout(r, 1));
+      return { platform: AppConfig.getPlatform(), locator: el.get() };
+    });
+
+    expect(inside).toEqual({ platform: Platform.IOS, locator: "~ios" });
+    expect(AppConfig.getPlatform()).toBe(Platform.ANDROID);
+    expect(el.get()).toBe("~android");
+  });
+
+  it("overrideConfig действует до вызова restore", () => {
+    setDefaultConfig(AppConfiguration.fromObject({ "app.package": "com.default" }));
+
+    const restore = overrideConfig({ "app.package": "com.suite" });
+    expect(AppConfig.getAppPackage()).toBe("com.suite");
+    expect(PageElement.Id("btn")).toEqual({
+      using: "xpath",
+      value: ".//*[contains(@id,'btn') or contains(@id,'com.suite:id/btn')]",
+    });
+
+    restore();
+    expect(currentConfig().getAppPackage()).toBe("com.default");
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { AppState, intentExtra, launchAppCommand } from "../../../src/core/app/app-lifecycle";
+import { Platform } from "../../../src/core/platform";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+describe("app-lifecycle", () => {
+  it("intent extras: тип по значению", () => {
+    expect(intentExtra("name", "Иван")).toEqual(["s", "name", "Иван"]);
+    expect(intentExtra("onboarding", false)).toEqual(["z", "onboarding", "false"]);
+    expect(intentExtra("count", 3)).toEqual(["i", "count", "3"]);
+    expect(intentExtra("ts", 1_700_000_000_000)).toEqual(["l", "ts", "1700000000000"]);
+    expect(intentExtra("ratio", 0.5)).toEqual(["f", "ratio", "0.5"]);
+    expect(intentExtra("token", null)).toEqual(["sn", "token"]);
+  });
+
+  it("команда запуска по платформам", () => {
+    const android = launchAppCommand(Platform.ANDROID, { appId: "ru.shop", activity: ".MainActivity" }, { extras: { debug: true } });
+    expect(android).toEqual({
+      script: "mobile: startActivity",
+      args: { component: "ru.shop/.MainActivity", stop: true, wait: true, extras: [["z", "debug", "true"]] },
+    });
+    expect(launchAppCommand(Platform.IOS, { appId: "ru.shop" }, { arguments: ["-uiTests"], environment: { MOCK: "1" } })).toEqual({
+      script: "mobile: launchApp",
+      args: { bundleId: "ru.shop", arguments: ["-uiTests"], environment: { MOCK: "1" } },
+    });
+    expect(() => launchAppCommand(Platform.ANDROID, { appId: "ru.shop", activity: ".Main" }, { arguments: ["-x"] })).toThrow(
+      /только на iOS/
+    );
+    expect(() => launchAppCommand(Platform.IOS, { appId: "ru.shop" }, { extras: { a: 1 } })).toThrow(/только на Android/);
+  });
+});
+
+describe("MobileActions: жизненный цикл приложения", () => {
+  afterEach(resetTestEnv);
+
+  /** Драйвер, который ведёт состояние приложения как Appium. */
+  function fakeDriver(initial = AppState.RUNNING_IN_FOREGROUND) {
+    let state = initial;
+    const calls: Array<[string, unknown]> = [];
+    useFakeDriver({}, {
+      execute: async (script: string, args: unknown) => {
+        calls.push([script, args]);
+        switch (script) {
+          case "mobile: queryAppState":
+            return state;
+          case "mobile: terminateApp": {
+            const running = state > AppState.NOT_RUNNING;
+            if (running) state = AppState.NOT_RUNNING;
+            return running;
+          }
+          case "mobile: removeApp":
+            state = AppState.NOT_INSTALLED;
+            return true;
+          case "mobile: installApp":
+            state = AppState.NOT_RUNNING;
+            return null;
+          case "mobile: clearApp":
+            state = AppState.NOT_RUNNING;
+            return true;
+          default:
+            state = AppState.RUNNING_IN_FOREGROUND;
+            return null;
+        }
+      },
+    });
+    // опрос состояния после каждой команды в проверках не интересен
+    return () => calls.filter(([script]) => script !== "mobile: queryAppState");
+  }
+
+  it("Android: фон, перезапуск с extras и очистка данных", async () => {
+    useConfig({ platform: "ANDROID", "app.package": "ru.shop", "app.activity": ".Main" });
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    const calls = fakeDriver();
+
+    await mobileActions.backgroundApp(2);
+    expect(await mobileActions.queryAppState()).toBe(AppState.RUNNING_IN_FOREGROUND);
+    await mobileActions.relaunchApp({ extras: { promo: "SALE" } });
+    await mobileActions.clearAppData();
+    expect(calls()).toEqual([
+      ["mobile: backgroundApp", { seconds: 2 }],
+      ["mobile: startActivity", { component: "ru.shop/.Main", stop: true, wait: true, extras: [["s", "promo", "SALE"]] }],
+      ["mobile: clearApp", { appId: "ru.shop" }],
+      ["mobile: activateApp", { appId: "ru.shop" }],
+    ]);
+    await expect(mobileActions.backgroundApp(NaN)).rejects.toThrow(/seconds=NaN/);
+  });
+
+  it("iOS: launchApp завершает запущенное приложение; переустановка из сборки", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "app-lifecycle-"));
+    const appPath = path.join(dir, "Shop.app");
+    fs.mkdirSync(appPath);
+    useConfig({ platform: "IOS", "bundle.id": "ru.shop", "ios.app.name": appPath });
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    const calls = fakeDriver();
+
+    await mobileActions.launchApp({ arguments: ["-resetOnboarding"] });
+    expect(calls()).toEqual([
+      ["mobile: terminateApp", { bundleId: "ru.shop" }],
+      ["mobile: launchApp", { bundleId: "ru.shop", arguments: ["-resetOnboarding"] }],
+    ]);
+
+    const before = calls().length;
+    await mobileActions.clearAppData();
+    expect(calls().slice(before)).toEqual([
+      ["mobile: terminateApp", { bundleId: "ru.shop" }],
+      ["mobile: removeApp", { bundleId: "ru.shop" }],
+      ["mobile: installApp", { app: appPath }],
+      ["mobile: activateApp", { bundleId: "ru.shop" }],
+    ]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("ошибка ожидания состояния называет ожидаемое и фактическое", async () => {
+    useConfig({ platform: "ANDROID", "app.package": "ru.shop", "timeout.expectation": 0.05, "polling.interval": 10 });
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    useFakeDriver({}, { execute: async (script: string) => (script === "mobile: queryAppState" ? AppState.RUNNING_IN_BACKGROUND : null) });
+    await expect(mobileActions.activateApp()).rejects.toThrow(
+      /^Приложение ru.shop на переднем плане: не дождались за 0.05 с .*последнее значение: в фоне$/
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import {
+  describeCountExpectation,
+  describeTextExpectation,
+  matchesCount,
+  matchesText,
+  normalizeWhitespace,
+} from "../../../src/core/assertions/expectations";
+import { PageElement } from "../../../src/core/locators/page-element";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+describe("expectations", () => {
+  it("текст: точное совпадение, подстрока, выражение; пробелы схлопываются", () => {
+    expect(normalizeWhitespace("  Итого:\n 1 200 ₽ ")).toBe("Итого: 1 200 ₽");
+    expect(matchesText("Корзина\n  (2)", "Корзина (2)")).toBe(true);
+    expect(matchesText("Корзина (2)", "Корзина")).toBe(false);
+    expect(matchesText("Корзина (2)", { contains: "корзина", ignoreCase: true })).toBe(true);
+    expect(matchesText("Заказ №123", /№\d+$/g)).toBe(true);
+    expect(matchesText("a  b", { equals: "a  b", normalizeWhitespace: false })).toBe(true);
+    expect(() => matchesText("x", { equals: "x", contains: "x" })).toThrow(/ровно одно/);
+  });
+
+  it("описания для сообщений", () => {
+    expect(describeTextExpectation("Ок")).toBe('равен "Ок"');
+    expect(describeTextExpectation({ contains: "₽", ignoreCase: true })).toBe('содержит "₽" (без учёта регистра)');
+    expect(describeTextExpectation(/\d+/)).toBe("соответствует /\\d+/");
+    expect(matchesCount(3, { min: 1, max: 3 })).toBe(true);
+    expect(matchesCount(0, { min: 1 })).toBe(false);
+    expect(describeCountExpectation({ min: 1, max: 3 })).toBe("не меньше 1 и не больше 3");
+  });
+});
+
+describe("MobileActions: проверки с повтором", () => {
+  afterEach(resetTestEnv);
+
+  interface FakeElement {
+    text?: string;
+    attrs?: Record<string, string>;
+    enabled?: boolean;
+    selected?: boolean;
+    displayed?: boolean;
+    y?: number;
+    /** Сколько найденных элементов отдаёт драйвер. */
+    count?: number;
+  }
+
+  /** Экран из именованных элементов; состояние можно менять по ходу проверки. */
+  function fakeScreen(elements: Record<string, FakeElement>) {
+    const state = (id: string) => elements[id] ?? {};
+    useFakeDriver(
+      {
+        find: (_using, value) => (elements[value] ? Array.from({ length: elements[value].count ?? 1 }, () => value) : []),
+        element: (id) => ({
+          isDisplayed: async () => state(id).displayed ?? true,
+          getText: async () => state(id).text ?? "",
+          getAttribute: async (name: string) => state(id).attrs?.[name] ?? null,
+          isEnabled: async () => state(id).enabled ?? true,
+          isSelected: async () => state(id).selected ?? false,
+          getLocation: async () => ({ x: 0, y: state(id).y ?? 0 }),
+        }),
+      },
+      { getPageSource: async () => "<hierarchy/>" }
+    );
+  }
+
+  const el = (id: string) => PageElement.byAccessibilityId(id);
+  const fast = { before: 0, timeout: 0.1, polling: 10 };
+
+  it("checkText дожидается нужного текста", async () => {
+    useConfig({ platform: "ANDROID" });
+    const screen: Record<string, FakeElement> = { total: { text: "Загрузка…" } };
+    fakeScreen(screen);
+    setTimeout(() => (screen.total.text = "Итого:\n 1 200 ₽"), 30);
+    await mobileActions.checkText(el("total"), { matches: /^Итого: [\d ]+ ₽$/ }, { ...fast, timeout: 1 });
+  });
+
+  it("сообщение об ошибке содержит ожидаемое и фактическое значение", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeScreen({ title: { text: "Корзина (2)" }, btn: { enabled: false, attrs: { "content-desc": "Оплатить" } } });
+
+    await expect(mobileActions.checkText(el("title"), "Корзина", fast)).rejects.toThrow(
+      /checkText: проверка не прошла за 0.1 с \(прошло 0\.\d с\)\. Элемент: accessibility id=title\n {2}Ожидалось: текст равен "Корзина"\n {2}Фактически: "Корзина \(2\)"/
+    );
+    await expect(mobileActions.checkEnabled(el("btn"), true, fast)).rejects.toThrow(/Ожидалось: enabled=true\n {2}Фактически: enabled=false/);
+    await mobileActions.checkEnabled(el("btn"), false, fast);
+    await mobileActions.checkAttribute(el("btn"), "content-desc", { contains: "оплат", ignoreCase: true }, fast);
+    await expect(mobileActions.checkAttribute(el("btn"), "hint", "x", fast)).rejects.toThrow(/атрибута 'hint' нет/);
+    await expect(mobileActions.checkText(el("missing"), "x", fast)).rejects.toThrow(/элемент не найден или не отображается/);
+  });
+
+  it("checkChecked и checkSelected по платформам", async () => {
+    useConfig({ platform: "IOS" });
+    fakeScreen({ toggle: { attrs: { value: "1" } }, tab: { selected: true } });
+    await mobileActions.checkChecked(el("toggle"), true, fast);
+    await mobileActions.checkSelected(el("tab"), true, fast);
+
+    useConfig({ platform: "ANDROID" });
+    fakeScreen({ toggle: { attrs: { checked: "false" } } });
+    await expect(mobileActions.checkChecked(el("toggle"), true, fast)).rejects.toThrow(/Фактически: checked=false/);
+  });
+
+  it("checkNotVisible / waitForDisappear: элемент пропал или скрыт", async () => {
+    useConfig({ platform: "ANDROID" });
+    const screen: Record<string, FakeElement> = { loader: {}, hidden: { displayed: false } };
+    fakeScreen(screen);
+    await mobileActions.checkNotVisible(el("hidden"), fast);
+    await expect(mobileActions.checkNotVisible(el("loader"), fast)).rejects.toThrow(
+      /Ожидалось: элемент не отображается\n {2}Фактически: элемент отображается/
+    );
+    setTimeout(() => delete screen.loader, 30);
+    await mobileActions.waitForDisappear(el("loader"), { ...fast, timeout: 1 });
+  });
+
+  it("checkCount и checkOrder", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeScreen({ row: { count: 3 }, a: { y: 10 }, b: { y: 50 }, c: { y: 30 } });
+    await mobileActions.checkCount(el("row"), 3, fast);
+    await mobileActions.checkCount(el("none"), 0, fast);
+    await expect(mobileActions.checkCount(el("row"), { max: 2 }, fast)).rejects.toThrow(
+      /Ожидалось: элементов: не больше 2\n {2}Фактически: элементов: 3/
+    );
+
+    await mobileActions.checkOrder([el("a"), el("c"), el("b")], fast);
+    await expect(mobileActions.checkOrder([el("a"), el("b"), el("c")], fast)).rejects.toThrow(
+      /Фактически: accessibility id=a \(0, 10\) → accessibility id=c \(0, 30\) → accessibility id=b \(0, 50\)/
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+
+import { AppConfiguration } from "../../../src/config/app-config";
+import { ConfigValidationError } from "../../../src/config/config-schema";
+import { Platform } from "../../../src/core/platform";
+import {
+  mergeCapabilities,
+  overrideCapabilities,
+  resolveCapabilities,
+  withCapabilities,
+} from "../../../src/adapters/appium/drivers/capabilities";
+
+describe("capabilities: ключи caps.* и переопределения", () => {
+  it("caps.<platform>.* приводятся к типам и собираются во вложенные объекты", () => {
+    const cfg = AppConfiguration.fromObject({
+      "caps.android.appium:noReset": true,
+      "caps.android.appium:newCommandTimeout": "300",
+      "caps.ios.appium:processArguments.args.0": "-debug",
+      "caps.ios.appium:processArguments.env": '{"LANG":"ru"}',
+    });
+
+    expect(cfg.getCapabilityOverrides(Platform.ANDROID)).toEqual({
+      "appium:noReset": true,
+      "appium:newCommandTimeout": 300,
+    });
+    expect(cfg.getCapabilityOverrides(Platform.IOS)).toEqual({
+      "appium:processArguments": { args: ["-debug"], env: { LANG: "ru" } },
+    });
+  });
+
+  it("некорректный JSON в caps.* — ошибка валидации", () => {
+    expect(() => AppConfiguration.fromObject({ "caps.ios.appium:settings": "{oops" })).toThrow(ConfigValidationError);
+  });
+
+  it("глубокое слияние: объекты сливаются, массивы заменяются, null удаляет", () => {
+    const merged = mergeCapabilities(
+      { "appium:app": "/a.app", "appium:processArguments": { args: ["a"], env: { A: "1" } } },
+      { "appium:app": null, "appium:processArguments": { args: ["b"], env: { B: "2" } } }
+    );
+
+    expect(merged).toEqual({ "appium:processArguments": { args: ["b"], env: { A: "1", B: "2" } } });
+  });
+
+  it("порядок: сгенерированные → caps.* → overrideCapabilities → withCapabilities → явные", () => {
+    const cfg = AppConfiguration.fromObject({ "caps.android.appium:noReset": true, "caps.android.x": "cfg" });
+    const restore = overrideCapabilities(({ testName }) => (testName === "t1" ? { x: "suite", y: "suite" } : undefined));
+    try {
+      const ctx = { platform: Platform.ANDROID, testName: "t1" };
+      const caps = withCapabilities({ y: "scope", z: "scope" }, () =>
+        resolveCapabilities({ "appium:noReset": false, x: "gen" }, cfg, ctx, { z: "explicit" })
+      );
+      expect(caps).toEqual({ "appium:noReset": true, x: "suite", y: "scope", z: "explicit" });
+
+      const other = resolveCapabilities({ x: "gen" }, cfg, { platform: Platform.ANDROID, testName: "t2" });
+      expect(other).toEqual({ "appium:noReset": true, x: "cfg" });
+    } finally {
+      restore();
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { detectFormat, flattenConfig, parseDotenv, parseYaml } from "../../../src/config/config-formats";
+import { AppConfiguration } from "../../../src/config/app-config";
+import { loadLayeredConfig } from "../../../src/config/config-loader";
+
+describe("config-formats: YAML", () => {
+  it("вложенные отображения, списки и комментарии", () => {
+    const doc = parseYaml(
+      [
+        "# конфиг",
+        "appium:",
+        "  url: http://localhost:4723/  # локальный",
+        "  autostart: true",
+        "devices:",
+        "  - name: Pixel",
+        "    version: 14",
+        "  - iPhone",
+        "tags: [smoke, 'ui, fast']",
+        "extra: { a: 1, b: \"x y\" }",
+      ].join("\n")
+    );
+
+    expect(flattenConfig(doc)).toEqual({
+      "appium.url": "http://localhost:4723/",
+      "appium.autostart": "true",
+      "devices.0.name": "Pixel",
+      "devices.0.version": "14",
+      "devices.1": "iPhone",
+      "tags.0": "smoke",
+      "tags.1": "ui, fast",
+      "extra.a": "1",
+      "extra.b": "x y",
+    });
+  });
+
+  it("ключи с двоеточием и блочные скаляры", () => {
+    const doc = parseYaml("caps:\n  appium:noReset: true\nnote: |\n  line 1\n  line 2\n");
+    expect(flattenConfig(doc)).toEqual({ "caps.appium:noReset": "true", note: "line 1\nline 2" });
+  });
+
+  it("блочные скаляры сохраняют пустые строки, # и относительный отступ", () => {
+    const doc = parseYaml(
+      [
+        "script: |",
+        "  # не комментарий",
+        "  if x:",
+        "    run()",
+        "",
+        "  done",
+        "",
+        "text: >",
+        "  первая",
+        "  строка",
+        "",
+        "  абзац",
+        "# комментарий YAML",
+        "after: 1",
+      ].join("\n")
+    );
+    expect(doc).toEqual({
+      script: "# не комментарий\nif x:\n  run()\n\ndone",
+      text: "первая строка\nабзац",
+      after: "1",
+    });
+  });
+
+  it("якоря и табуляция — понятная ошибка с номером строки", () => {
+    expect(() => parseYaml("a: &x 1\n")).toThrow(/строка 1/);
+    expect(() => parseYaml("a:\n\tb: 1\n")).toThrow(/строка 2/);
+  });
+});
+
+describe("config-formats: JSON и .env", () => {
+  it("JSON сплющивается в dotted-ключи, null пропускается", () => {
+    expect(flattenConfig({ video: { recording: { quality: 80, enabled: false } }, skip: null })).toEqual({
+      "video.recording.quality": "80",
+      "video.recording.enabled": "false",
+    });
+  });
+
+  it("dotenv: export, кавычки, escape и комментарии", () => {
+    const env = parseDotenv(
+      ["export PLATFORM=IOS", "URL=http://h/#frag # комментарий", 'MSG="a\\nb"', "RAW='x\\ny'"].join("\n")
+    );
+    expect(env).toEqual({ PLATFORM: "IOS", URL: "http://h/#frag", MSG: "a\nb", RAW: "x\\ny" });
+  });
+
+  it("формат определяется по имени файла", () => {
+    expect(detectFormat("/x/.env.local")).toBe("env");
+    expect(detectFormat("/x/tests.yml")).toBe("yaml");
+    expect(detectFormat("/x/tests.json")).toBe("json");
+    expect(detectFormat("/x/tests.properties")).toBe("properties");
+  });
+});
+
+describe("config-formats: загрузчик", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "cfg-fmt-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("yaml в base и .env.local поверх; ключи .env приводятся к ключам схемы", () => {
+    const yaml = path.join(cwd, "tests", "tests.yaml");
+    fs.mkdirSync(path.dirname(yaml), { recursive: true });
+    fs.writeFileSync(yaml, "platform: ANDROID\nappium:\n  url: http://a:4723/\n");
+    const dotenv = path.join(cwd, "tests", ".env.local");
+    fs.writeFileSync(dotenv, "APPIUM_URL=http://b:4723/\nSECRET_TOKEN=t\n");
+
+    const cfg = loadLayeredConfig({ cwd, env: {} });
+
+    expect(cfg.properties).toEqual({ platform: "ANDROID", "appium.url": "http://b:4723/" });
+    expect(cfg.provenance.platform).toEqual({ layer: "base", source: yaml, format: "yaml" });
+    expect(cfg.provenance["appium.url"]).toEqual({ layer: "local", source: dotenv, format: "env" });
+  });
+
+  it("посторонние переменные .env не читаются; одного .env недостаточно", () => {
+    const dotenv = path.join(cwd, ".env");
+    fs.writeFileSync(dotenv, "DATABASE_URL=postgres://${DB_USER}@localhost/db\nIOS_TIMEOUT_EXPECTATION=20\n");
+    expect(() => loadLayeredConfig({ cwd, env: {} })).toThrow(/Не удалось найти файл конфигурации/);
+
+    fs.writeFileSync(path.join(cwd, "tests.properties"), "platform=IOS\n");
+    const cfg = AppConfiguration.load({ cwd, env: {} });
+    expect(cfg.getPlatform()).toBe("IOS");
+    expect(cfg.getOrigin("ios.timeout.expectation")).toEqual({ layer: "base", source: dotenv, format: "env" });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { loadLayeredConfig, lookupEnv } from "../../../src/config/config-loader";
+
+function write(dir: string, rel: string, text: string) {
+  const p = path.join(dir, rel);
+  fs.mkdirSync(path.dirname(p), { recursive: true });
+  fs.writeFileSync(p, text, "utf8");
+  return p;
+}
+
+describe("config-loader: слои и происхождение", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "cfg-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("local перекрывает только свои ключи, остальные берутся из base", () => {
+    const base = write(cwd, "tests/config/tests.properties", "platform=ANDROID\nappium.url=http://a:4723/\n");
+    const local = write(cwd, "tests/config/tests.local.properties", "platform=IOS\n");
+
+    const cfg = loadLayeredConfig({ cwd, env: {} });
+
+    expect(cfg.properties).toEqual({ platform: "IOS", "appium.url": "http://a:4723/" });
+    expect(cfg.provenance.platform).toEqual({ layer: "local", source: local, format: "properties" });
+    expect(cfg.provenance["appium.url"]).toEqual({ layer: "base", source: base, format: "properties" });
+  });
+
+  it("порядок base → profile → runner → local", () => {
+    write(cwd, "tests/tests.properties", "a=base\nb=base\nc=base\nd=base\n");
+    write(cwd, "tests/tests.ci.properties", "b=profile\nc=profile\nd=profile\n");
+    write(cwd, "tests/runner.appium.properties", "c=runner\nd=runner\n");
+    write(cwd, "tests.local.properties", "d=local\n");
+
+    const cfg = loadLayeredConfig({ cwd, env: { CI: "1", TEST_RUNNER: "appium" } });
+
+    expect(cfg.properties).toEqual({ a: "base", b: "profile", c: "runner", d: "local" });
+    expect(cfg.files.map((f) => f.layer)).toEqual(["base", "profile", "runner", "local"]);
+  });
+
+  it("CONFIG_PATH задаёт базовый файл, а отсутствующий путь — ошибка", () => {
+    write(cwd, "custom/my.properties", "platform=IOS\n");
+
+    expect(loadLayeredConfig({ cwd, env: { CONFIG_PATH: "custom/my.properties" } }).properties.platform).toBe("IOS");
+    expect(() => loadLayeredConfig({ cwd, env: { CONFIG_PATH: "nope.properties" } })).toThrow(/CONFIG_PATH/);
+  });
+
+  it("без файлов — ошибка с перечислением мест поиска", () => {
+    expect(() => loadLayeredConfig({ cwd, env: {} })).toThrow(/Не удалось найти файл конфигурации/);
+  });
+
+  it("lookupEnv возвращает имя найденной переменной", () => {
+    expect(lookupEnv("appium.url", { APPIUM_URL: "http://x/" })).toEqual({ name: "APPIUM_URL", value: "http://x/" });
+    expect(lookupEnv("appium.url", {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+
+import { CONFIG_SCHEMA, ConfigValidationError, validateConfig } from "../../../src/config/config-schema";
+import { suggest } from "../../../src/core/string-similarity";
+
+describe("config-schema: валидация", () => {
+  it("пустой ввод даёт значения по умолчанию без ошибок", () => {
+    const res = validateConfig({});
+
+    expect(res.errors).toEqual([]);
+    expect(res.values.platform).toBe("ANDROID");
+    expect(res.values["video.recording.quality"]).toBe(70);
+    expect(res.values["appium.url"]).toBeInstanceOf(URL);
+    expect(Object.keys(res.values)).toHaveLength(Object.keys(CONFIG_SCHEMA).length);
+  });
+
+  it("собирает все ошибки сразу, а не первую", () => {
+    const res = validateConfig({
+      platform: "ANDRIOD",
+      "video.recording.quality": "abc",
+      "video.recording.bitrate": "0",
+      "emulator.auto.start": "maybe",
+    });
+
+    expect(res.errors).toHaveLength(4);
+    expect(res.errors[0]).toMatch(/platform='ANDRIOD'.*возможно, ANDROID\?/);
+    expect(res.errors.join("\n")).toMatch(/video.recording.quality='abc': ожидалось целое число/);
+    expect(res.errors.join("\n")).toMatch(/video.recording.bitrate='0': значение меньше минимума 1/);
+  });
+
+  it("регистр enum не важен, значение нормализуется", () => {
+    expect(validateConfig({ platform: "ios" }).values.platform).toBe("IOS");
+  });
+
+  it("предупреждает о неизвестных ключах с подсказкой", () => {
+    const res = validateConfig({ "appium.ulr": "http://x/", "completely.unrelated": "1" });
+
+    expect(res.errors).toEqual([]);
+    expect(res.warnings).toEqual([
+      "Неизвестный ключ 'appium.ulr' — возможно, 'appium.url'?",
+      "Неизвестный ключ 'completely.unrelated'",
+    ]);
+  });
+
+  it("ConfigValidationError перечисляет все проблемы", () => {
+    const err = new ConfigValidationError(["a: x", "b: y"]);
+    expect(err.message).toBe("Некорректная конфигурация тестов (2):\n - a: x\n - b: y");
+  });
+
+  it("suggest не подсказывает далёкие варианты", () => {
+    expect(suggest("IOZ", ["ANDROID", "IOS"])).toBe("IOS");
+    expect(suggest("windows", ["ANDROID", "IOS"])).toBeUndefined();
+  });
+});
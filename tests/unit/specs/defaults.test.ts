@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from "vitest";
+
+import { AppConfiguration, setDefaultConfig } from "../../../src/config/app-config";
+import { ConfigValidationError } from "../../../src/config/config-schema";
+import { actionDefaults, overrideActionDefaults, withActionDefaults } from "../../../src/core/defaults";
+import { ScrollDirection } from "../../../src/core/gestures/scroll-direction";
+import { Platform } from "../../../src/core/platform";
+
+describe("actionDefaults: ожидания и скролл из конфигурации", () => {
+  afterEach(() => setDefaultConfig(null));
+
+  it("без ключей — встроенные значения из constants", () => {
+    expect(actionDefaults(AppConfiguration.fromObject())).toEqual({
+      timeoutBeforeExpectation: 0,
+      timeoutExpectation: 10,
+      timeoutEventExpectation: 15,
+      pollingInterval: 1000,
+      scrollCount: 0,
+      scrollCapacity: 1,
+      scrollDirection: ScrollDirection.Down,
+      scrollCoefficient: 0.75,
+      swipeCoefficient: 0.95,
+      scrollDetectEnd: true,
+      scrollBidirectional: false,
+      scrollNative: false,
+    });
+  });
+
+  it("платформенный вариант перекрывает общий ключ только на своей платформе", () => {
+    const values = { "timeout.expectation": 20, "ios.timeout.expectation": 40, "scroll.direction": "up" };
+
+    const ios = actionDefaults(AppConfiguration.fromObject({ ...values, platform: "IOS" }));
+    const android = actionDefaults(AppConfiguration.fromObject({ ...values, platform: "ANDROID" }));
+
+    expect(ios.timeoutExpectation).toBe(40);
+    expect(android.timeoutExpectation).toBe(20);
+    expect(android.scrollDirection).toBe(ScrollDirection.Up);
+  });
+
+  it("env задаёт платформенный вариант", () => {
+    const cfg = AppConfiguration.fromObject({ platform: "ANDROID" }, { env: { ANDROID_POLLING_INTERVAL: "250" } });
+    expect(cfg.getForPlatform("polling.interval")).toBe(250);
+    expect(cfg.getForPlatform("polling.interval", Platform.IOS)).toBe(1000);
+  });
+
+  it("некорректные значения, в том числе в вариантах, — ошибка валидации", () => {
+    expect(() => AppConfiguration.fromObject({ "scroll.coefficient": 1.5 })).toThrow(ConfigValidationError);
+    expect(() => AppConfiguration.fromObject({ "ios.timeout.expectation": "long" })).toThrow(/ios\.timeout\.expectation/);
+  });
+
+  it("scoped-переопределение сильнее платформенного варианта из файла", async () => {
+    const file = { layer: "base" as const, source: "tests.properties" };
+    setDefaultConfig(
+      new AppConfiguration({
+        properties: { platform: "IOS", "ios.timeout.expectation": "40" },
+        provenance: { platform: file, "ios.timeout.expectation": file },
+        env: {},
+      })
+    );
+
+    const restore = overrideActionDefaults({ pollingInterval: 300 });
+    try {
+      const inside = await withActionDefaults({ timeoutExpectation: 5 }, async () => actionDefaults());
+      expect(inside.timeoutExpectation).toBe(5);
+      expect(inside.pollingInterval).toBe(300);
+      expect(actionDefaults().timeoutExpectation).toBe(40);
+    } finally {
+      restore();
+    }
+    expect(actionDefaults().pollingInterval).toBe(1000);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { DriverRegistry } from "../../../src/adapters/appium/drivers/driver-registry";
+import { DeviceSettings, iosContentSize, parseLocale } from "../../../src/adapters/devices/device-settings";
+import { Terminal } from "../../../src/adapters/system/terminal";
+import { VideoRecorder } from "../../../src/plugins/reporting/video-recorder";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+describe("device-settings", () => {
+  it("локаль и размер шрифта iOS", () => {
+    expect(parseLocale("ar_eg")).toEqual({ language: "ar", country: "EG" });
+    expect(parseLocale("he")).toEqual({ language: "he", country: undefined });
+    expect(() => parseLocale("русский")).toThrow(/ожидалась локаль/);
+    expect(iosContentSize(1)).toBe("large");
+    expect(iosContentSize(1.32)).toBe("extra-extra-extra-large");
+    expect(iosContentSize(5)).toBe("accessibility-extra-extra-extra-large");
+  });
+});
+
+describe("DeviceSettings", () => {
+  afterEach(resetTestEnv);
+
+  /** Устройство с настройками в памяти: отвечает на команды adb shell / simctl, как настоящее. */
+  function fakeDevice(udid: string, replies: Record<string, string>) {
+    const commands: string[] = [];
+    let orientation = "PORTRAIT";
+    useFakeDriver(
+      {},
+      {
+        capabilities: { "appium:udid": udid },
+        getOrientation: async () => orientation,
+        setOrientation: async (o: string) => void (orientation = o),
+      }
+    );
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(Terminal, "runCommand").mockImplementation(((command: string[], errorMessage?: string) => {
+      const line = command.join(" ");
+      if (errorMessage === undefined) return replies[line] ?? "";
+      commands.push(line);
+      return true;
+    }) as typeof Terminal.runCommand);
+    return { commands, orientation: () => orientation };
+  }
+
+  it("Android: изменения применяются и откатываются в обратном порядке", async () => {
+    useConfig({ platform: "ANDROID" });
+    const sh = "adb -s emulator-5554 shell";
+    const device = fakeDevice("emulator-5554", {
+      [`${sh} cmd uimode night`]: "Night mode: no",
+      [`${sh} settings get system font_scale`]: "1.0",
+      [`${sh} wm density`]: "Physical density: 420",
+      [`${sh} getprop persist.sys.locale`]: "ru-RU",
+    });
+
+    await DeviceSettings.setAppearance("dark");
+    await DeviceSettings.setFontScale(1.3);
+    await DeviceSettings.setFontScale(1.5);
+    await DeviceSettings.setDensity(560);
+    await DeviceSettings.setLocale("ar-EG");
+    await DeviceSettings.setOrientation("LANDSCAPE");
+    expect(device.orientation()).toBe("LANDSCAPE");
+    expect(DeviceSettings.changed).toEqual(["appearance", "fontScale", "density", "locale", "orientation"]);
+
+    const locale = `${sh} am broadcast -a io.appium.settings.locale -n io.appium.settings/.receivers.LocaleSettingReceiver`;
+    expect(device.commands).toEqual([
+      `${sh} cmd uimode night yes`,
+      `${sh} settings put system font_scale 1.3`,
+      `${sh} settings put system font_scale 1.5`,
+      `${sh} wm density 560`,
+      `${locale} --es lang ar --es country EG`,
+    ]);
+
+    device.commands.length = 0;
+    await DeviceSettings.restore();
+    expect(device.orientation()).toBe("PORTRAIT");
+    expect(device.commands).toEqual([
+      `${locale} --es lang ru --es country RU`,
+      `${sh} wm density reset`,
+      `${sh} settings put system font_scale 1.0`,
+      `${sh} cmd uimode night no`,
+    ]);
+    expect(DeviceSettings.changed).toEqual([]);
+  });
+
+  it("iOS: simctl ui, язык симулятора; ошибка восстановления не мешает остальным", async () => {
+    useConfig({ platform: "IOS" });
+    const device = fakeDevice("SIM-1", { "xcrun simctl ui SIM-1 appearance": "light\n", "xcrun simctl ui SIM-1 content_size": "large\n" });
+
+    await DeviceSettings.setAppearance("dark");
+    await DeviceSettings.setFontScale(2.1);
+    await DeviceSettings.setLocale("he-IL");
+    await expect(DeviceSettings.setDensity(480)).rejects.toThrow(/только на Android/);
+    const defaults = "xcrun simctl spawn SIM-1 defaults write Apple Global Domain";
+    expect(device.commands).toEqual([
+      "xcrun simctl ui SIM-1 appearance dark",
+      "xcrun simctl ui SIM-1 content_size accessibility-extra-large",
+      `${defaults} AppleLanguages -array he-IL`,
+      `${defaults} AppleLocale -string he_IL`,
+    ]);
+
+    device.commands.length = 0;
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(Terminal.runCommand).mockImplementationOnce((() => false) as typeof Terminal.runCommand);
+    await DeviceSettings.restore();
+    // язык до теста не задавался — ключи удаляются; первая команда не прошла, остальное восстановлено
+    expect(device.commands).toEqual([
+      "xcrun simctl ui SIM-1 content_size large",
+      "xcrun simctl ui SIM-1 appearance light",
+    ]);
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/Не удалось восстановить locale по умолчанию/));
+  });
+
+  it("tearDown восстанавливает устройство и закрывает сессию, даже если остановка видео упала", async () => {
+    useConfig({ platform: "IOS" });
+    const device = fakeDevice("SIM-1", { "xcrun simctl ui SIM-1 appearance": "light" });
+    const close = vi.fn(async () => {});
+    (mobileActions as unknown as { app: { close: () => Promise<void> } }).app = { close };
+    vi.spyOn(VideoRecorder, "stopRecording").mockRejectedValue(new Error("запись не остановилась"));
+
+    await DeviceSettings.setAppearance("dark");
+    await expect(mobileActions.tearDown("test")).rejects.toThrow("запись не остановилась");
+    expect(device.commands.at(-1)).toBe("xcrun simctl ui SIM-1 appearance light");
+    expect(close).toHaveBeenCalledOnce();
+    expect(DriverRegistry.peek()).toBeUndefined();
+  });
+});
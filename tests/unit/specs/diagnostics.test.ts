@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { PageElement } from "../../../src/core/locators/page-element";
+import { diagnoseElement, formatDiagnosis } from "../../../src/core/page-source/diagnostics";
+import { PageSource } from "../../../src/core/page-source/page-source";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+const XML = `<hierarchy rotation="0">
+  <android.widget.FrameLayout bounds="[0,0][1080,2400]">
+    <android.widget.Button text="Оформить заказ" resource-id="com.shop:id/checkout" displayed="true" bounds="[0,2300][1080,2400]" />
+    <android.widget.TextView text="Промокод" resource-id="com.shop:id/promo" displayed="false" bounds="[0,100][500,160]" />
+    <android.widget.TextView text="Отзывы" resource-id="com.shop:id/reviews" displayed="true" bounds="[0,3100][1080,3300]" />
+    <android.widget.TextView text="Оплата" resource-id="com.shop:id/payment" displayed="true" bounds="[0,400][1080,500]" />
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+describe("diagnostics", () => {
+  afterEach(() => {
+    resetTestEnv();
+    delete (globalThis as any).allure;
+  });
+
+  it("статус: вне экрана, скрыт, виден, нет родителя", () => {
+    useConfig({ platform: "ANDROID" });
+    const source = PageSource.parse(XML);
+    const status = (el: PageElement) => diagnoseElement(source, el).status;
+
+    expect(status(PageElement.byAndroidLocators([PageElement.Text("Отзывы")]))).toBe("off-screen");
+    expect(status(PageElement.byAndroidLocators([PageElement.Text("Промокод")]))).toBe("invisible");
+    expect(status(PageElement.byAndroidLocators([PageElement.Text("Оплата")]))).toBe("visible");
+    expect(status(PageElement.byAccessibilityId("sheet").child(PageElement.Text("Оплата")))).toBe("parent-missing");
+  });
+
+  it("похожие элементы по тексту и id, читаемые локаторы", () => {
+    useConfig({ platform: "ANDROID" });
+    const element = PageElement.byAndroidLocators([
+      PageElement.Text("Оформить заказы"),
+      { using: "id", value: "com.shop:id/chekout" },
+      PageElement.AndroidUIAutomator('new UiSelector().text("x")'),
+    ]);
+    const d = diagnoseElement(PageSource.parse(XML), element);
+
+    expect(d.status).toBe("missing");
+    expect(d.candidates[0].node.attributes["resource-id"]).toBe("com.shop:id/checkout");
+    const report = formatDiagnosis(d);
+    expect(report).toContain(`xpath=.//*[@text = 'Оформить заказы']: совпадений 0`);
+    expect(report).toContain("id=com.shop:id/chekout: совпадений 0");
+    expect(report).toContain("-android uiautomator=new UiSelector().text(\"x\"): не проверен офлайн");
+    expect(report).toContain('Button text="Оформить заказ" resource-id="checkout" @ [0,2300 1080×100]');
+    expect(report).not.toContain("[object Object]");
+  });
+
+  it("ошибка waitForElements содержит сводку, артефакты уходят в Allure", async () => {
+    useConfig({ platform: "ANDROID" });
+    const attachments: string[] = [];
+    (globalThis as any).allure = { attachment: (name: string) => attachments.push(name) };
+    useFakeDriver(
+      {},
+      {
+        getPageSource: async () => XML,
+        takeScreenshot: async () => Buffer.from("png").toString("base64"),
+      }
+    );
+
+    await expect(
+      mobileActions.waitForElements(PageElement.byAndroidLocators([PageElement.Text("Отзывы")]), { timeout: 0.05, polling: 10 })
+    ).rejects.toThrow(/Диагностика: элемент есть в снимке экрана, но за пределами видимой области — нужен скролл\. Узел: TextView text="Отзывы"/);
+    expect(attachments).toEqual(["pageSource.xml", "screenshot.png", "Диагностика поиска элемента"]);
+  });
+});
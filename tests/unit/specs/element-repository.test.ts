@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { AppConfiguration, setDefaultConfig } from "../../../src/config/app-config";
+import {
+  ElementRepositoryError,
+  elementRepositoryFromObject,
+  generateRepositoryTypings,
+  loadElementRepository,
+  writeRepositoryTypings,
+} from "../../../src/core/locators/element-repository";
+import { PageElement } from "../../../src/core/locators/page-element";
+
+describe("element-repository", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "etw-repo-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    setDefaultConfig(null);
+  });
+
+  it("YAML и JSON: экраны сливаются, локаторы строятся фабриками PageElement", () => {
+    fs.writeFileSync(
+      path.join(dir, "login.yaml"),
+      [
+        "Login:",
+        "  submit:",
+        "    android: { Id: login_button }",
+        "    ios: { AccessibilityId: login }",
+        "  header:",
+        "    android:",
+        "      - Text: Вход",
+        "      - XPath: \"//*[@text='Войти']\"",
+      ].join("\n")
+    );
+    fs.writeFileSync(path.join(dir, "login-extra.json"), JSON.stringify({ Login: { forgot: { ios: "~forgot" } } }));
+
+    const repo = loadElementRepository(dir);
+
+    setDefaultConfig(AppConfiguration.fromObject({ platform: "ANDROID" }));
+    expect(repo.Login.submit.get()).toEqual(PageElement.Id("login_button"));
+    expect(repo.Login.header.getAll()).toEqual([PageElement.Text("Вход"), PageElement.XPath("//*[@text='Войти']")]);
+
+    setDefaultConfig(AppConfiguration.fromObject({ platform: "IOS" }));
+    expect(repo.Login.submit.get()).toEqual(PageElement.AccessibilityId("login"));
+    expect(repo.Login.forgot.get()).toBe("~forgot");
+  });
+
+  it("все ошибки всех файлов сообщаются разом, с подсказками", () => {
+    fs.writeFileSync(path.join(dir, "a.yaml"), "Login:\n  submit:\n    android: { Idd: x }\n    ios: { AndroidUIAutomator: y }\n");
+    fs.writeFileSync(path.join(dir, "b.json"), JSON.stringify({ Login: { submit: { andriod: { Id: "x" } }, empty: {} } }));
+
+    let error: ElementRepositoryError | undefined;
+    try {
+      loadElementRepository(dir);
+    } catch (e) {
+      error = e as ElementRepositoryError;
+    }
+    expect(error).toBeInstanceOf(ElementRepositoryError);
+    expect(error!.errors).toEqual([
+      expect.stringMatching(/Login\.submit\.android: неизвестный вид локатора 'Idd' — возможно, 'Id'\?/),
+      expect.stringMatching(/Login\.submit\.ios: AndroidUIAutomator не поддерживается на ios/),
+      expect.stringMatching(/Login\.submit: неизвестная платформа 'andriod' — возможно, 'android'\?/),
+      expect.stringMatching(/Login\.empty: не задан локатор ни для одной платформы/),
+    ]);
+  });
+
+  it("повторные определения — ошибка, одинаковые локаторы — предупреждение", () => {
+    fs.writeFileSync(path.join(dir, "a.yaml"), "Cart:\n  pay:\n    android: { Id: pay }\n");
+    fs.writeFileSync(path.join(dir, "b.yaml"), "Cart:\n  pay:\n    ios: { Id: pay }\n");
+    expect(() => loadElementRepository(dir)).toThrow(/Cart\.pay: элемент определён повторно/);
+
+    fs.writeFileSync(path.join(dir, "c.yaml"), "Login:\n  submit: {}\n  submit:\n    android: { Id: x }\n");
+    expect(() => loadElementRepository(path.join(dir, "c.yaml"))).toThrow(/повторяющийся ключ 'submit'/);
+
+    const warnings: string[] = [];
+    elementRepositoryFromObject(
+      { Cart: { pay: { android: { Id: "pay" } }, buy: { android: { Id: "pay" } } } },
+      "<test>",
+      { warn: (m) => warnings.push(m) }
+    );
+    expect(warnings).toEqual(["[ElementRepository] Cart: у 'pay' и 'buy' одинаковые локаторы android"]);
+  });
+
+  it("типизация: интерфейс с экранами и элементами, импорт относительно файла", () => {
+    const repo = elementRepositoryFromObject({
+      Login: { submit: { android: { Id: "a" } } },
+      "Главный экран": { "tab-bar": { ios: "~tabs" } },
+    });
+    expect(generateRepositoryTypings(repo, { importPath: "easytestwrite2" })).toBe(
+      [
+        "// Сгенерировано из файлов репозитория элементов — не редактируйте вручную.",
+        'import type { PageElement } from "easytestwrite2";',
+        "",
+        "export interface PageRepository {",
+        "  readonly Login: {",
+        "    readonly submit: PageElement;",
+        "  };",
+        '  readonly "Главный экран": {',
+        '    readonly "tab-bar": PageElement;',
+        "  };",
+        "}",
+        "",
+      ].join("\n")
+    );
+
+    fs.writeFileSync(path.join(dir, "login.json"), JSON.stringify({ Login: { submit: { android: { Id: "a" } } } }));
+    const out = path.join(dir, "types", "page-repository.ts");
+    writeRepositoryTypings(dir, out, { typeName: "Pages" });
+    const source = fs.readFileSync(out, "utf8");
+    expect(source).toContain("export interface Pages {");
+    expect(source).toMatch(/from "\.\.?\/.*src\/core\/locators\/page-element";/);
+  });
+});
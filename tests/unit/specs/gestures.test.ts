@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { nativeGestureCommand } from "../../../src/core/gestures/native-gestures";
+import {
+  type PointerSequence,
+  dragActions,
+  longPressActions,
+  pathActions,
+  pinchActions,
+  pointIn,
+  rotateActions,
+  tapActions,
+} from "../../../src/core/gestures/pointer-actions";
+import { PageElement } from "../../../src/core/locators/page-element";
+import { Platform } from "../../../src/core/platform";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+const RECT = { x: 100, y: 200, width: 400, height: 200 };
+
+/** Конечные точки пальца: куда он опускается и где поднимается. */
+function endpoints(seq: PointerSequence) {
+  const moves = seq.actions.filter((a) => a.type === "pointerMove") as Array<{ x: number; y: number }>;
+  return [moves[0], moves[moves.length - 1]].map(({ x, y }) => ({ x, y }));
+}
+
+describe("pointer-actions", () => {
+  it("точки задаются долями элемента", () => {
+    expect(pointIn(RECT)).toEqual({ x: 300, y: 300 });
+    expect(pointIn(RECT, { x: 0, y: 1 })).toEqual({ x: 100, y: 400 });
+    expect(() => pointIn(RECT, { x: 1.5, y: 0 })).toThrow(/долями 0..1/);
+  });
+
+  it("тап, двойной тап и долгое нажатие", () => {
+    expect(tapActions({ x: 1, y: 2 }, 2, 80).actions.map((a) => a.type)).toEqual([
+      "pointerMove",
+      "pointerDown",
+      "pause",
+      "pointerUp",
+      "pause",
+      "pointerDown",
+      "pause",
+      "pointerUp",
+    ]);
+    expect(longPressActions({ x: 1, y: 2 }, 1500).actions).toContainEqual({ type: "pause", duration: 1500 });
+  });
+
+  it("длительность движения следует из скорости", () => {
+    const drag = dragActions({ x: 0, y: 0 }, { x: 300, y: 400 }, { speed: 500 });
+    expect(drag.actions).toEqual([
+      { type: "pointerMove", duration: 0, x: 0, y: 0 },
+      { type: "pointerDown", button: 0 },
+      { type: "pause", duration: 600 },
+      { type: "pointerMove", duration: 1000, x: 300, y: 400 },
+      { type: "pointerUp", button: 0 },
+    ]);
+    expect(() => pathActions([{ x: 0, y: 0 }])).toThrow(/минимум две точки/);
+    expect(() => pathActions([{ x: 0, y: 0 }, { x: 1, y: 1 }], { speed: 0 })).toThrow(/speed=0/);
+  });
+
+  it("pinch/zoom: два пальца на линии через центр, в пределах элемента", () => {
+    const [a, b] = pinchActions(RECT, { scale: 2 });
+    // 45% меньшей стороны = 90px, при scale 2 пальцы начинают с 45px от центра
+    expect(endpoints(a)).toEqual([{ x: 345, y: 300 }, { x: 390, y: 300 }]);
+    expect(endpoints(b)).toEqual([{ x: 255, y: 300 }, { x: 210, y: 300 }]);
+    expect([a.id, b.id]).toEqual(["finger1", "finger2"]);
+
+    const [c] = pinchActions(RECT, { scale: 0.5, angle: 90 });
+    expect(endpoints(c)).toEqual([{ x: 300, y: 390 }, { x: 300, y: 345 }]);
+    expect(() => pinchActions(RECT, { scale: 1 })).toThrow(/scale=1/);
+  });
+
+  it("rotate: пальцы движутся по дуге синхронно", () => {
+    const [a, b] = rotateActions(RECT, 90, { duration: 600 });
+    expect(endpoints(a)).toEqual([{ x: 370, y: 300 }, { x: 300, y: 370 }]);
+    expect(endpoints(b)).toEqual([{ x: 230, y: 300 }, { x: 300, y: 230 }]);
+    // 90° — 6 отрезков по 15°, по 100 мс
+    expect(a.actions.filter((x) => x.type === "pointerMove" && x.duration === 100)).toHaveLength(6);
+    expect(a.actions.length).toBe(b.actions.length);
+  });
+});
+
+describe("native-gestures", () => {
+  it("команды UiAutomator2 и XCUITest", () => {
+    expect(nativeGestureCommand(Platform.ANDROID, { kind: "longPress", point: { x: 5, y: 6 }, duration: 800 })).toEqual({
+      script: "mobile: longClickGesture",
+      args: { x: 5, y: 6, duration: 800 },
+    });
+    expect(nativeGestureCommand(Platform.IOS, { kind: "longPress", point: { x: 5, y: 6 }, duration: 800 })).toEqual({
+      script: "mobile: touchAndHold",
+      args: { x: 5, y: 6, duration: 0.8 },
+    });
+    expect(nativeGestureCommand(Platform.ANDROID, { kind: "pinch", elementId: "e1", scale: 0.25 })).toMatchObject({
+      script: "mobile: pinchCloseGesture",
+      args: { elementId: "e1", percent: 0.75 },
+    });
+    expect(nativeGestureCommand(Platform.IOS, { kind: "pinch", elementId: "e1", scale: 3 })).toEqual({
+      script: "mobile: pinch",
+      args: { elementId: "e1", scale: 3, velocity: 1 },
+    });
+    expect(nativeGestureCommand(Platform.ANDROID, { kind: "rotate", elementId: "e1", degrees: 90, duration: 1000 })).toBeNull();
+    expect(nativeGestureCommand(Platform.IOS, { kind: "path" })).toBeNull();
+  });
+});
+
+describe("MobileActions: жесты", () => {
+  afterEach(resetTestEnv);
+
+  function fakeDriver(opts: { w3c: boolean }) {
+    const calls: Array<[string, unknown]> = [];
+    const driver = useFakeDriver(
+      {
+        find: (_using, value) => [value],
+        element: () => ({
+          getLocation: async () => ({ x: RECT.x, y: RECT.y }),
+          getSize: async () => ({ width: RECT.width, height: RECT.height }),
+        }),
+      },
+      {
+        getWindowSize: async () => ({ width: 1000, height: 2000 }),
+        performActions: async (seq: unknown) => {
+          calls.push(["performActions", seq]);
+          if (!opts.w3c) throw new Error("multi-touch не поддерживается");
+        },
+        releaseActions: async () => {
+          calls.push(["releaseActions", null]);
+        },
+        execute: async (script: string, args: unknown) => {
+          calls.push([script, args]);
+        },
+        getPageSource: async () => "<hierarchy/>",
+      }
+    );
+    return { calls, driver };
+  }
+
+  const card = PageElement.byAccessibilityId("card");
+  const cart = PageElement.byAccessibilityId("cart");
+  const find = { before: 0, timeout: 0.05, polling: 10 };
+
+  it("жесты выполняются W3C actions в координатах элемента", async () => {
+    useConfig({ platform: "ANDROID" });
+    const { calls } = fakeDriver({ w3c: true });
+
+    await mobileActions.longPress(card, { ...find, at: { x: 0, y: 0 }, duration: 700 });
+    expect(calls[0]).toEqual(["performActions", [longPressActions({ x: 100, y: 200 }, 700)]]);
+    expect(calls[1][0]).toBe("releaseActions");
+
+    calls.length = 0;
+    await mobileActions.zoom(card, { ...find, scale: 3 });
+    expect(calls[0]).toEqual(["performActions", pinchActions(RECT, { scale: 3 })]);
+
+    calls.length = 0;
+    await mobileActions.gesturePath(null, [{ x: 0.5, y: 0.9 }, { x: 0.5, y: 0.1 }], { speed: 1600 });
+    expect(calls[0]).toEqual(["performActions", [pathActions([{ x: 500, y: 1800 }, { x: 500, y: 200 }], { speed: 1600 })]]);
+  });
+
+  it("если W3C actions не выполнились — нативная команда платформы", async () => {
+    useConfig({ platform: "IOS" });
+    const { calls } = fakeDriver({ w3c: false });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await mobileActions.pinch(card, find);
+    expect(calls.at(-1)).toEqual(["mobile: pinch", { elementId: "card", scale: 0.5, velocity: -1 }]);
+
+    await mobileActions.dragAndDrop(card, cart, { ...find, hold: 1000 });
+    expect(calls.at(-1)).toEqual(["mobile: dragFromToForDuration", { fromX: 300, fromY: 300, toX: 300, toY: 300, duration: 1 }]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("[Gestures] dragAndDrop: W3C actions не выполнены"));
+
+    await expect(mobileActions.gesturePath(card, [{ x: 0, y: 0 }, { x: 1, y: 1 }], find)).rejects.toThrow(
+      /multi-touch не поддерживается/
+    );
+    warn.mockRestore();
+  });
+
+  it("опции жеста проверяются вместе с опциями поиска", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeDriver({ w3c: true });
+    await expect(mobileActions.pinch(card, { scale: 2 })).rejects.toThrow(/используйте zoom\(\)/);
+    await expect(mobileActions.longPress(card, { duraton: 5 } as never)).rejects.toThrow(/неизвестная опция 'duraton'/);
+  });
+
+  it("swipe ищет элемент без скролла экрана, даже если scroll.count задан по умолчанию", async () => {
+    useConfig({ platform: "ANDROID", "scroll.count": 3 });
+    const { calls, driver } = fakeDriver({ w3c: true });
+    await mobileActions.swipeLeft(card, { ...find, scroll: { count: 1 } });
+    expect(calls.filter(([name]) => name === "performActions")).toHaveLength(1);
+
+    calls.length = 0;
+    driver.findElements = async () => [];
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(mobileActions.swipeLeft(card, { ...find, scroll: { count: 1 } })).rejects.toThrow();
+    expect(calls.filter(([name]) => name === "performActions")).toEqual([]);
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { findHealingCandidate, fingerprintOf, healingLocator } from "../../../src/core/healing/locator-healing";
+import { PageElement } from "../../../src/core/locators/page-element";
+import { PageSource } from "../../../src/core/page-source/page-source";
+import { Platform } from "../../../src/core/platform";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+const screen = (checkoutId: string) => `<hierarchy>
+  <android.widget.FrameLayout bounds="[0,0][1080,2400]">
+    <android.widget.Button text="Назад" resource-id="com.shop:id/back" bounds="[0,0][200,100]" />
+    <android.widget.Button text="Оформить заказ" resource-id="com.shop:id/${checkoutId}" bounds="[0,2300][1080,2400]" />
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+/** Драйвер, который ищет элементы по текущему XML тем же движком PageSource. */
+function fakeDriver(state: { xml: string }) {
+  return useFakeDriver(
+    { find: (using, value) => PageSource.parse(state.xml).query({ using, value }).map((n) => n.attributes["resource-id"]) },
+    { getPageSource: async () => state.xml }
+  );
+}
+
+describe("locator healing", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "etw-healing-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    resetTestEnv();
+  });
+
+  it("находит переименованный элемент по сохранённым атрибутам и строит локатор", () => {
+    const before = PageSource.parse(screen("checkout"));
+    const fp = fingerprintOf(before.query({ using: "id", value: "com.shop:id/checkout" })[0]);
+
+    const after = PageSource.parse(screen("checkout_button"));
+    const candidate = findHealingCandidate(after, fp, 0.75);
+    expect(candidate?.node.attributes["resource-id"]).toBe("com.shop:id/checkout_button");
+    expect(candidate!.score).toBeGreaterThan(0.9);
+    expect(healingLocator(after, candidate!.node)).toEqual({ using: "id", value: "com.shop:id/checkout_button" });
+
+    expect(findHealingCandidate(after, { ...fp, attributes: { text: "Удалить аккаунт" } }, 0.75)).toBeNull();
+  });
+
+  it("iOS: подпись с переводом строки, кавычками и \\ экранируется по правилам NSPredicate", () => {
+    const source = PageSource.parse(
+      `<AppiumAUT><XCUIElementTypeStaticText type="XCUIElementTypeStaticText" label="Итого:&#10;1 200 ₽ \\ &quot;скидка&quot;" /></AppiumAUT>`,
+      Platform.IOS
+    );
+    const node = source.query({ using: "-ios predicate string", value: "type == 'XCUIElementTypeStaticText'" })[0];
+    // перевод строки остаётся символом (а не \n, как в JSON); кавычки и \ — с обратной косой чертой
+    expect(healingLocator(source, node)).toEqual({
+      using: "-ios predicate string",
+      value: 'label == "Итого:\n1 200 ₽ \\\\ \\"скидка\\""',
+    });
+  });
+
+  it("waitForElements восстанавливает элемент и пишет отчёт, если healing.enabled", async () => {
+    const store = path.join(dir, "known-good.json");
+    const report = path.join(dir, "report.json");
+    useConfig({ platform: "ANDROID", "healing.enabled": "true", "healing.store": store, "healing.report": report });
+    const state = { xml: screen("checkout") };
+    fakeDriver(state);
+    const checkout = PageElement.byAndroidLocators([{ using: "id", value: "com.shop:id/checkout" }]);
+
+    await mobileActions.waitForElements(checkout, { timeout: 0.05, polling: 10 });
+    expect(Object.keys(JSON.parse(fs.readFileSync(store, "utf8")).ANDROID)).toEqual(["id=com.shop:id/checkout"]);
+
+    state.xml = screen("checkout_button");
+    const el = await mobileActions.waitForElements(checkout, { timeout: 0.05, polling: 10 });
+    expect(el.elementId).toBe("com.shop:id/checkout_button");
+
+    const [record] = JSON.parse(fs.readFileSync(report, "utf8"));
+    expect(record).toMatchObject({
+      element: "id=com.shop:id/checkout",
+      failedLocators: ["id=com.shop:id/checkout"],
+      suggestedLocator: "id=com.shop:id/checkout_button",
+    });
+    expect(record.current.attributes["resource-id"]).toBe("com.shop:id/checkout_button");
+  });
+
+  it("атрибуты элементов списка хранятся по номеру, снимок экрана — один раз за запуск", async () => {
+    const store = path.join(dir, "known-good.json");
+    useConfig({ platform: "ANDROID", "healing.enabled": "true", "healing.store": store });
+    const state = {
+      xml: `<hierarchy>
+  <android.widget.TextView text="Молоко" resource-id="com.shop:id/item" bounds="[0,0][1080,100]" />
+  <android.widget.TextView text="Хлеб" resource-id="com.shop:id/item" bounds="[0,100][1080,200]" />
+</hierarchy>`,
+    };
+    const getPageSource = vi.spyOn(fakeDriver(state), "getPageSource");
+    const item = PageElement.byAndroidLocators([{ using: "id", value: "com.shop:id/item" }]);
+
+    await mobileActions.waitForElements(item, { index: 1, timeout: 0.05, polling: 10 });
+    await mobileActions.waitForElements(item.nth(2), { timeout: 0.05, polling: 10 });
+    await mobileActions.waitForElements(item, { index: 1, timeout: 0.05, polling: 10 });
+    await mobileActions.waitForElements(item.nth(2), { timeout: 0.05, polling: 10 });
+    expect(getPageSource).toHaveBeenCalledTimes(2);
+
+    const saved = JSON.parse(fs.readFileSync(store, "utf8")).ANDROID;
+    expect(Object.keys(saved)).toEqual(["id=com.shop:id/item [1]", "id=com.shop:id/item [2]"]);
+    expect(saved["id=com.shop:id/item [1]"].fingerprint.attributes.text).toBe("Молоко");
+    expect(saved["id=com.shop:id/item [2]"].fingerprint.attributes.text).toBe("Хлеб");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+
+import { classChain } from "../../../src/core/locators/ios-class-chain";
+import { predicate } from "../../../src/core/locators/ios-predicate";
+import { uiScrollable, uiSelector } from "../../../src/core/locators/ui-selector";
+import { PageSource } from "../../../src/core/page-source/page-source";
+import { Platform } from "../../../src/core/platform";
+
+const IOS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<XCUIElementTypeApplication type="XCUIElementTypeApplication" name="Shop" x="0" y="0" width="390" height="844">
+  <XCUIElementTypeWindow type="XCUIElementTypeWindow" x="0" y="0" width="390" height="844">
+    <XCUIElementTypeCell type="XCUIElementTypeCell" name="item_1" x="0" y="100" width="390" height="80">
+      <XCUIElementTypeStaticText type="XCUIElementTypeStaticText" name="title" label="Кофе &quot;Бодрость&quot;" x="10" y="110" width="200" height="30"/>
+      <XCUIElementTypeButton type="XCUIElementTypeButton" name="buy" label="Купить" enabled="true" x="300" y="120" width="80" height="40"/>
+    </XCUIElementTypeCell>
+    <XCUIElementTypeCell type="XCUIElementTypeCell" name="item_2" x="0" y="180" width="390" height="80">
+      <XCUIElementTypeStaticText type="XCUIElementTypeStaticText" name="title" label="Чай C:\\tea" x="10" y="190" width="200" height="30"/>
+      <XCUIElementTypeButton type="XCUIElementTypeButton" name="buy" label="КУПИТЬ" enabled="false" x="300" y="200" width="80" height="40"/>
+    </XCUIElementTypeCell>
+  </XCUIElementTypeWindow>
+</XCUIElementTypeApplication>`;
+
+const source = PageSource.parse(IOS_XML, Platform.IOS);
+const labels = (nodes: { attributes: Record<string, string> }[]) => nodes.map((n) => n.attributes.label);
+
+describe("uiSelector", () => {
+  it("собирает выражение и экранирует строки как литералы Java", () => {
+    const locator = uiSelector().resourceId("com.app:id/title").textContains('Заказ "42" \\ итог').instance(2).toLocator();
+    expect(locator).toEqual({
+      using: "-android uiautomator",
+      value: 'new UiSelector().resourceId("com.app:id/title").textContains("Заказ \\"42\\" \\\\ итог").instance(2)',
+    });
+  });
+
+  it("неизменяем и поддерживает вложенные селекторы и флаги", () => {
+    const base = uiSelector().className("android.widget.LinearLayout");
+    const row = base.clickable().childSelector(uiSelector().text("Кофе"));
+    expect(String(base)).toBe('new UiSelector().className("android.widget.LinearLayout")');
+    expect(String(row)).toBe(
+      'new UiSelector().className("android.widget.LinearLayout").clickable(true).childSelector(new UiSelector().text("Кофе"))'
+    );
+    expect(String(uiSelector().enabled(false).textMatches(/^\d+ ₽$/))).toBe(
+      'new UiSelector().enabled(false).textMatches("^\\\\d+ ₽$")'
+    );
+  });
+
+  it("прокрутка до элемента через UiScrollable", () => {
+    expect(String(uiScrollable().setMaxSearchSwipes(5).scrollIntoView(uiSelector().text("Отзывы")))).toBe(
+      'new UiScrollable(new UiSelector().scrollable(true)).setMaxSearchSwipes(5).scrollIntoView(new UiSelector().text("Отзывы"))'
+    );
+  });
+
+  it("отвергает некорректные аргументы до запуска на устройстве", () => {
+    expect(() => uiSelector().instance(-1)).toThrow(/instance\(-1\)/);
+    expect(() => uiSelector().index(1.5)).toThrow(/целое/);
+    expect(() => uiSelector().textMatches(/кофе/i)).toThrow(/\(\?i\)/);
+  });
+});
+
+describe("predicate", () => {
+  it("собирает условие с модификаторами и скобками", () => {
+    const { label, type, enabled } = predicate();
+    const expr = label
+      .beginsWith("Куп", { ignoreCase: true })
+      .and(type.eq("XCUIElementTypeButton"))
+      .and(enabled.is().or(label.eq("a")).not());
+    expect(expr.toLocator()).toEqual({
+      using: "-ios predicate string",
+      value: 'label BEGINSWITH[c] "Куп" AND type == "XCUIElementTypeButton" AND NOT (enabled == true OR label == "a")',
+    });
+    const p = predicate();
+    expect(String(p.any(p.name.eq("a").and(p.name.eq("b")), p.value.in(["x", "y"])))).toBe(
+      '(name == "a" AND name == "b") OR value IN {"x", "y"}'
+    );
+  });
+
+  it("экранированные строки находят те же элементы офлайн", () => {
+    const { label, type, enabled } = predicate();
+    expect(labels(source.query(label.eq('Кофе "Бодрость"').toLocator()))).toEqual(['Кофе "Бодрость"']);
+    expect(labels(source.query(label.endsWith("C:\\tea").toLocator()))).toEqual(["Чай C:\\tea"]);
+    const buttons = type.eq("XCUIElementTypeButton").and(label.eq("купить", { ignoreCase: true }));
+    expect(labels(source.query(buttons.toLocator()))).toEqual(["Купить", "КУПИТЬ"]);
+    expect(labels(source.query(buttons.and(enabled.is(false)).toLocator()))).toEqual(["КУПИТЬ"]);
+  });
+
+  it("отвергает пустой IN и некорректные имена атрибутов", () => {
+    expect(() => predicate().name.in([])).toThrow(/пустой список/);
+    expect(() => predicate().attribute("a b")).toThrow(/имя атрибута/);
+  });
+});
+
+describe("classChain", () => {
+  it("собирает цепочку с условиями и номерами", () => {
+    const p = predicate();
+    const chain = classChain()
+      .descendant("XCUIElementTypeCell")
+      .withDescendant(p.label.contains("Чай"))
+      .child("XCUIElementTypeButton")
+      .index(-1);
+    expect(chain.toLocator()).toEqual({
+      using: "-ios class chain",
+      value: '**/XCUIElementTypeCell[$label CONTAINS "Чай"$]/XCUIElementTypeButton[-1]',
+    });
+    expect(labels(source.query(chain.toLocator()))).toEqual(["КУПИТЬ"]);
+    expect(labels(source.query(classChain().descendant().where(p.name.eq("buy")).index(1).toLocator()))).toEqual([
+      "Купить",
+    ]);
+  });
+
+  it("отвергает некорректные цепочки", () => {
+    expect(() => classChain().where("name == 'a'")).toThrow(/до child/);
+    expect(() => classChain().descendant().index(0)).toThrow(/ненулевое/);
+    expect(() => classChain().descendant().where("label == '`'")).toThrow(/не может содержать/);
+    expect(() => String(classChain())).toThrow(/пустая/);
+  });
+});
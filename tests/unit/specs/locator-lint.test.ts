@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import "../support/test-env";
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { classChain } from "../../../src/core/locators/ios-class-chain";
+import { predicate } from "../../../src/core/locators/ios-predicate";
+import {
+  collectLintTargets,
+  formatLintFindings,
+  lintElement,
+  lintLocators,
+} from "../../../src/core/locators/locator-lint";
+import { PageElement } from "../../../src/core/locators/page-element";
+import { uiSelector } from "../../../src/core/locators/ui-selector";
+import { PageSource } from "../../../src/core/page-source/page-source";
+import { Platform } from "../../../src/core/platform";
+import { Screen } from "../../../src/runtime/screen";
+
+const ANDROID_XML = `<hierarchy>
+  <android.widget.FrameLayout bounds="[0,0][1080,2400]">
+    <android.widget.Button text="Войти" content-desc="login" resource-id="com.shop:id/login" bounds="[0,100][1080,200]"/>
+    <android.widget.Button text="Отмена" resource-id="com.shop:id/cancel" bounds="[0,200][1080,300]"/>
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+const both = (android: PageElement | string, ios = "~ios") =>
+  new PageElement({ android: typeof android === "string" ? PageElement.XPath(android) : android.get(Platform.ANDROID), ios });
+const rules = (name: string, element: PageElement, options = {}) =>
+  lintElement({ name, element }, options).map((f) => `${f.rule}/${f.platform}`);
+
+describe("locator-lint: правила", () => {
+  it("абсолютный XPath — ошибка, без лишнего замечания о номерах", () => {
+    const findings = lintElement({
+      name: "Login.submit",
+      element: both("/hierarchy/android.widget.FrameLayout[1]/android.widget.Button[2]"),
+    });
+    expect(findings.map((f) => [f.rule, f.severity])).toEqual([["absolute-xpath", "error"]]);
+    expect(rules("x", both("(/hierarchy//android.widget.Button)[1]"))).toEqual(["absolute-xpath/ANDROID"]);
+    expect(rules("x", both("//android.widget.Button[@resource-id='com.shop:id/login']"))).toEqual([]);
+  });
+
+  it("номера в XPath, UiAutomator и class chain", () => {
+    expect(rules("x", both("(//*[@resource-id='card'])[3]"))).toEqual(["positional-index/ANDROID"]);
+    const ui = new PageElement({ android: uiSelector().resourceId("card").instance(2).toLocator(), ios: "~card" });
+    expect(rules("x", ui)).toEqual(["positional-index/ANDROID"]);
+    const chain = new PageElement({
+      android: "~card",
+      ios: classChain().descendant("XCUIElementTypeCell").where(predicate().name.eq("card")).index(2).toLocator(),
+    });
+    expect(rules("x", chain)).toEqual(["positional-index/IOS"]);
+  });
+
+  it("локатор только по тексту — для локализованного приложения", () => {
+    expect(rules("x", both(new PageElement({ android: PageElement.Text("Войти") })))).toEqual(["text-only/ANDROID"]);
+    expect(rules("x", new PageElement({ android: "~a", ios: PageElement.IOSPredicateString("label == 'Войти'") }))).toEqual([
+      "text-only/IOS",
+    ]);
+    const refined = uiSelector().resourceId("com.shop:id/login").text("Войти").toLocator();
+    expect(rules("x", new PageElement({ android: refined, ios: "~a" }))).toEqual([]);
+    expect(rules("x", both(new PageElement({ android: PageElement.Text("Войти") })), { localized: false })).toEqual([]);
+  });
+
+  it("contains() по короткой строке и отсутствие локатора для платформы", () => {
+    expect(rules("x", both(new PageElement({ android: PageElement.ContentDesc("ok") })))).toEqual([
+      "short-contains/ANDROID",
+    ]);
+    expect(rules("x", new PageElement({ ios: PageElement.IOSPredicateString('name CONTAINS[c] "ok"') }))).toEqual([
+      "missing-platform/ANDROID",
+      "short-contains/IOS",
+    ]);
+    expect(rules("x", PageElement.byAndroidAccessibilityId("login"))).toEqual(["missing-platform/IOS"]);
+    expect(rules("x", PageElement.byAndroidAccessibilityId("login"), { platforms: [Platform.ANDROID] })).toEqual([]);
+    expect(rules("x", both("(//*[@content-desc='a'])[2]"), { disable: ["positional-index"] })).toEqual([]);
+  });
+
+  it("предлагает уникальный accessibility id или resource-id из снимка экрана", () => {
+    const source = PageSource.parse(ANDROID_XML);
+    const [login] = lintElement(
+      { name: "Login.submit", element: both("/hierarchy/android.widget.FrameLayout/android.widget.Button[1]") },
+      { pageSources: [source] }
+    );
+    expect(login.suggestion).toEqual(PageElement.AccessibilityId("login"));
+    const [cancel] = lintElement(
+      { name: "Login.cancel", element: both(new PageElement({ android: PageElement.Text("Отмена") })) },
+      { pageSources: [source] }
+    );
+    expect(cancel.suggestion).toEqual({ using: "id", value: "com.shop:id/cancel" });
+    expect(formatLintFindings([cancel, login])).toBe(
+      [
+        "ошибка absolute-xpath: Login.submit [ANDROID] (xpath=/hierarchy/android.widget.FrameLayout/android.widget.Button[1]) — " +
+          "абсолютный XPath от корня ломается при любом изменении вёрстки — ищите по id или accessibility id",
+        "    → замените на accessibility id=login",
+        "предупреждение text-only: Login.cancel [ANDROID] (xpath=.//*[@text = 'Отмена']) — " +
+          "локатор только по тексту перестанет находить элемент на другом языке",
+        "    → замените на id=com.shop:id/cancel",
+        "Итого: ошибок 1, предупреждений 1",
+      ].join("\n")
+    );
+  });
+});
+
+describe("locator-lint: сбор элементов", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "etw-lint-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("экраны, их экземпляры, PageElement и вложенные объекты из экспортов модуля", () => {
+    class LoginScreen extends Screen {
+      readonly title = "Вход";
+      readonly submit = this.element({ android: "~submit", ios: "~submit" });
+    }
+    const targets = collectLintTargets({
+      LoginScreen,
+      cart: new LoginScreen(),
+      header: PageElement.byAccessibilityId("header"),
+      locators: { Profile: { avatar: PageElement.byAccessibilityId("avatar") } },
+      helper: () => 1,
+    });
+    expect(targets.map((t) => t.name)).toEqual([
+      "LoginScreen.submit",
+      "cart.submit",
+      "header",
+      "locators.Profile.avatar",
+    ]);
+  });
+
+  it("обходит каталоги с репозиториями и модулями, пропуская тесты", async () => {
+    fs.writeFileSync(
+      path.join(dir, "login.yaml"),
+      ["Login:", "  submit:", "    android: { XPath: '/hierarchy/android.widget.Button' }", "    ios: { AccessibilityId: submit }"].join(
+        "\n"
+      )
+    );
+    const pageElementPath = path.resolve("src/core/locators/page-element.ts").replace(/\\/g, "/");
+    fs.writeFileSync(
+      path.join(dir, "screens.ts"),
+      `import { PageElement } from "${pageElementPath}";\nexport const cart = { total: PageElement.byAndroidAccessibilityId("total") };\n`
+    );
+    fs.writeFileSync(path.join(dir, "screens.test.ts"), "throw new Error('не должен импортироваться');\n");
+
+    const findings = await lintLocators(dir);
+    expect(findings.map((f) => [path.basename(f.file ?? ""), f.element, f.rule])).toEqual([
+      ["login.yaml", "Login.submit", "absolute-xpath"],
+      ["screens.ts", "cart.total", "missing-platform"],
+    ]);
+  });
+});
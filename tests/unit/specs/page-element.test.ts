@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { PageElement, relativeXPath } from "../../../src/core/locators/page-element";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+/** Драйвер-заглушка: три карточки, у каждой — цена. */
+function fakeDriver() {
+  useFakeDriver({
+    find: (_using, value) => (value === "card" ? ["c1", "c2", "c3"] : []),
+    findIn: (parentId, _using, value) => (value === "price" ? [`${parentId}-price`] : []),
+    element: (id) => ({ getText: async () => `text of ${id}` }),
+  });
+}
+
+describe("PageElement: вложенный поиск", () => {
+  afterEach(resetTestEnv);
+
+  it("child и nth не меняют исходный элемент и дают читаемое описание", () => {
+    useConfig({ platform: "ANDROID" });
+    const card = PageElement.byAccessibilityId("card");
+    const price = card.nth(3).child(PageElement.AccessibilityId("price"));
+
+    expect(card.getIndex()).toBeNull();
+    expect(price.getParent()?.getIndex()).toBe(3);
+    expect(price.describe()).toBe("accessibility id=card [3] › accessibility id=price");
+    expect(() => card.nth(0)).toThrow(/nth\(0\)/);
+  });
+
+  it("цепочки child(child(...)) подвешиваются к новому родителю целиком", () => {
+    useConfig({ platform: "IOS" });
+    const inner = new PageElement({ ios: "~row" }).child("~label");
+    const chained = PageElement.byIOSAccessibilityId("list").child(inner);
+
+    expect(chained.describe()).toBe("accessibility id=list › ~row › ~label");
+    expect(inner.describe()).toBe("~row › ~label");
+  });
+
+  it("MobileActions ищет дочерний элемент внутри найденного родителя", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeDriver();
+    const price = PageElement.byAccessibilityId("card").nth(3).child(PageElement.AccessibilityId("price"));
+
+    expect(await mobileActions.getText(price, { timeout: 1, polling: 10 })).toBe("text of c3-price");
+  });
+
+  it("XPath дочернего элемента — относительно родителя, в том числе в группе и объединении", async () => {
+    useConfig({ platform: "ANDROID" });
+    const queries: string[] = [];
+    useFakeDriver({
+      find: (_using, value) => (value === "card" ? ["c1"] : []),
+      findIn: (parentId, _using, value) => {
+        queries.push(value);
+        return [`${parentId}-price`];
+      },
+      // строковый локатор ищется через $$ найденного родителя
+      element: (id) => ({
+        $$: async (selector: string) => {
+          queries.push(selector);
+          return [{ elementId: `${id}-price`, isDisplayed: async () => true }];
+        },
+      }),
+    });
+    const card = PageElement.byAccessibilityId("card");
+
+    await mobileActions.waitForElements(card.child({ using: "xpath", value: "(//*[@text = 'a/b'])[1]" }), { timeout: 0.05, polling: 10 });
+    await mobileActions.waitForElements(card.child("//price | ( //old_price )[last()]"), { timeout: 0.05, polling: 10 });
+    expect(queries).toEqual(["(.//*[@text = 'a/b'])[1]", ".//price | ( .//old_price )[last()]"]);
+    expect(relativeXPath("//card[.//price]/title")).toBe(".//card[.//price]/title");
+    expect(relativeXPath("./price | //a[count(//x) > 1]")).toBe("./price | .//a[count(//x) > 1]");
+  });
+
+  it("ошибка содержит цепочку родителей, а не [object Object]", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeDriver();
+    const missing = PageElement.byAccessibilityId("card").nth(2).child(PageElement.AccessibilityId("discount"));
+
+    await expect(mobileActions.getText(missing, { timeout: 0.05, polling: 10 })).rejects.toThrow(
+      "Элемент: accessibility id=card [2] › accessibility id=discount. Локаторы не найдены: accessibility id=discount"
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+
+import { PageElement } from "../../../src/core/locators/page-element";
+import { PageSource, UnsupportedLocatorError } from "../../../src/core/page-source/page-source";
+import { Platform } from "../../../src/core/platform";
+
+const ANDROID_XML = `<?xml version='1.0' encoding='UTF-8' standalone='yes' ?>
+<hierarchy index="0" rotation="0">
+  <android.widget.FrameLayout index="0" package="com.shop" class="android.widget.FrameLayout" bounds="[0,0][1080,2400]">
+    <android.widget.TextView index="0" text="Корзина &amp; заказы" resource-id="com.shop:id/title" bounds="[0,63][1080,200]" />
+    <android.view.ViewGroup index="1" resource-id="com.shop:id/card" content-desc="card" bounds="[0,200][1080,500]">
+      <android.widget.TextView index="0" text="Кофе" resource-id="com.shop:id/name" bounds="[20,220][500,280]" />
+      <android.widget.TextView index="1" text="250 ₽" resource-id="com.shop:id/price" bounds="[20,300][500,360]" />
+    </android.view.ViewGroup>
+    <android.view.ViewGroup index="2" resource-id="com.shop:id/card" content-desc="card" bounds="[0,500][1080,800]">
+      <!-- вторая карточка -->
+      <android.widget.TextView index="0" text="Чай" resource-id="com.shop:id/name" bounds="[20,520][500,580]" />
+      <android.widget.TextView index="1" text="It's 90 ₽" resource-id="com.shop:id/price" bounds="[20,600][500,660]" />
+    </android.view.ViewGroup>
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+const IOS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<XCUIElementTypeApplication type="XCUIElementTypeApplication" name="Shop" x="0" y="0" width="390" height="844">
+  <XCUIElementTypeWindow type="XCUIElementTypeWindow" x="0" y="0" width="390" height="844">
+    <XCUIElementTypeTable type="XCUIElementTypeTable" x="0" y="100" width="390" height="600">
+      <XCUIElementTypeCell type="XCUIElementTypeCell" name="item_1" visible="true" x="0" y="100" width="390" height="80">
+        <XCUIElementTypeButton type="XCUIElementTypeButton" name="buy" label="Купить" x="300" y="120" width="80" height="40"/>
+      </XCUIElementTypeCell>
+      <XCUIElementTypeCell type="XCUIElementTypeCell" name="item_2" visible="false" x="0" y="180" width="390" height="80">
+        <XCUIElementTypeStaticText type="XCUIElementTypeStaticText" name="Café" label="Café" value="Café" x="10" y="190" width="200" height="30"/>
+        <XCUIElementTypeButton type="XCUIElementTypeButton" name="buy" label="КУПИТЬ" x="300" y="200" width="80" height="40"/>
+      </XCUIElementTypeCell>
+    </XCUIElementTypeTable>
+  </XCUIElementTypeWindow>
+</XCUIElementTypeApplication>`;
+
+const texts = (nodes: { attributes: Record<string, string> }[], attr = "text") => nodes.map((n) => n.attributes[attr]);
+
+describe("PageSource: Android и XPath", () => {
+  const source = PageSource.parse(ANDROID_XML);
+
+  it("определяет платформу, разбирает сущности и bounds", () => {
+    expect(source.platform).toBe(Platform.ANDROID);
+    const [title] = source.query(PageElement.Text("Корзина & заказы"));
+    expect(title.bounds).toEqual({ x: 0, y: 63, width: 1080, height: 137 });
+  });
+
+  it("подмножество XPath: оси, предикаты, функции, объединение", () => {
+    expect(texts(source.query("//*[@resource-id='com.shop:id/card'][2]/*[last()]"))).toEqual(["It's 90 ₽"]);
+    expect(texts(source.query("(//*[contains(@resource-id, 'price')])[1]"))).toEqual(["250 ₽"]);
+    expect(texts(source.query("//*[@text='Чай']/following-sibling::*"))).toEqual(["It's 90 ₽"]);
+    expect(texts(source.query("//*[@text='Кофе']/../*[starts-with(@text, '2')]"))).toEqual(["250 ₽"]);
+    expect(texts(source.query("//*[@text='Кофе'] | //*[@text='Чай']"))).toEqual(["Кофе", "Чай"]);
+    expect(texts(source.query("//android.widget.TextView[not(@index='0') and position() = 1]"))).toEqual([]);
+    expect(source.query("//*[count(*) = 2]")).toHaveLength(2);
+    // PageElement.Text экранирует апостроф через concat(...)
+    expect(texts(source.query(PageElement.Text("It's 90 ₽")))).toEqual(["It's 90 ₽"]);
+    expect(() => source.query("//*[@text = $x]")).toThrow(/Некорректный или неподдерживаемый XPath/);
+  });
+
+  it("accessibility id, id, запасные локаторы, child и nth", () => {
+    expect(source.query("~card")).toHaveLength(2);
+    expect(texts(source.query({ using: "id", value: "title" }))).toEqual(["Корзина & заказы"]);
+
+    const price = PageElement.byAccessibilityId("card").nth(2).child(PageElement.ResourceId("price"));
+    expect(source.find(price)?.attributes.text).toBe("It's 90 ₽");
+    // сгруппированный XPath внутри родителя не выходит за его пределы
+    const first = PageElement.byAccessibilityId("card").nth(2).child("(//*[contains(@resource-id, 'price')])[1]");
+    expect(source.find(first)?.attributes.text).toBe("It's 90 ₽");
+
+    const fallback = PageElement.byAndroidLocators([
+      PageElement.AndroidUIAutomator('new UiSelector().text("Чай")'),
+      PageElement.AccessibilityId("missing"),
+      PageElement.Text("Чай"),
+    ]);
+    const matches = source.queryAll(fallback);
+    expect(matches.map((m) => m.nodes.length)).toEqual([0, 0, 1]);
+    expect(matches[0].error).toBeInstanceOf(UnsupportedLocatorError);
+    expect(source.find(fallback)?.bounds).toEqual({ x: 20, y: 520, width: 480, height: 60 });
+  });
+});
+
+describe("PageSource: iOS predicate string и class chain", () => {
+  const source = PageSource.parse(IOS_XML);
+
+  it("predicate string: операторы, модификаторы, AND/OR/NOT, IN", () => {
+    expect(source.platform).toBe(Platform.IOS);
+    const q = (p: string) => texts(source.query(PageElement.IOSPredicateString(p)), "label");
+    expect(q("type == 'XCUIElementTypeButton' AND label ==[c] 'купить'")).toEqual(["Купить", "КУПИТЬ"]);
+    expect(q("label BEGINSWITH 'К' AND NOT (label CONTAINS 'уп')")).toEqual(["КУПИТЬ"]);
+    expect(q("name ==[d] 'Cafe' OR label LIKE 'Куп*'")).toEqual(["Купить", "Café"]);
+    expect(texts(source.query(PageElement.IOSPredicateString("name IN {'item_2', 'x'} AND visible == false")), "name")).toEqual([
+      "item_2",
+    ]);
+    expect(() => source.query(PageElement.IOSPredicateString("label === 'x'"))).toThrow(/predicate string/);
+  });
+
+  it("class chain: **, индексы, `predicate` и $predicate$", () => {
+    const q = (c: string) => source.query(PageElement.IOSClassChain(c)).map((n) => `${n.attributes.name}:${n.bounds?.y}`);
+    expect(q("**/XCUIElementTypeCell[-1]/XCUIElementTypeButton")).toEqual(["buy:200"]);
+    expect(q("XCUIElementTypeWindow/XCUIElementTypeTable/*[`name BEGINSWITH 'item'`][1]")).toEqual(["item_1:100"]);
+    expect(q("**/XCUIElementTypeCell[$label == 'Café'$]")).toEqual(["item_2:180"]);
+    expect(source.query("~buy")).toHaveLength(2);
+  });
+});
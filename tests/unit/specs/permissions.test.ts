@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { AppConfiguration } from "../../../src/config/app-config";
+import {
+  androidPermissions,
+  iosPrivacyService,
+  isGrantedInDumpsys,
+  Permissions,
+} from "../../../src/adapters/devices/permissions";
+import { Terminal } from "../../../src/adapters/system/terminal";
+import { DeviceSettings } from "../../../src/adapters/devices/device-settings";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+describe("permissions", () => {
+  it("имена разрешений по платформам", () => {
+    expect(androidPermissions("location")).toEqual([
+      "android.permission.ACCESS_FINE_LOCATION",
+      "android.permission.ACCESS_COARSE_LOCATION",
+    ]);
+    expect(androidPermissions("CAMERA")).toEqual(["android.permission.CAMERA"]);
+    expect(androidPermissions("com.example.permission.SYNC")).toEqual(["com.example.permission.SYNC"]);
+    expect(iosPrivacyService("photos")).toBe("photos");
+    expect(iosPrivacyService("location-always")).toBe("location-always");
+    expect(() => iosPrivacyService("camera")).toThrow(/нельзя изменить через simctl privacy/);
+    const dumpsys = "    android.permission.CAMERA: granted=true, flags=[ USER_SET ]\n    android.permission.RECORD_AUDIO: granted=false";
+    expect(isGrantedInDumpsys(dumpsys, "android.permission.CAMERA")).toBe(true);
+    expect(isGrantedInDumpsys(dumpsys, "android.permission.RECORD_AUDIO")).toBe(false);
+    expect(isGrantedInDumpsys(dumpsys, "android.permission.READ_CONTACTS")).toBe(false);
+  });
+
+  it("autoGrantPermissions настраивается конфигурацией", () => {
+    expect(AppConfiguration.fromObject({}).getAndroidAutoGrantPermissions()).toBe(true);
+    expect(AppConfiguration.fromObject({ "android.auto_grant_permissions": false }).getAndroidAutoGrantPermissions()).toBe(false);
+  });
+});
+
+describe("Permissions", () => {
+  afterEach(resetTestEnv);
+
+  function fakeDevice(udid: string, replies: Record<string, string> = {}) {
+    const commands: string[] = [];
+    useFakeDriver({}, { capabilities: { udid } });
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(Terminal, "runCommand").mockImplementation(((command: string[], errorMessage?: string) => {
+      const line = command.join(" ");
+      if (errorMessage === undefined) return replies[line] ?? "";
+      commands.push(line);
+      return true;
+    }) as typeof Terminal.runCommand);
+    return commands;
+  }
+
+  it("Android: pm grant/revoke, appops и возврат исходного состояния", async () => {
+    useConfig({ platform: "ANDROID", "app.package": "ru.shop" });
+    const sh = "adb -s emulator-5554 shell";
+    const commands = fakeDevice("emulator-5554", {
+      [`${sh} dumpsys package ru.shop`]: "Package [ru.shop] (5d2c1a0):\n    android.permission.CAMERA: granted=true, flags=[ USER_SET ]",
+      [`${sh} appops get ru.shop SYSTEM_ALERT_WINDOW`]: "No operations.",
+    });
+
+    await Permissions.revoke("camera");
+    await Permissions.reset("camera");
+    await Permissions.grant("android.permission.POST_NOTIFICATIONS");
+    await Permissions.setAppOp("SYSTEM_ALERT_WINDOW", "deny");
+    expect(commands).toEqual([
+      `${sh} pm revoke ru.shop android.permission.CAMERA`,
+      `${sh} pm revoke ru.shop android.permission.CAMERA`,
+      `${sh} pm clear-permission-flags ru.shop android.permission.CAMERA user-set user-fixed`,
+      `${sh} pm grant ru.shop android.permission.POST_NOTIFICATIONS`,
+      `${sh} appops set ru.shop SYSTEM_ALERT_WINDOW deny`,
+    ]);
+
+    commands.length = 0;
+    await Permissions.restore();
+    expect(commands).toEqual([
+      `${sh} appops set ru.shop SYSTEM_ALERT_WINDOW default`,
+      `${sh} pm revoke ru.shop android.permission.POST_NOTIFICATIONS`,
+      `${sh} pm grant ru.shop android.permission.CAMERA`,
+    ]);
+    expect(Permissions.changed).toEqual([]);
+  });
+
+  it("Android: если исходное состояние не прочитано — ошибка, а не откат выданных разрешений", async () => {
+    useConfig({ platform: "ANDROID", "app.package": "ru.shop" });
+    const commands = fakeDevice("emulator-5554");
+
+    await expect(Permissions.revoke("camera")).rejects.toThrow(/Не удалось прочитать разрешения ru.shop/);
+    await expect(Permissions.setAppOp("SYSTEM_ALERT_WINDOW", "deny")).rejects.toThrow(/Не удалось прочитать appops/);
+    expect(commands).toEqual([]);
+    expect(Permissions.changed).toEqual([]);
+  });
+
+  it("iOS: simctl privacy, после теста — сброс", async () => {
+    useConfig({ platform: "IOS", "bundle.id": "ru.shop" });
+    const commands = fakeDevice("SIM-1");
+
+    await Permissions.grant("location");
+    await Permissions.revoke("microphone");
+    await expect(Permissions.grant("camera")).rejects.toThrow(/simctl privacy/);
+    await expect(Permissions.setAppOp("CAMERA", "allow")).rejects.toThrow(/только на Android/);
+    await Permissions.restore();
+    expect(commands).toEqual([
+      "xcrun simctl privacy SIM-1 grant location ru.shop",
+      "xcrun simctl privacy SIM-1 revoke microphone ru.shop",
+      "xcrun simctl privacy SIM-1 reset microphone ru.shop",
+      "xcrun simctl privacy SIM-1 reset location ru.shop",
+    ]);
+  });
+
+  it("tearDown откатывает разрешения, даже если восстановление устройства упало", async () => {
+    useConfig({ platform: "IOS", "bundle.id": "ru.shop" });
+    const commands = fakeDevice("SIM-1");
+    const close = vi.fn(async () => {});
+    (mobileActions as unknown as { app: { close: () => Promise<void> } }).app = { close };
+    vi.spyOn(DeviceSettings, "restore").mockRejectedValue(new Error("adb недоступен"));
+
+    await Permissions.revoke("photos");
+    await expect(mobileActions.tearDown("test")).rejects.toThrow("adb недоступен");
+    expect(commands.at(-1)).toBe("xcrun simctl privacy SIM-1 reset photos ru.shop");
+    expect(close).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+
+import { interpolateProperties, parseProperties } from "../../../src/config/properties-parser";
+import { AppConfiguration } from "../../../src/config/app-config";
+
+describe("parseProperties: совместимость с java.util.Properties", () => {
+  it("комментарии # ! ; и разделители = : пробел", () => {
+    const text = ["# comment", "! comment", "; legacy", "a=1", "b : 2", "c 3", "d=", "  e  =  5  "].join("\n");
+    expect(parseProperties(text)).toEqual({ a: "1", b: "2", c: "3", d: "", e: "5" });
+  });
+
+  it("продолжение строки обратным слешем", () => {
+    const text = "fruits = apple, \\\n         banana, \\\n         pear\nnext=1";
+    expect(parseProperties(text)).toEqual({ fruits: "apple, banana, pear", next: "1" });
+  });
+
+  it("чётное число слешей в конце — не продолжение", () => {
+    expect(parseProperties("path=C:\\\\dir\\\\\nnext=1")).toEqual({ path: "C:\\dir\\", next: "1" });
+  });
+
+  it("escape-последовательности в ключах и значениях", () => {
+    const text = ["key\\=with\\:sep\\ space = v", "uni=\\u041f\\u0440\\u0438\\u0432\\u0435\\u0442", "tab=a\\tb", "trail=x\\ "].join(
+      "\n"
+    );
+    expect(parseProperties(text)).toEqual({
+      "key=with:sep space": "v",
+      uni: "Привет",
+      tab: "a\tb",
+      trail: "x ",
+    });
+  });
+
+  it("некорректный \\u — ошибка с номером строки", () => {
+    expect(() => parseProperties("a=1\nb=\\u12G4")).toThrow(/строке 2/);
+  });
+});
+
+describe("interpolateProperties", () => {
+  it("раскрывает ${key} рекурсивно и ${env:NAME}", () => {
+    const res = interpolateProperties(
+      { "build.dir": "${root}/build", root: "${env:HOME_DIR}", out: "${build.dir}/videos", lit: "$${x}" },
+      { HOME_DIR: "/home/ci" }
+    );
+    expect(res.errors).toEqual([]);
+    expect(res.values).toEqual({ "build.dir": "/home/ci/build", root: "/home/ci", out: "/home/ci/build/videos", lit: "${x}" });
+  });
+
+  it("обнаруживает циклы и неизвестные ссылки, не останавливаясь на первой ошибке", () => {
+    const res = interpolateProperties({ a: "${b}", b: "${a}", c: "${missing}", d: "${env:NOPE}", ok: "1" }, {});
+    expect(res.errors).toEqual([
+      "a: циклическая ссылка a → b → a",
+      "c: ссылка на неизвестный ключ 'missing'",
+      "d: переменная окружения 'NOPE' не задана",
+    ]);
+    expect(res.values.ok).toBe("1");
+    expect(res.values.a).toBe("${b}");
+  });
+
+  it("AppConfiguration раскрывает ссылки после слияния и с учётом overrides", () => {
+    const cfg = AppConfiguration.fromObject({
+      "build.dir": "build",
+      "video.recording.output.dir": "${build.dir}/videos",
+    });
+    expect(cfg.getVideoRecordingOutputDir()).toBe("build/videos");
+    expect(cfg.with({ "build.dir": "out" }).getVideoRecordingOutputDir()).toBe("out/videos");
+  });
+});
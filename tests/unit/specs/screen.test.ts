@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { AppConfiguration, withConfig } from "../../../src/config/app-config";
+import { PageElement } from "../../../src/core/locators/page-element";
+import type { MobileActions } from "../../../src/runtime/mobile-actions";
+import { Screen } from "../../../src/runtime/screen";
+
+function fakeActions() {
+  const calls: Array<{ method: string; locator: unknown; args: unknown[] }> = [];
+  const record =
+    (method: string) =>
+    async (el: PageElement, ...args: unknown[]) => {
+      calls.push({ method, locator: el.get(), args });
+    };
+  const actions = {
+    waitForElements: record("waitForElements"),
+    click: record("click"),
+    typeText: record("typeText"),
+  } as unknown as MobileActions;
+  return { actions, calls };
+}
+
+class LoginScreen extends Screen {
+  readonly title = "Экран входа";
+  readonly header = this.element({ android: "~header", ios: "~header-ios" }, { marker: true });
+  readonly login = this.element({ android: ["~login", "~login-old"], ios: "~login-ios" }, { name: "Кнопка входа" });
+  readonly password = this.element(PageElement.byAccessibilityId("password"));
+}
+
+describe("Screen: декларативные элементы", () => {
+  it("имена элементов берутся из свойств или явно заданного name", () => {
+    const screen = new LoginScreen(fakeActions().actions);
+
+    expect(screen.elements().map((e) => String(e))).toEqual([
+      "Экран входа › header",
+      "Экран входа › Кнопка входа",
+      "Экран входа › password",
+    ]);
+  });
+
+  it("waitLoaded ждёт маркеры, действия делегируются в MobileActions с локатором текущей платформы", async () => {
+    const { actions, calls } = fakeActions();
+    const screen = new LoginScreen(actions);
+
+    await withConfig(AppConfiguration.fromObject({ platform: "IOS" }), async () => {
+      await (await screen.waitLoaded({ timeout: 5 })).login.click();
+      await screen.password.typeText("secret", { index: 1 });
+    });
+
+    expect(calls).toEqual([
+      { method: "waitForElements", locator: "~header-ios", args: [{ timeout: 5 }] },
+      { method: "click", locator: "~login-ios", args: [{}] },
+      { method: "typeText", locator: PageElement.AccessibilityId("password"), args: ["secret", { index: 1 }] },
+    ]);
+  });
+
+  it("список локаторов становится запасными локаторами PageElement", () => {
+    const screen = new LoginScreen(fakeActions().actions);
+    withConfig(AppConfiguration.fromObject({ platform: "ANDROID" }), () => {
+      expect(screen.login.pageElement.getAll()).toEqual(["~login", "~login-old"]);
+    });
+  });
+
+  it("экран без маркеров — понятная ошибка", async () => {
+    class Empty extends Screen {}
+    await expect(new Empty(fakeActions().actions).waitLoaded()).rejects.toThrow(/не объявлены маркеры/);
+  });
+});
+
+describe("ScreenElement: свайпы", () => {
+  afterEach(resetTestEnv);
+
+  class CatalogScreen extends Screen {
+    readonly card = this.element(PageElement.byAccessibilityId("card"));
+  }
+
+  it("без scroll.count выполняется один свайп, с ним — заданное число", async () => {
+    useConfig({ platform: "ANDROID" });
+    const swipes: unknown[] = [];
+    useFakeDriver(
+      {
+        find: (_using, value) => (value === "card" ? [value] : []),
+        element: () => ({
+          getLocation: async () => ({ x: 0, y: 500 }),
+          getSize: async () => ({ width: 1000, height: 400 }),
+        }),
+      },
+      {
+        getWindowSize: async () => ({ width: 1000, height: 2000 }),
+        performActions: async (seq: unknown) => void swipes.push(seq),
+        releaseActions: async () => {},
+      }
+    );
+    const screen = new CatalogScreen();
+
+    await screen.card.swipeLeft({ timeout: 0.05, polling: 10 });
+    expect(swipes).toHaveLength(1);
+    await screen.card.swipeUp({ timeout: 0.05, polling: 10, scroll: { count: 2 } });
+    expect(swipes).toHaveLength(3);
+  });
+});
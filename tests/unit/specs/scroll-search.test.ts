@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { nativeScrollCommand } from "../../../src/core/gestures/native-gestures";
+import { ScrollDirection } from "../../../src/core/gestures/scroll-direction";
+import { ScrollSearch } from "../../../src/core/gestures/scroll-search";
+import { PageElement } from "../../../src/core/locators/page-element";
+import { Platform } from "../../../src/core/platform";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+function drain(search: ScrollSearch, endsAt: Record<number, boolean> = {}): string[] {
+  const out: string[] = [];
+  for (let d = search.next(); d; d = search.next()) {
+    out.push(d);
+    search.record(endsAt[out.length] ?? false);
+  }
+  return out;
+}
+
+describe("ScrollSearch", () => {
+  it("без обратного направления — count скроллов или до конца списка", () => {
+    expect(drain(new ScrollSearch(ScrollDirection.Down, 3))).toEqual(["Down", "Down", "Down"]);
+    const search = new ScrollSearch(ScrollDirection.Down, 5);
+    expect(drain(search, { 2: true })).toEqual(["Down", "Down"]);
+    expect(search.reachedEnd).toBe(true);
+    expect(drain(new ScrollSearch(ScrollDirection.Down, 0, true))).toEqual([]);
+  });
+
+  it("в обе стороны: назад к началу и ещё count скроллов", () => {
+    expect(drain(new ScrollSearch(ScrollDirection.Down, 2, true))).toEqual(["Down", "Down", "Up", "Up", "Up", "Up"]);
+    // список кончился после первого скролла вниз, а вверх — после второго
+    expect(drain(new ScrollSearch(ScrollDirection.Left, 3, true), { 1: true, 3: true })).toEqual(["Left", "Right", "Right"]);
+  });
+});
+
+describe("nativeScrollCommand", () => {
+  it("mobile: scrollGesture для Android и mobile: scroll для iOS", () => {
+    expect(nativeScrollCommand(Platform.ANDROID, ScrollDirection.Down, { elementId: "list", percent: 0.8 })).toEqual({
+      script: "mobile: scrollGesture",
+      args: { elementId: "list", direction: "down", percent: 0.8 },
+    });
+    const area = { left: 0, top: 10, width: 100, height: 80 };
+    expect(nativeScrollCommand(Platform.ANDROID, ScrollDirection.Left, { area, percent: 1 })?.args).toEqual({
+      ...area,
+      direction: "left",
+      percent: 1,
+    });
+    expect(nativeScrollCommand(Platform.IOS, ScrollDirection.Up, { percent: 1 })).toEqual({
+      script: "mobile: scroll",
+      args: { direction: "up" },
+    });
+  });
+});
+
+describe("MobileActions: скролл при поиске", () => {
+  afterEach(resetTestEnv);
+
+  /**
+   * Список list из rows строк, на экране видно 3, в начале показаны строки с start.
+   * Свайп снизу вверх открывает следующие строки; у краёв список не двигается.
+   */
+  function fakeList(rows: number, start = 0) {
+    const state = { top: start, swipes: [] as string[], native: [] as Array<[string, unknown]> };
+    const move = (delta: number) => {
+      state.top = Math.max(0, Math.min(rows - 3, state.top + delta));
+    };
+    const visible = () => Array.from({ length: 3 }, (_, i) => `row${state.top + i}`);
+    useFakeDriver(
+      {
+        find: (_using, value) => (value === "list" || visible().includes(value) ? [value] : []),
+        element: () => ({
+          getLocation: async () => ({ x: 0, y: 100 }),
+          getSize: async () => ({ width: 500, height: 1000 }),
+        }),
+      },
+      {
+        getWindowSize: async () => ({ width: 500, height: 1000 }),
+        getPageSource: async () => `<hierarchy>${visible().map((r) => `<row name="${r}"/>`).join("")}</hierarchy>`,
+        performActions: async ([seq]: Array<{ actions: Array<{ type: string; y?: number }> }>) => {
+          const ys = seq.actions.filter((a) => a.type === "pointerMove").map((a) => a.y!);
+          const down = ys[ys.length - 1] < ys[0];
+          state.swipes.push(down ? "Down" : "Up");
+          move(down ? 1 : -1);
+        },
+        releaseActions: async () => {},
+        execute: async (script: string, args: { direction: string }) => {
+          state.native.push([script, args]);
+          move(args.direction === "down" ? 1 : -1);
+          return args.direction === "down" ? state.top < rows - 3 : state.top > 0;
+        },
+      }
+    );
+    return state;
+  }
+
+  const row = (i: number) => PageElement.byAccessibilityId(`row${i}`);
+  const find = { before: 0, timeout: 0.02, polling: 5 };
+
+  it("находит элемент ниже и не скроллит дальше конца списка", async () => {
+    useConfig({ platform: "ANDROID" });
+    const state = fakeList(6);
+    const el = await mobileActions.waitForElements(row(4), { ...find, scroll: { count: 10 } });
+    expect(el.elementId).toBe("row4");
+    expect(state.swipes).toEqual(["Down", "Down"]);
+
+    await expect(mobileActions.waitForElements(row(9), { ...find, scroll: { count: 10 } })).rejects.toThrow(
+      /после '2' скроллов \(достигнут конец списка\)/
+    );
+    // без обнаружения конца — все 10 скроллов
+    state.swipes.length = 0;
+    await expect(
+      mobileActions.waitForElements(row(9), { ...find, scroll: { count: 10, detectEnd: false } })
+    ).rejects.toThrow(/после '10' скроллов\./);
+    expect(state.swipes).toHaveLength(10);
+  });
+
+  it("bidirectional: не найдя ниже, ищет выше исходного места", async () => {
+    useConfig({ platform: "ANDROID", "scroll.bidirectional": "true" });
+    const state = fakeList(10, 4);
+    const el = await mobileActions.waitForElements(row(1), { ...find, scroll: { count: 5 } });
+    expect(el.elementId).toBe("row1");
+    // четвёртый скролл вниз упёрся в конец списка
+    expect(state.swipes).toEqual(["Down", "Down", "Down", "Down", "Up", "Up", "Up", "Up", "Up", "Up"]);
+  });
+
+  it("нативный скролл контейнера останавливается по ответу mobile: scrollGesture", async () => {
+    useConfig({ platform: "ANDROID" });
+    const state = fakeList(5);
+    const list = PageElement.byAccessibilityId("list");
+    await expect(
+      mobileActions.waitForElements(row(7), { ...find, scroll: { count: 10, native: true, container: list } })
+    ).rejects.toThrow(/достигнут конец списка/);
+    expect(state.native).toEqual([
+      ["mobile: scrollGesture", { elementId: "list", direction: "down", percent: 1 }],
+      ["mobile: scrollGesture", { elementId: "list", direction: "down", percent: 1 }],
+    ]);
+  });
+
+  it("некорректные опции скролла", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeList(3);
+    await expect(
+      mobileActions.waitForElements(row(0), { scroll: { container: "~list" as never, native: 1 as never } })
+    ).rejects.toThrow(/scroll.container: ожидался PageElement[\s\S]*scroll.native=1/);
+  });
+});
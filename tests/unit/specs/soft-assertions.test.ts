@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import { formatSoftFailures, SoftAssertionCollector } from "../../../src/core/assertions/soft-assertions";
+import { PageElement } from "../../../src/core/locators/page-element";
+import { VideoRecorder } from "../../../src/plugins/reporting/video-recorder";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+describe("formatSoftFailures", () => {
+  it("нумерует ошибки и сдвигает многострочные сообщения", () => {
+    const collector = new SoftAssertionCollector();
+    collector.passed();
+    collector.record("checkVisible", new Error("Элементы не найдены"));
+    collector.record("checkText", new Error("checkText: проверка не прошла\n  Ожидалось: 1\n  Фактически: 2"));
+    const report = formatSoftFailures(collector.failures, collector.checks);
+    expect(report.replace(/\[\d\d:\d\d:\d\d\] /g, "")).toBe(
+      [
+        "Мягкие проверки: не прошло 2 из 3",
+        "1) checkVisible: Элементы не найдены",
+        "2) checkText: проверка не прошла",
+        "     Ожидалось: 1",
+        "     Фактически: 2",
+      ].join("\n")
+    );
+  });
+});
+
+describe("MobileActions.softly", () => {
+  afterEach(() => {
+    resetTestEnv();
+    delete (globalThis as any).allure;
+  });
+
+  function fakeScreen(visible: Record<string, string>) {
+    useFakeDriver(
+      {
+        find: (_using, value) => (value in visible ? [value] : []),
+        element: (id) => ({ getText: async () => visible[id] }),
+      },
+      {
+        getPageSource: async () => "<hierarchy/>",
+        takeScreenshot: async () => Buffer.from("png").toString("base64"),
+      }
+    );
+  }
+
+  const el = (id: string) => PageElement.byAccessibilityId(id);
+  const fast = { before: 0, timeout: 0.05, polling: 10 };
+
+  it("ошибки записываются со снимком экрана, тест падает один раз со сводкой", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeScreen({ title: "Добро пожаловать", next: "Далее" });
+    const attachments: string[] = [];
+    (globalThis as any).allure = { attachment: (name: string) => attachments.push(name) };
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const reached = await mobileActions.softly(async () => {
+      await mobileActions.checkText(el("title"), "Привет", fast);
+      await mobileActions.checkVisible(el("next"), fast);
+      await mobileActions.checkNotVisible(el("next"), fast);
+      await mobileActions.checkHasEvent("onboarding_shown", null, 0.01);
+      return "конец сценария";
+    });
+    expect(reached).toBe("конец сценария");
+    expect(mobileActions.softFailures.map((f) => f.check)).toEqual(["checkText", "checkNotVisible", "checkHasEvent"]);
+    expect(attachments).toContain("Мягкая проверка 1: screenshot.png");
+    expect(attachments).toContain("Мягкая проверка 3: pageSource.xml");
+
+    let error: Error | undefined;
+    try {
+      mobileActions.verifySoftAssertions();
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).toMatch(/^Мягкие проверки: не прошло 3 из 4\n1\) \[[\d:]+\] checkText: /);
+    expect(error?.message).toMatch(/3\) \[[\d:]+\] checkHasEvent: Ожидаемое событие 'onboarding_shown'/);
+    expect(attachments.at(-1)).toBe("Мягкие проверки");
+    // сборщик очищен — следующий тест начинает с нуля
+    expect(mobileActions.softFailures).toHaveLength(0);
+    expect(() => mobileActions.verifySoftAssertions()).not.toThrow();
+    warn.mockRestore();
+  });
+
+  it("вне softly() проверка падает сразу", async () => {
+    useConfig({ platform: "ANDROID" });
+    fakeScreen({});
+    await expect(mobileActions.checkText(el("title"), "Привет", fast)).rejects.toThrow(/checkText/);
+    expect(mobileActions.softFailures).toHaveLength(0);
+  });
+
+  it("tearDown: сбой завершения не теряет сводку мягких проверок", async () => {
+    useConfig({ platform: "IOS" });
+    fakeScreen({});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    (mobileActions as unknown as { app: { close: () => Promise<void> } }).app = { close: async () => {} };
+    vi.spyOn(VideoRecorder, "stopRecording").mockRejectedValue(new Error("запись не остановилась"));
+
+    await mobileActions.softly(() => mobileActions.checkVisible(el("title"), fast));
+    const error: Error = await mobileActions.tearDown("test").then(
+      () => { throw new Error("tearDown не упал"); },
+      (e) => e
+    );
+    expect(error.message).toMatch(/^запись не остановилась\n\nМягкие проверки: не прошло 1 из 1\n1\) \[[\d:]+\] checkVisible: /);
+    expect((error.cause as Error).message).toBe("запись не остановилась");
+    expect(mobileActions.softFailures).toHaveLength(0);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { resetTestEnv, useConfig, useFakeDriver } from "../support/test-env";
+
+import {
+  displayText,
+  imeActionCommand,
+  iosReturnKeyLocator,
+  maskSecretArgs,
+  SECRET_MASK,
+} from "../../../src/core/input/keyboard";
+import { PageElement } from "../../../src/core/locators/page-element";
+import { createAlluredProxy } from "../../../src/plugins/reporting/allure/steps";
+import { mobileActions } from "../../../src/runtime/mobile-actions";
+
+describe("keyboard", () => {
+  it("секретный текст маскируется без подсказки о длине", () => {
+    expect(displayText("qwerty")).toBe('"qwerty"');
+    expect(displayText("qwerty", true)).toBe(SECRET_MASK);
+    expect(maskSecretArgs(["login", "p@ss", { secret: true }])).toEqual([SECRET_MASK, SECRET_MASK, { secret: true }]);
+    expect(maskSecretArgs(["login", { index: 2 }])).toEqual(["login", { index: 2 }]);
+  });
+
+  it("IME action: команда Android и кнопка клавиатуры iOS", () => {
+    expect(imeActionCommand("search")).toEqual({ script: "mobile: performEditorAction", args: { action: "search" } });
+    expect(iosReturnKeyLocator("done")).toEqual({
+      using: "-ios predicate string",
+      value: 'type == "XCUIElementTypeButton" AND name IN {"Done", "Готово"}',
+    });
+    expect(() => imeActionCommand("enter" as never)).toThrow(/IME action 'enter' не поддерживается/);
+  });
+
+  it("createAlluredProxy не показывает секретные аргументы в названии шага", async () => {
+    const titles: string[] = [];
+    const target = { typeText: async (_el: string, _text: string, _options: object) => "ok" };
+    const proxy = createAlluredProxy(target, (method, args) => {
+      const title = `${method}(${args.map((a) => JSON.stringify(a)).join(", ")})`;
+      titles.push(title);
+      return title;
+    });
+    expect(await proxy.typeText("password", "p@ss", { secret: true })).toBe("ok");
+    expect(titles).toEqual([`typeText("${SECRET_MASK}", "${SECRET_MASK}", {"secret":true})`]);
+  });
+});
+
+describe("MobileActions: ввод текста", () => {
+  afterEach(resetTestEnv);
+
+  function fakeDriver(field: { text: string; hint?: string; keyboard?: boolean; returnKey?: boolean }) {
+    const calls: Array<[string, unknown]> = [];
+    useFakeDriver(
+      {
+        find: (using, value) => {
+          if (using === "-ios predicate string") return field.returnKey ? ["return"] : [];
+          return [value];
+        },
+        element: (id) => ({
+          click: async () => calls.push(["click", id]),
+          getText: async () => field.text,
+          getAttribute: async (name: string) => (name === "hint" || name === "placeholderValue" ? field.hint ?? null : null),
+          setValue: async (v: string) => {
+            calls.push(["setValue", v]);
+            field.text = v;
+          },
+          addValue: async (v: string) => {
+            calls.push(["addValue", v]);
+            field.text += v;
+          },
+          clearValue: async () => calls.push(["clearValue", null]),
+        }),
+      },
+      {
+        execute: async (script: string, args: unknown) => calls.push([script, args]),
+        keys: async (v: string) => calls.push(["keys", v]),
+        isKeyboardShown: async () => field.keyboard ?? false,
+        hideKeyboard: async () => {
+          calls.push(["hideKeyboard", null]);
+          field.keyboard = false;
+        },
+      }
+    );
+    return calls;
+  }
+
+  const phone = PageElement.byAccessibilityId("phone");
+  const find = { before: 0, timeout: 0.02, polling: 5 };
+
+  it("посимвольный ввод и дописывание; секрет не попадает в лог", async () => {
+    useConfig({ platform: "ANDROID" });
+    const calls = fakeDriver({ text: "" });
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    await mobileActions.typeText(phone, "+79", { ...find, delay: 1 });
+    expect(calls).toEqual([["clearValue", null], ["addValue", "+"], ["addValue", "7"], ["addValue", "9"]]);
+
+    calls.length = 0;
+    await mobileActions.appendText(phone, "1234", { ...find, secret: true });
+    expect(calls).toEqual([["addValue", "1234"]]);
+    const logged = info.mock.calls.map(([m]) => String(m)).join("\n");
+    expect(logged).toContain('[Input] typeText: "+79"');
+    expect(logged).toContain(`[Input] appendText: ${SECRET_MASK}`);
+    expect(logged).not.toContain("1234");
+
+    await expect(mobileActions.typeText(phone, "1", { ...find, delay: -5 })).rejects.toThrow(/delay=-5/);
+    info.mockRestore();
+  });
+
+  it("clearText: если clearValue не помог — стирает клавишами", async () => {
+    useConfig({ platform: "ANDROID" });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const calls = fakeDriver({ text: "Телефон", hint: "Телефон" });
+    await mobileActions.clearText(phone, find);
+    // осталась только подсказка — поле уже пустое
+    expect(calls).toEqual([["clearValue", null]]);
+
+    const masked = fakeDriver({ text: "12", hint: "Телефон" });
+    await mobileActions.clearText(phone, find);
+    expect(masked.slice(1)).toEqual([
+      ["click", "phone"],
+      ["mobile: pressKey", { keycode: 123 }],
+      ["mobile: pressKey", { keycode: 67 }],
+      ["mobile: pressKey", { keycode: 67 }],
+    ]);
+    warn.mockRestore();
+  });
+
+  it("клавиатура: скрытие и IME action", async () => {
+    useConfig({ platform: "ANDROID" });
+    let calls = fakeDriver({ text: "", keyboard: true });
+    expect(await mobileActions.isKeyboardShown()).toBe(true);
+    await mobileActions.hideKeyboard();
+    await mobileActions.hideKeyboard();
+    expect(calls).toEqual([["hideKeyboard", null]]);
+    await mobileActions.pressImeAction("next");
+    expect(calls.at(-1)).toEqual(["mobile: performEditorAction", { action: "next" }]);
+
+    useConfig({ platform: "IOS" });
+    calls = fakeDriver({ text: "", returnKey: true });
+    await mobileActions.pressImeAction("search");
+    expect(calls).toEqual([["click", "return"]]);
+
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+    calls = fakeDriver({ text: "" });
+    await mobileActions.pressImeAction("search");
+    expect(calls).toEqual([["keys", "\n"]]);
+    info.mockRestore();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { AlertHandler } from "../../../src/core/interaction/alert-handler";
+import { waitUntil, WaitAbortedError, WaitTimeoutError } from "../../../src/core/wait/wait-until";
+
+describe("waitUntil", () => {
+  it("возвращает первое успешное значение", async () => {
+    const seen: number[] = [];
+    const value = await waitUntil(
+      (attempt) => {
+        seen.push(attempt);
+        return attempt === 2 ? "готово" : null;
+      },
+      { timeout: 1, interval: 5 }
+    );
+    expect(value).toBe("готово");
+    expect(seen).toEqual([0, 1, 2]);
+    // until — своё условие успеха, значение возвращается как есть
+    expect(await waitUntil((a) => a, { timeout: 1, interval: 1, until: (a) => a >= 0 })).toBe(0);
+  });
+
+  it("при timeout 0 условие проверяется ровно один раз", async () => {
+    let calls = 0;
+    await expect(waitUntil(() => ++calls > 1, { timeout: 0 })).rejects.toBeInstanceOf(WaitTimeoutError);
+    expect(calls).toBe(1);
+  });
+
+  it("backoff увеличивает паузу до maxInterval", async () => {
+    const at: number[] = [];
+    const start = Date.now();
+    await expect(
+      waitUntil(() => void at.push(Date.now() - start), { timeout: 0.2, interval: 10, backoff: 2, maxInterval: 40 })
+    ).rejects.toThrow();
+    const gaps = at.slice(1).map((t, i) => t - at[i]);
+    // 10, 20, 40, 40… (таймеры могут опаздывать, но не спешить)
+    expect(gaps[0]).toBeGreaterThanOrEqual(9);
+    expect(gaps[1]).toBeGreaterThanOrEqual(19);
+    expect(gaps[2]).toBeGreaterThanOrEqual(39);
+    expect(at.length).toBeLessThan(10);
+  });
+
+  it("ошибка таймаута: сколько ждали, последнее значение или ошибка", async () => {
+    const error = await waitUntil(() => ({ badge: "2" }), {
+      timeout: 0.05,
+      interval: 10,
+      until: (v) => v.badge === "3",
+      message: "Бейдж корзины",
+    }).catch((e) => e);
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect(error.message).toMatch(/^Бейдж корзины: не дождались за 0.05 с \(прошло 0\.\d с, попыток: \d+\); последнее значение: \{"badge":"2"\}$/);
+    expect(error.lastValue).toEqual({ badge: "2" });
+
+    const failing = await waitUntil(
+      () => {
+        throw new Error("stale element");
+      },
+      { timeout: 0.02, interval: 5 }
+    ).catch((e) => e);
+    expect(failing.message).toMatch(/последняя ошибка: stale element/);
+    expect(failing.lastError).toBeInstanceOf(Error);
+
+    await expect(waitUntil(() => true, { timeout: -1 })).rejects.toThrow(/timeout=-1/);
+  });
+
+  it("AbortSignal прерывает ожидание, не дожидаясь таймаута", async () => {
+    const ctrl = new AbortController();
+    setTimeout(() => ctrl.abort(), 20);
+    const start = Date.now();
+    const error = await waitUntil(() => false, { timeout: 10, interval: 1000, signal: ctrl.signal, message: "Лоадер" }).catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(WaitAbortedError);
+    expect(error.message).toMatch(/^Лоадер: ожидание прервано/);
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+});
+
+describe("AlertHandler", () => {
+  it("isAlertPresent: false по таймауту, исключение при отмене", async () => {
+    let opened = false;
+    const driver = {
+      getAlertText: async () => {
+        if (!opened) throw new Error("no such alert");
+        return "Разрешить доступ?";
+      },
+    } as unknown as WebdriverIO.Browser;
+    expect(await new AlertHandler(driver, 0.03, 10).isAlertPresent()).toBe(false);
+
+    setTimeout(() => (opened = true), 20);
+    const handler = new AlertHandler(driver, 1, 5);
+    expect(await handler.isAlertPresent()).toBe(true);
+    expect(await handler.getText()).toBe("Разрешить доступ?");
+
+    opened = false;
+    const ctrl = new AbortController();
+    ctrl.abort();
+    await expect(new AlertHandler(driver, 1, 5, ctrl.signal).isAlertPresent()).rejects.toBeInstanceOf(WaitAbortedError);
+  });
+});
@@ -0,0 +1,59 @@
+import { vi } from "vitest";
+import { AppConfiguration, type ConfigOverrides, setDefaultConfig } from "../../../src/config/app-config";
+import { DriverRegistry } from "../../../src/adapters/appium/drivers/driver-registry";
+
+/**
+ * Общая обвязка unit-тестов MobileActions: конфигурация, драйвер-заглушка, очистка.
+ *
+ * Импортировать в спеке первым после vitest — до всего, что загружает src/runtime/mobile-actions:
+ * при импорте mobile-actions регистрирует хуки сессии Appium, если не задан DISABLE_MOBILE_AUTO_HOOKS.
+ */
+process.env.DISABLE_MOBILE_AUTO_HOOKS = "1";
+
+/** Ключ ссылки на элемент в ответах W3C WebDriver. */
+const W3C_ID = "element-6066-11e4-a52e-4f735466cecf";
+
+/** Конфигурация теста вместо tests.properties. */
+export function useConfig(values: ConfigOverrides): AppConfiguration {
+  const config = AppConfiguration.fromObject(values);
+  setDefaultConfig(config);
+  return config;
+}
+
+export interface FakeScreen {
+  /** id элементов, которые драйвер найдёт по локатору; по умолчанию — ничего. */
+  find?: (using: string, value: string) => string[];
+  /** То же для поиска внутри элемента parentId (PageElement.child). */
+  findIn?: (parentId: string, using: string, value: string) => string[];
+  /** Методы элемента по id; elementId и isDisplayed() = true добавляются сами. */
+  element?: (id: string) => object;
+}
+
+/**
+ * Регистрирует в DriverRegistry драйвер-заглушку: findElements / findElementsFromElement / $
+ * по описанию экрана, остальные методы (execute, getPageSource, performActions, …) — из methods.
+ * Возвращает сам объект драйвера: его методы можно подменить по ходу теста.
+ */
+export function useFakeDriver<M extends object>(screen: FakeScreen = {}, methods: M = {} as M) {
+  const refs = (ids: string[]) => ids.map((id) => ({ [W3C_ID]: id }));
+  const driver = {
+    findElements: async (using: string, value: string) => refs(screen.find?.(using, value) ?? []),
+    findElementsFromElement: async (parentId: string, using: string, value: string) =>
+      refs(screen.findIn?.(parentId, using, value) ?? []),
+    $: async (ref: Record<string, string>) => ({
+      elementId: ref[W3C_ID],
+      isDisplayed: async () => true,
+      ...screen.element?.(ref[W3C_ID]),
+    }),
+    ...methods,
+  };
+  DriverRegistry.set(driver as unknown as WebdriverIO.Browser);
+  return driver;
+}
+
+/** Для afterEach: снять драйвер, конфигурацию и шпионов vi.spyOn. */
+export function resetTestEnv() {
+  DriverRegistry.clear();
+  setDefaultConfig(null);
+  vi.restoreAllMocks();
+}